@@ -1,12 +1,12 @@
 /// Virtual Card System - A decentralized crypto-powered virtual card system on Sui
 /// This module allows users to create virtual cards, deposit crypto, set spending limits, and track spending
+/// Cards are generic over the coin type they hold, so a Card<SUI> and a Card<USDC> can live side by side
 module card::card {
     use sui::object::{Self, UID};
     use sui::transfer;
     use sui::tx_context::{Self, TxContext};
     use sui::coin::{Self, Coin};
     use sui::balance::{Self, Balance};
-    use sui::sui::SUI;
     use sui::event;
 
     /// Errors
@@ -15,11 +15,11 @@ module card::card {
     const EExceedsSpendingLimit: u64 = 2;
     const EInactiveCard: u64 = 3;
     
-    /// The Card object that represents a virtual debit card
-    public struct Card has key, store {
+    /// The Card object that represents a virtual debit card holding coins of type T
+    public struct Card<phantom T> has key, store {
         id: UID,
         owner: address,
-        balance: Balance<SUI>,
+        balance: Balance<T>,
         spending_limit: u64,
         amount_spent: u64,
         is_active: bool
@@ -55,14 +55,45 @@ module card::card {
         new_balance: u64
     }
     
+    /// Event emitted when tokens are withdrawn back to the owner
+    public struct Withdraw has copy, drop {
+        card_id: address,
+        amount: u64,
+        new_balance: u64
+    }
+    
+    /// Event emitted when the spending limit of a card changes
+    public struct SpendingLimitUpdated has copy, drop {
+        card_id: address,
+        old_limit: u64,
+        new_limit: u64
+    }
+    
+    /// Event emitted when a card is deactivated
+    public struct CardDeactivated has copy, drop {
+        card_id: address
+    }
+    
+    /// Event emitted when a card is reactivated
+    public struct CardReactivated has copy, drop {
+        card_id: address
+    }
+    
+    /// Event emitted when a card is handed over to a new owner
+    public struct CardTransferred has copy, drop {
+        card_id: address,
+        previous_owner: address,
+        new_owner: address
+    }
+    
     /// Creates a new virtual card with a specified spending limit
-    public fun create_card(spending_limit: u64, ctx: &mut TxContext) {
+    public fun create_card<T>(spending_limit: u64, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         
-        let card = Card {
+        let card = Card<T> {
             id: object::new(ctx),
             owner: sender,
-            balance: balance::zero<SUI>(),
+            balance: balance::zero<T>(),
             spending_limit,
             amount_spent: 0,
             is_active: true
@@ -79,8 +110,8 @@ module card::card {
         transfer::transfer(card, sender);
     }
     
-    /// Deposits SUI tokens into the card
-    public fun deposit(card: &mut Card, payment: Coin<SUI>, ctx: &mut TxContext) {
+    /// Deposits tokens into the card
+    public fun deposit<T>(card: &mut Card<T>, payment: Coin<T>, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         assert!(sender == card.owner, ENotOwner);
         assert!(card.is_active, EInactiveCard);
@@ -99,7 +130,7 @@ module card::card {
     }
     
     /// Simulates spending from the card with a recipient
-    public fun spend(card: &mut Card, amount: u64, recipient: address, ctx: &mut TxContext) {
+    public fun spend<T>(card: &mut Card<T>, amount: u64, recipient: address, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         assert!(sender == card.owner, ENotOwner);
         assert!(card.is_active, EInactiveCard);
@@ -126,7 +157,7 @@ module card::card {
     }
     
     /// Original spend function (kept for backward compatibility)
-    public fun spend_to_owner(card: &mut Card, amount: u64, ctx: &mut TxContext) {
+    public fun spend_to_owner<T>(card: &mut Card<T>, amount: u64, ctx: &mut TxContext) {
         // Use the new spend function but with the owner as the recipient
         let sender = tx_context::sender(ctx);
         spend(card, amount, sender, ctx);
@@ -135,7 +166,7 @@ module card::card {
     /// Direct transfer function that bypasses spending limits
     /// This function allows the card owner to transfer funds directly
     /// without affecting the spending limit tracking
-    public fun direct_transfer(card: &mut Card, amount: u64, recipient: address, ctx: &mut TxContext) {
+    public fun direct_transfer<T>(card: &mut Card<T>, amount: u64, recipient: address, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         assert!(sender == card.owner, ENotOwner);
         assert!(card.is_active, EInactiveCard);
@@ -157,7 +188,7 @@ module card::card {
     }
     
     /// Returns information about a card
-    public fun get_card_info(card: &Card): (address, u64, u64, u64, bool) {
+    public fun get_card_info<T>(card: &Card<T>): (address, u64, u64, u64, bool) {
         (
             card.owner,
             balance::value(&card.balance),
@@ -168,31 +199,46 @@ module card::card {
     }
     
     /// Deactivates a card
-    public fun deactivate_card(card: &mut Card, ctx: &mut TxContext) {
+    public fun deactivate_card<T>(card: &mut Card<T>, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         assert!(sender == card.owner, ENotOwner);
         
         card.is_active = false;
+        
+        event::emit(CardDeactivated {
+            card_id: object::uid_to_address(&card.id)
+        });
     }
     
     /// Reactivates a card
-    public fun reactivate_card(card: &mut Card, ctx: &mut TxContext) {
+    public fun reactivate_card<T>(card: &mut Card<T>, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         assert!(sender == card.owner, ENotOwner);
         
         card.is_active = true;
+        
+        event::emit(CardReactivated {
+            card_id: object::uid_to_address(&card.id)
+        });
     }
     
     /// Updates the spending limit of a card
-    public fun update_spending_limit(card: &mut Card, new_limit: u64, ctx: &mut TxContext) {
+    public fun update_spending_limit<T>(card: &mut Card<T>, new_limit: u64, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         assert!(sender == card.owner, ENotOwner);
         
+        let old_limit = card.spending_limit;
         card.spending_limit = new_limit;
+        
+        event::emit(SpendingLimitUpdated {
+            card_id: object::uid_to_address(&card.id),
+            old_limit,
+            new_limit
+        });
     }
     
     /// Withdraws tokens from a card
-    public fun withdraw(card: &mut Card, amount: u64, ctx: &mut TxContext) {
+    public fun withdraw<T>(card: &mut Card<T>, amount: u64, ctx: &mut TxContext) {
         let sender = tx_context::sender(ctx);
         assert!(sender == card.owner, ENotOwner);
         assert!(balance::value(&card.balance) >= amount, EInsufficientBalance);
@@ -200,5 +246,29 @@ module card::card {
         let withdraw_balance = balance::split(&mut card.balance, amount);
         let withdraw_coin = coin::from_balance(withdraw_balance, ctx);
         transfer::public_transfer(withdraw_coin, sender);
+        
+        event::emit(Withdraw {
+            card_id: object::uid_to_address(&card.id),
+            amount,
+            new_balance: balance::value(&card.balance)
+        });
+    }
+    
+    /// Hands the card over to a new owner, who can use it straight away.
+    /// Sending the object with a plain transfer would leave the owner field
+    /// behind, locking the new holder out of the card.
+    public fun transfer_card<T>(mut card: Card<T>, recipient: address, ctx: &mut TxContext) {
+        let sender = tx_context::sender(ctx);
+        assert!(sender == card.owner, ENotOwner);
+        
+        card.owner = recipient;
+        
+        event::emit(CardTransferred {
+            card_id: object::uid_to_address(&card.id),
+            previous_owner: sender,
+            new_owner: recipient
+        });
+        
+        transfer::public_transfer(card, recipient);
     }
 }
\ No newline at end of file
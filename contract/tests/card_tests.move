@@ -1,13 +1,26 @@
 #[test_only]
 module card::card_tests {
     use sui::test_scenario::{Self as ts, Scenario};
-    use sui::coin::{Self, Coin};
+    use sui::coin;
+    use sui::event;
     use sui::sui::SUI;
     use sui::test_utils::assert_eq;
-    use card::card::{Self, Card};
+    use card::card::{
+        Self,
+        Card,
+        Withdraw,
+        SpendingLimitUpdated,
+        CardDeactivated,
+        CardReactivated,
+        CardTransferred
+    };
+
+    /// Stands in for a coin other than SUI
+    public struct TEST_COIN has drop {}
 
     // Test addresses
     const OWNER: address = @0xCAFE;
+    const RECIPIENT: address = @0xBEEF;
 
     // Error constants from the card module
     const ENotOwner: u64 = 0;
@@ -26,7 +39,7 @@ module card::card_tests {
         // Check card was created correctly
         ts::next_tx(&mut scenario, OWNER);
         {
-            let card = ts::take_from_sender<Card>(&scenario);
+            let card = ts::take_from_sender<Card<SUI>>(&scenario);
             let (owner, balance, limit, spent, is_active) = card::get_card_info(&card);
             
             assert_eq(owner, OWNER);
@@ -52,7 +65,7 @@ module card::card_tests {
         // Deposit SUI into the card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             let deposit_amount = 500;
             
             // Create a test SUI coin for deposit
@@ -71,11 +84,11 @@ module card::card_tests {
         // Spend from the card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             let spend_amount = 200;
             
             // Spend from the card
-            card::spend(&mut card, spend_amount, ts::ctx(&mut scenario));
+            card::spend(&mut card, spend_amount, OWNER, ts::ctx(&mut scenario));
             
             // Verify the balance and amount spent were updated
             let (_, balance, _, spent, _) = card::get_card_info(&card);
@@ -100,7 +113,7 @@ module card::card_tests {
         // Deposit SUI into the card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             let deposit_amount = 2000; // More than the spending limit
             
             // Create a test SUI coin for deposit
@@ -110,7 +123,7 @@ module card::card_tests {
             card::deposit(&mut card, coin, ts::ctx(&mut scenario));
             
             // Try to spend more than the spending limit
-            card::spend(&mut card, 1001, ts::ctx(&mut scenario)); // This should fail
+            card::spend(&mut card, 1001, OWNER, ts::ctx(&mut scenario)); // This should fail
             
             ts::return_to_sender(&scenario, card);
         };
@@ -130,7 +143,7 @@ module card::card_tests {
         // Deposit SUI into the card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             let deposit_amount = 500;
             
             // Create a test SUI coin for deposit
@@ -140,7 +153,7 @@ module card::card_tests {
             card::deposit(&mut card, coin, ts::ctx(&mut scenario));
             
             // Try to spend more than the balance
-            card::spend(&mut card, 600, ts::ctx(&mut scenario)); // This should fail
+            card::spend(&mut card, 600, OWNER, ts::ctx(&mut scenario)); // This should fail
             
             ts::return_to_sender(&scenario, card);
         };
@@ -159,7 +172,7 @@ module card::card_tests {
         // Deactivate the card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             
             card::deactivate_card(&mut card, ts::ctx(&mut scenario));
             
@@ -173,7 +186,7 @@ module card::card_tests {
         // Try to spend from a deactivated card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             
             // Reactivate the card
             card::reactivate_card(&mut card, ts::ctx(&mut scenario));
@@ -199,7 +212,7 @@ module card::card_tests {
         // Update the spending limit
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             let new_limit = 2000;
             
             card::update_spending_limit(&mut card, new_limit, ts::ctx(&mut scenario));
@@ -225,7 +238,7 @@ module card::card_tests {
         // Deposit SUI into the card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             let deposit_amount = 500;
             
             // Create a test SUI coin for deposit
@@ -244,7 +257,7 @@ module card::card_tests {
         // Withdraw from the card
         ts::next_tx(&mut scenario, OWNER);
         {
-            let mut card = ts::take_from_sender<Card>(&scenario);
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
             let withdraw_amount = 200;
             
             // Withdraw from the card
@@ -260,11 +273,120 @@ module card::card_tests {
         ts::end(scenario);
     }
 
+    #[test]
+    fun test_card_with_other_coin_type() {
+        let mut scenario = ts::begin(OWNER);
+        
+        // Create a card that holds the test coin instead of SUI
+        ts::next_tx(&mut scenario, OWNER);
+        {
+            card::create_card<TEST_COIN>(1000, ts::ctx(&mut scenario));
+        };
+        
+        ts::next_tx(&mut scenario, OWNER);
+        {
+            let mut card = ts::take_from_sender<Card<TEST_COIN>>(&scenario);
+            
+            let coin = coin::mint_for_testing<TEST_COIN>(500, ts::ctx(&mut scenario));
+            card::deposit(&mut card, coin, ts::ctx(&mut scenario));
+            card::withdraw(&mut card, 200, ts::ctx(&mut scenario));
+            
+            let (_, balance, _, _, _) = card::get_card_info(&card);
+            assert_eq(balance, 300);
+            
+            ts::return_to_sender(&scenario, card);
+        };
+        
+        // The withdrawn test coins go back to the owner
+        ts::next_tx(&mut scenario, OWNER);
+        {
+            let coin = ts::take_from_sender<coin::Coin<TEST_COIN>>(&scenario);
+            assert_eq(coin::value(&coin), 200);
+            ts::return_to_sender(&scenario, coin);
+        };
+        
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_state_changes_emit_events() {
+        let mut scenario = ts::begin(OWNER);
+        test_create_card_helper(&mut scenario, 1000);
+        
+        ts::next_tx(&mut scenario, OWNER);
+        {
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
+            
+            let coin = coin::mint_for_testing<SUI>(500, ts::ctx(&mut scenario));
+            card::deposit(&mut card, coin, ts::ctx(&mut scenario));
+            card::withdraw(&mut card, 200, ts::ctx(&mut scenario));
+            card::update_spending_limit(&mut card, 2000, ts::ctx(&mut scenario));
+            card::deactivate_card(&mut card, ts::ctx(&mut scenario));
+            card::reactivate_card(&mut card, ts::ctx(&mut scenario));
+            
+            // Every change to the card can be followed from its events
+            assert_eq(event::events_by_type<Withdraw>().length(), 1);
+            assert_eq(event::events_by_type<SpendingLimitUpdated>().length(), 1);
+            assert_eq(event::events_by_type<CardDeactivated>().length(), 1);
+            assert_eq(event::events_by_type<CardReactivated>().length(), 1);
+            
+            ts::return_to_sender(&scenario, card);
+        };
+        
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun test_transfer_card() {
+        let mut scenario = ts::begin(OWNER);
+        test_create_card_helper(&mut scenario, 1000);
+        
+        ts::next_tx(&mut scenario, OWNER);
+        {
+            let card = ts::take_from_sender<Card<SUI>>(&scenario);
+            card::transfer_card(card, RECIPIENT, ts::ctx(&mut scenario));
+            
+            assert_eq(event::events_by_type<CardTransferred>().length(), 1);
+        };
+        
+        // The new owner can use the card straight away
+        ts::next_tx(&mut scenario, RECIPIENT);
+        {
+            let mut card = ts::take_from_sender<Card<SUI>>(&scenario);
+            
+            let (owner, _, _, _, _) = card::get_card_info(&card);
+            assert_eq(owner, RECIPIENT);
+            
+            let coin = coin::mint_for_testing<SUI>(500, ts::ctx(&mut scenario));
+            card::deposit(&mut card, coin, ts::ctx(&mut scenario));
+            
+            ts::return_to_sender(&scenario, card);
+        };
+        
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 0)] // ENotOwner
+    fun test_transfer_card_not_owner() {
+        let mut scenario = ts::begin(OWNER);
+        test_create_card_helper(&mut scenario, 1000);
+        
+        // Someone else holding the card cannot hand it over
+        ts::next_tx(&mut scenario, RECIPIENT);
+        {
+            let card = ts::take_from_address<Card<SUI>>(&scenario, OWNER);
+            card::transfer_card(card, RECIPIENT, ts::ctx(&mut scenario));
+        };
+        
+        ts::end(scenario);
+    }
+
     // Helper function to create a card
     fun test_create_card_helper(scenario: &mut Scenario, spending_limit: u64) {
         ts::next_tx(scenario, OWNER);
         {
-            card::create_card(spending_limit, ts::ctx(scenario));
+            card::create_card<SUI>(spending_limit, ts::ctx(scenario));
         };
     }
 }
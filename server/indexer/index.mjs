@@ -0,0 +1,211 @@
+// Local indexer of card events, for the dApp to read history from instead of
+// paging through queryEvents on every visit.
+//
+// Each configured deployment of the card contract is followed through
+// queryEvents cursors. Pages are stored in SQLite together with the cursor
+// after them, so a restart carries on where it stopped. The REST API serves
+// the stored events and the cards folded from them.
+
+import { dirname, join } from 'node:path'
+import { createServer } from 'node:http'
+import { fileURLToPath } from 'node:url'
+import { getFullnodeUrl } from '@mysten/sui/client'
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils'
+import { fixtureSource, rpcSource } from './source.mjs'
+import { openStore } from './store.mjs'
+
+const CARD_MODULE = 'card'
+
+const {
+  INDEXER_PACKAGE_IDS,
+  INDEXER_RPC_URL = getFullnodeUrl('localnet'),
+  INDEXER_DATABASE = join(
+    dirname(fileURLToPath(import.meta.url)),
+    'indexer.sqlite'
+  ),
+  INDEXER_PORT = '3040',
+  INDEXER_POLL_INTERVAL_MS = '2000',
+  INDEXER_FIXTURE,
+  INDEXER_RECORD,
+} = process.env
+
+const source = INDEXER_FIXTURE
+  ? fixtureSource(INDEXER_FIXTURE)
+  : rpcSource(INDEXER_RPC_URL, INDEXER_RECORD)
+
+// A fixture indexes every package it recorded unless told otherwise.
+const packageIds = (INDEXER_PACKAGE_IDS?.split(',') ?? source.packageIds ?? [])
+  .map((id) => id.trim())
+  .filter(Boolean)
+  .map((id) => normalizeSuiAddress(id))
+
+if (packageIds.length === 0) {
+  console.error(
+    'Set INDEXER_PACKAGE_IDS to the original package id of each card deployment to index.'
+  )
+  process.exit(1)
+}
+
+const store = openStore(INDEXER_DATABASE)
+
+class RequestError extends Error {
+  name = 'RequestError'
+}
+
+// Coin type of each card created in the page, by card id.
+const createdCardCoinTypes = async (events) => {
+  const created = events.filter(
+    (event) =>
+      event.type.endsWith(`::${CARD_MODULE}::CardCreated`) &&
+      event.parsedJson?.card_id != null
+  )
+  return Object.fromEntries(
+    await Promise.all(
+      created.map(async (event) => {
+        const cardId = normalizeSuiAddress(event.parsedJson.card_id)
+        return [cardId, await source.cardCoinType(cardId, event.id.txDigest)]
+      })
+    )
+  )
+}
+
+// Catches the deployment up with its latest event.
+const indexPackage = async (packageId) => {
+  let cursor = store.cursor(packageId)
+  let added = 0
+
+  for (;;) {
+    const page = await source.queryEvents({
+      query: { MoveEventModule: { package: packageId, module: CARD_MODULE } },
+      cursor,
+      order: 'ascending',
+    })
+    added += store.savePage(
+      packageId,
+      page.data,
+      page.nextCursor,
+      await createdCardCoinTypes(page.data)
+    )
+    cursor = page.nextCursor ?? cursor
+    if (!page.hasNextPage) return added
+  }
+}
+
+// Polls every deployment in turn. A failed round is logged and retried on the
+// next one, from the last stored cursor.
+const indexLoop = async () => {
+  for (;;) {
+    for (const packageId of packageIds) {
+      try {
+        const added = await indexPackage(packageId)
+        if (added > 0) console.log(`Indexed ${added} events of ${packageId}`)
+      } catch (error) {
+        console.error(`Indexing ${packageId} failed: ${error.message}`)
+      }
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, Number(INDEXER_POLL_INTERVAL_MS))
+    )
+  }
+}
+
+const addressParam = (value) => {
+  const address = normalizeSuiAddress(value ?? '')
+  if (!isValidSuiAddress(address)) {
+    throw new RequestError(`${value} is not a valid address`)
+  }
+  return address
+}
+
+// GET routes, matched in order. Addresses in paths and in repeated card and
+// package query params are normalized.
+const routes = [
+  [
+    /^\/health$/,
+    () => ({
+      packageIds,
+      source: INDEXER_FIXTURE ? `fixture ${INDEXER_FIXTURE}` : INDEXER_RPC_URL,
+      cursors: Object.fromEntries(
+        packageIds.map((id) => [id, store.cursor(id)])
+      ),
+      ...store.totals(),
+    }),
+  ],
+  [/^\/totals$/, () => ({ totals: store.totals().byCoin })],
+  [
+    /^\/owners\/([^/]+)\/cards$/,
+    ([owner]) => ({ cards: store.cardsByOwner(addressParam(owner)) }),
+  ],
+  // Asking for deployments the indexer does not follow is an error rather than
+  // an empty history, so clients can fall back to a full node.
+  [
+    /^\/owners\/([^/]+)\/events$/,
+    ([owner], query) => {
+      const requested = query.getAll('package').map(addressParam)
+      const missing = requested.filter((id) => !packageIds.includes(id))
+      if (missing.length > 0) {
+        throw new RequestError(`Not indexing ${missing.join(', ')}`)
+      }
+      return {
+        events: store.eventsByOwner(
+          addressParam(owner),
+          query.getAll('card').map(addressParam),
+          requested
+        ),
+      }
+    },
+  ],
+  [
+    /^\/owners\/([^/]+)\/totals$/,
+    ([owner]) => ({ totals: store.totalsByOwner(addressParam(owner)) }),
+  ],
+  [
+    /^\/cards\/([^/]+)$/,
+    ([cardId]) => store.card(addressParam(cardId)) ?? null,
+  ],
+  [
+    /^\/cards\/([^/]+)\/events$/,
+    ([cardId]) => ({ events: store.eventsByCard(addressParam(cardId)) }),
+  ],
+  [
+    /^\/cards\/([^/]+)\/totals$/,
+    ([cardId]) => ({ totals: store.totalsByCard(addressParam(cardId)) }),
+  ],
+]
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  })
+  res.end(JSON.stringify(body))
+}
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {})
+
+  const url = new URL(req.url, 'http://localhost')
+  const route = routes.find(([pattern]) => pattern.test(url.pathname))
+  if (req.method !== 'GET' || route == null) {
+    return send(res, 404, { error: 'Not found' })
+  }
+
+  const [pattern, handle] = route
+  const params = pattern.exec(url.pathname).slice(1).map(decodeURIComponent)
+
+  try {
+    const body = handle(params, url.searchParams)
+    body == null ? send(res, 404, { error: 'Not found' }) : send(res, 200, body)
+  } catch (error) {
+    const status = error instanceof RequestError ? 400 : 500
+    console.error(`${req.url}: ${error.message}`)
+    send(res, status, { error: error.message })
+  }
+}).listen(Number(INDEXER_PORT), () => {
+  console.log(
+    `Indexing ${packageIds.join(', ')} from ${INDEXER_FIXTURE ?? INDEXER_RPC_URL} at http://localhost:${INDEXER_PORT}`
+  )
+})
+
+indexLoop()
@@ -0,0 +1,110 @@
+// Where the indexer reads events from. Both sources answer queryEvents the way
+// a full node does, so the indexer cannot tell them apart.
+//
+// Card events do not say which coin the card holds, so sources also tell the
+// coin type of a card from the transaction that created it.
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+import { SuiClient } from '@mysten/sui/client'
+import {
+  normalizeStructTag,
+  normalizeSuiAddress,
+  parseStructTag,
+} from '@mysten/sui/utils'
+
+// A fixture holds the events of each package, oldest first, and the coin type
+// of each card created in them.
+const readFixture = (path) => {
+  const { events = {}, coinTypes = {} } = existsSync(path)
+    ? JSON.parse(readFileSync(path, 'utf8'))
+    : {}
+  return { events, coinTypes }
+}
+
+const writeFixture = (path, fixture) =>
+  writeFileSync(path, JSON.stringify(fixture, null, 2))
+
+// T of the Card<T> with the given id that the transaction created, null if it
+// created none.
+const createdCardCoinType = async (client, cardId, txDigest) => {
+  const { objectChanges = [] } = await client.getTransactionBlock({
+    digest: txDigest,
+    options: { showObjectChanges: true },
+  })
+  const created = objectChanges.find(
+    (change) =>
+      change.type === 'created' &&
+      normalizeSuiAddress(change.objectId) === cardId
+  )
+  const [coinType] = created
+    ? parseStructTag(created.objectType).typeParams
+    : []
+  return coinType ? normalizeStructTag(coinType) : null
+}
+
+const samePosition = (a, b) =>
+  a.txDigest === b.txDigest && String(a.eventSeq) === String(b.eventSeq)
+
+// A full node. With recordPath set, every event it returns is also appended to
+// that file, which can be replayed later with fixtureSource.
+export const rpcSource = (url, recordPath) => {
+  const client = new SuiClient({ url })
+  const cardCoinType = (cardId, txDigest) =>
+    createdCardCoinType(client, cardId, txDigest)
+  if (recordPath == null) {
+    return { queryEvents: (params) => client.queryEvents(params), cardCoinType }
+  }
+
+  return {
+    queryEvents: async (params) => {
+      const page = await client.queryEvents(params)
+      const packageId = normalizeSuiAddress(
+        params.query.MoveEventModule.package
+      )
+      const recorded = readFixture(recordPath)
+      recorded.events[packageId] = [
+        ...(recorded.events[packageId] ?? []),
+        ...page.data,
+      ]
+      writeFixture(recordPath, recorded)
+      return page
+    },
+
+    cardCoinType: async (cardId, txDigest) => {
+      const coinType = await cardCoinType(cardId, txDigest)
+      const recorded = readFixture(recordPath)
+      recorded.coinTypes[cardId] = coinType
+      writeFixture(recordPath, recorded)
+      return coinType
+    },
+  }
+}
+
+// Replays a recorded stream, as rpcSource records it. Only the ascending module
+// queries the indexer makes are supported.
+export const fixtureSource = (path) => {
+  const recorded = readFixture(path)
+
+  return {
+    packageIds: Object.keys(recorded.events),
+
+    queryEvents: async ({ query, cursor, limit = 50 }) => {
+      const events =
+        recorded.events[normalizeSuiAddress(query.MoveEventModule.package)] ??
+        []
+      const start =
+        cursor == null
+          ? 0
+          : events.findIndex((event) => samePosition(event.id, cursor)) + 1
+      const data = events.slice(start, start + limit)
+
+      return {
+        data,
+        nextCursor: data.length > 0 ? data[data.length - 1].id : cursor,
+        hasNextPage: start + limit < events.length,
+      }
+    },
+
+    cardCoinType: async (cardId) => recorded.coinTypes[cardId] ?? null,
+  }
+}
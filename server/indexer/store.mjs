@@ -0,0 +1,320 @@
+// SQLite storage of the indexed card events and the cards they describe.
+//
+// Events are kept whole, as the RPC returned them, so clients can decode them
+// the same way as events fetched from a full node. Cards are folded from the
+// events as they arrive: every event that moves funds carries the resulting
+// balance, so nothing is added up. u64 values are kept as decimal text, which
+// SQLite's signed 64-bit integers cannot hold in full. The events do not name
+// the card's coin, so its type is stored with the card when it is created.
+
+import { DatabaseSync } from 'node:sqlite'
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+
+const CARD_MODULE = 'card'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS cursors (
+    package_id TEXT PRIMARY KEY,
+    tx_digest TEXT NOT NULL,
+    event_seq TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    package_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    card_id TEXT NOT NULL,
+    amount TEXT,
+    timestamp_ms INTEGER,
+    event TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_by_card ON events (card_id, timestamp_ms);
+
+  CREATE TABLE IF NOT EXISTS cards (
+    id TEXT PRIMARY KEY,
+    package_id TEXT NOT NULL,
+    coin_type TEXT,
+    owner TEXT,
+    balance TEXT NOT NULL DEFAULT '0',
+    spending_limit TEXT,
+    amount_spent TEXT NOT NULL DEFAULT '0',
+    is_active INTEGER NOT NULL DEFAULT 1,
+    created_at_ms INTEGER,
+    updated_at_ms INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS cards_by_owner ON cards (owner);
+
+  -- Everyone who has held the card. Their history keeps its events after they
+  -- hand it on.
+  CREATE TABLE IF NOT EXISTS card_holders (
+    card_id TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    PRIMARY KEY (card_id, owner)
+  );
+  CREATE INDEX IF NOT EXISTS card_holders_by_owner ON card_holders (owner);
+`
+
+// Struct name of a card event, e.g. Deposit for 0x..::card::Deposit.
+const eventKind = (event) => {
+  const [, module, name] = event.type.split('::')
+  return module === CARD_MODULE ? name : null
+}
+
+const address = (value) =>
+  typeof value === 'string' ? normalizeSuiAddress(value) : null
+
+const u64 = (value) =>
+  typeof value === 'string' && /^\d+$/.test(value) ? value : null
+
+const cardRow = (row) =>
+  row && {
+    id: row.id,
+    packageId: row.package_id,
+    coinType: row.coin_type,
+    owner: row.owner,
+    balance: row.balance,
+    spendingLimit: row.spending_limit,
+    amountSpent: row.amount_spent,
+    isActive: row.is_active === 1,
+    createdAtMs: row.created_at_ms,
+    updatedAtMs: row.updated_at_ms,
+  }
+
+// One entry per coin, with how many events of each kind there are and what
+// they moved in total, in base units of that coin. Amounts of different coins
+// are never added up. Cards whose creation was not indexed have a null coin
+// type.
+const totals = (rows) => {
+  const byCoin = new Map()
+  for (const { coin_type: coinType, kind, amount } of rows) {
+    if (!byCoin.has(coinType)) byCoin.set(coinType, {})
+    const total = (byCoin.get(coinType)[kind] ??= { count: 0, amount: 0n })
+    total.count += 1
+    total.amount += BigInt(amount ?? 0)
+  }
+  return [...byCoin].map(([coinType, byKind]) => ({
+    coinType,
+    byKind: Object.fromEntries(
+      Object.entries(byKind).map(([kind, { count, amount }]) => [
+        kind,
+        { count, amount: String(amount) },
+      ])
+    ),
+  }))
+}
+
+// Events with the coin type of their card, as totals expects them.
+const EVENT_AMOUNTS = `
+  SELECT events.kind, events.amount, cards.coin_type
+  FROM events LEFT JOIN cards ON cards.id = events.card_id`
+
+const placeholders = (values) => values.map(() => '?').join(', ')
+
+export const openStore = (path) => {
+  const db = new DatabaseSync(path)
+  db.exec('PRAGMA journal_mode = WAL')
+  db.exec(SCHEMA)
+  // Databases from before coin types were stored
+  const cardColumns = db.prepare('PRAGMA table_info(cards)').all()
+  if (!cardColumns.some((column) => column.name === 'coin_type')) {
+    db.exec('ALTER TABLE cards ADD COLUMN coin_type TEXT')
+  }
+
+  const statements = {
+    cursor: db.prepare('SELECT * FROM cursors WHERE package_id = ?'),
+    saveCursor: db.prepare(
+      `INSERT INTO cursors (package_id, tx_digest, event_seq) VALUES (?, ?, ?)
+       ON CONFLICT (package_id) DO UPDATE SET
+         tx_digest = excluded.tx_digest, event_seq = excluded.event_seq`
+    ),
+    insertEvent: db.prepare(
+      `INSERT OR IGNORE INTO events
+         (id, package_id, kind, card_id, amount, timestamp_ms, event)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ),
+    createCard: db.prepare(
+      `INSERT INTO cards (id, package_id, coin_type, owner, spending_limit, created_at_ms, updated_at_ms)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         coin_type = excluded.coin_type,
+         owner = excluded.owner,
+         spending_limit = excluded.spending_limit,
+         created_at_ms = excluded.created_at_ms`
+    ),
+    // Cards whose creation was not indexed still get a row from later events.
+    touchCard: db.prepare(
+      `INSERT INTO cards (id, package_id, updated_at_ms) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         updated_at_ms = max(coalesce(updated_at_ms, 0), excluded.updated_at_ms)`
+    ),
+    setBalance: db.prepare('UPDATE cards SET balance = ? WHERE id = ?'),
+    setSpent: db.prepare('UPDATE cards SET amount_spent = ? WHERE id = ?'),
+    setLimit: db.prepare('UPDATE cards SET spending_limit = ? WHERE id = ?'),
+    setActive: db.prepare('UPDATE cards SET is_active = ? WHERE id = ?'),
+    setOwner: db.prepare('UPDATE cards SET owner = ? WHERE id = ?'),
+    addHolder: db.prepare(
+      'INSERT OR IGNORE INTO card_holders (card_id, owner) VALUES (?, ?)'
+    ),
+    card: db.prepare('SELECT * FROM cards WHERE id = ?'),
+    cardsByOwner: db.prepare(
+      'SELECT * FROM cards WHERE owner = ? ORDER BY created_at_ms'
+    ),
+    heldCardIds: db.prepare('SELECT card_id FROM card_holders WHERE owner = ?'),
+    counts: db.prepare(
+      'SELECT (SELECT count(*) FROM events) AS events, (SELECT count(*) FROM cards) AS cards'
+    ),
+    allAmounts: db.prepare(EVENT_AMOUNTS),
+  }
+
+  // Folds one event into its card. Events are applied in the order they were
+  // emitted, so the last one wins.
+  const applyEvent = (packageId, kind, fields, timestampMs, coinTypes) => {
+    const cardId = address(fields.card_id)
+    statements.touchCard.run(cardId, packageId, timestampMs)
+
+    switch (kind) {
+      case 'CardCreated':
+        statements.createCard.run(
+          cardId,
+          packageId,
+          coinTypes[cardId] ?? null,
+          address(fields.owner),
+          u64(fields.spending_limit),
+          timestampMs,
+          timestampMs
+        )
+        statements.addHolder.run(cardId, address(fields.owner))
+        break
+      case 'Spend':
+        statements.setSpent.run(u64(fields.total_spent), cardId)
+        statements.setBalance.run(u64(fields.new_balance), cardId)
+        break
+      case 'Deposit':
+      case 'DirectTransfer':
+      case 'Withdraw':
+        statements.setBalance.run(u64(fields.new_balance), cardId)
+        break
+      case 'SpendingLimitUpdated':
+        statements.setLimit.run(u64(fields.new_limit), cardId)
+        break
+      case 'CardDeactivated':
+        statements.setActive.run(0, cardId)
+        break
+      case 'CardReactivated':
+        statements.setActive.run(1, cardId)
+        break
+      case 'CardTransferred':
+        statements.setOwner.run(address(fields.new_owner), cardId)
+        statements.addHolder.run(cardId, address(fields.previous_owner))
+        statements.addHolder.run(cardId, address(fields.new_owner))
+        break
+    }
+  }
+
+  const eventsQuery = (where, values) =>
+    db
+      .prepare(
+        `SELECT event FROM events WHERE ${where} ORDER BY timestamp_ms, rowid`
+      )
+      .all(...values)
+      .map((row) => JSON.parse(row.event))
+
+  const totalsQuery = (cardIds) =>
+    totals(
+      db
+        .prepare(
+          `${EVENT_AMOUNTS} WHERE events.card_id IN (${placeholders(cardIds)})`
+        )
+        .all(...cardIds)
+    )
+
+  const ownerCardIds = (owner) =>
+    statements.heldCardIds.all(owner).map((row) => row.card_id)
+
+  return {
+    // Where indexing of the deployment continues from, null to start from its
+    // first event.
+    cursor: (packageId) => {
+      const row = statements.cursor.get(packageId)
+      return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null
+    },
+
+    // Stores a page of events and the cursor after it in one transaction, so
+    // a restart never indexes an event twice or skips one. coinTypes maps the
+    // id of each card created in the page to its coin type. Returns how many
+    // events were new.
+    savePage: (packageId, events, nextCursor, coinTypes = {}) => {
+      let added = 0
+      db.exec('BEGIN')
+      try {
+        for (const event of events) {
+          const kind = eventKind(event)
+          const fields = event.parsedJson ?? {}
+          if (kind == null || address(fields.card_id) == null) continue
+
+          const timestampMs =
+            event.timestampMs != null ? Number(event.timestampMs) : null
+          const { changes } = statements.insertEvent.run(
+            `${event.id.txDigest}:${event.id.eventSeq}`,
+            packageId,
+            kind,
+            address(fields.card_id),
+            u64(fields.amount),
+            timestampMs,
+            JSON.stringify(event)
+          )
+          if (changes > 0) {
+            applyEvent(packageId, kind, fields, timestampMs, coinTypes)
+            added += 1
+          }
+        }
+        if (nextCursor != null) {
+          statements.saveCursor.run(
+            packageId,
+            nextCursor.txDigest,
+            nextCursor.eventSeq
+          )
+        }
+        db.exec('COMMIT')
+      } catch (error) {
+        db.exec('ROLLBACK')
+        throw error
+      }
+      return added
+    },
+
+    card: (cardId) => cardRow(statements.card.get(cardId)),
+
+    cardsByOwner: (owner) => statements.cardsByOwner.all(owner).map(cardRow),
+
+    eventsByCard: (cardId) => eventsQuery('card_id = ?', [cardId]),
+
+    // Events of every card the owner holds or has held, plus any other cards
+    // asked for, limited to the given deployments when there are any. Oldest
+    // first.
+    eventsByOwner: (owner, cardIds = [], packageIds = []) => {
+      const ids = [...new Set([...ownerCardIds(owner), ...cardIds])]
+      if (ids.length === 0) return []
+      return packageIds.length === 0
+        ? eventsQuery(`card_id IN (${placeholders(ids)})`, ids)
+        : eventsQuery(
+            `card_id IN (${placeholders(ids)}) AND package_id IN (${placeholders(packageIds)})`,
+            [...ids, ...packageIds]
+          )
+    },
+
+    totalsByCard: (cardId) => totalsQuery([cardId]),
+
+    totalsByOwner: (owner) => {
+      const ids = ownerCardIds(owner)
+      return ids.length === 0 ? [] : totalsQuery(ids)
+    },
+
+    totals: () => ({
+      ...statements.counts.get(),
+      byCoin: totals(statements.allAmounts.all()),
+    }),
+
+    close: () => db.close(),
+  }
+}
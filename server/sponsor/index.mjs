@@ -0,0 +1,226 @@
+// Minimal gas station for local testing of sponsored card transactions.
+//
+// The dApp posts { sender, transactionKindBytes } to /sponsor. The server
+// checks the commands against the policy, sets itself as gas owner, lets the
+// SDK pick its gas coins and budget (which dry-runs the transaction), signs,
+// and returns { transactionBytes, sponsorSignature }. The sender signs the
+// same bytes and executes with both signatures.
+//
+// Usage is tallied in memory, so it resets with the process. Requests are not
+// serialized either: two transactions sponsored at the same time may pick the
+// same gas coin, and only one of them will execute.
+
+import { readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { getFullnodeUrl, SuiClient } from '@mysten/sui/client'
+import { decodeSuiPrivateKey } from '@mysten/sui/cryptography'
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519'
+import { Transaction } from '@mysten/sui/transactions'
+import {
+  fromBase64,
+  isValidSuiAddress,
+  normalizeSuiAddress,
+  toBase64,
+} from '@mysten/sui/utils'
+
+const CARD_MODULE = 'card'
+
+const {
+  SPONSOR_SECRET_KEY,
+  SPONSOR_PACKAGE_ID,
+  SPONSOR_RPC_URL = getFullnodeUrl('localnet'),
+  SPONSOR_PORT = '3030',
+  SPONSOR_POLICY = join(dirname(fileURLToPath(import.meta.url)), 'policy.json'),
+} = process.env
+
+if (!SPONSOR_SECRET_KEY || !SPONSOR_PACKAGE_ID) {
+  console.error(
+    'Set SPONSOR_SECRET_KEY (suiprivkey...) and SPONSOR_PACKAGE_ID to run the sponsor.'
+  )
+  process.exit(1)
+}
+
+class PolicyError extends Error {
+  name = 'PolicyError'
+}
+
+const policy = JSON.parse(readFileSync(SPONSOR_POLICY, 'utf8'))
+const packageId = normalizeSuiAddress(SPONSOR_PACKAGE_ID)
+const client = new SuiClient({ url: SPONSOR_RPC_URL })
+const keypair = Ed25519Keypair.fromSecretKey(
+  decodeSuiPrivateKey(SPONSOR_SECRET_KEY).secretKey
+)
+const sponsorAddress = keypair.toSuiAddress()
+
+// "<card or sender>:<UTC day>" -> number of sponsored transactions.
+const usage = new Map()
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const usedToday = (key) => usage.get(`${key}:${today()}`) ?? 0
+
+const recordUsage = (key) => usage.set(`${key}:${today()}`, usedToday(key) + 1)
+
+// Defaults, overridden per card by policy.cards[cardId].
+const cardPolicy = (cardId) => ({
+  maxTransactionsPerDay: policy.maxTransactionsPerCardPerDay,
+  maxGasBudget: policy.maxGasBudget,
+  ...policy.cards?.[cardId],
+})
+
+const usesGasCoin = (command) => JSON.stringify(command).includes('"GasCoin"')
+
+const inputObjectId = (inputs, argument) => {
+  const input = argument?.$kind === 'Input' ? inputs[argument.Input] : null
+  const object =
+    input?.Object?.ImmOrOwnedObject ??
+    input?.Object?.SharedObject ??
+    input?.UnresolvedObject
+
+  if (object?.objectId == null) {
+    throw new PolicyError('The card must be passed as an object input')
+  }
+  return normalizeSuiAddress(object.objectId)
+}
+
+// Returns the cards the transaction touches and whether it creates one.
+const inspect = (tx) => {
+  const { commands, inputs } = tx.getData()
+  const cardIds = new Set()
+  let createsCard = false
+
+  for (const command of commands) {
+    if (usesGasCoin(command)) {
+      throw new PolicyError(
+        "Transactions that use the sponsor's gas coin are not sponsored"
+      )
+    }
+
+    switch (command.$kind) {
+      case 'SplitCoins':
+      case 'MergeCoins':
+        break
+      case 'MoveCall': {
+        const call = command.MoveCall
+        if (
+          normalizeSuiAddress(call.package) !== packageId ||
+          call.module !== CARD_MODULE ||
+          !policy.allowedFunctions.includes(call.function)
+        ) {
+          throw new PolicyError(
+            `${call.module}::${call.function} is not sponsored`
+          )
+        }
+
+        if (call.function === 'create_card') {
+          createsCard = true
+        } else {
+          cardIds.add(inputObjectId(inputs, call.arguments[0]))
+        }
+        break
+      }
+      default:
+        throw new PolicyError(`${command.$kind} commands are not sponsored`)
+    }
+  }
+
+  return { cardIds: [...cardIds], createsCard }
+}
+
+const sponsor = async ({ sender, transactionKindBytes }) => {
+  if (typeof sender !== 'string' || !isValidSuiAddress(sender)) {
+    throw new PolicyError('A valid sender address is required')
+  }
+  if (normalizeSuiAddress(sender) === sponsorAddress) {
+    throw new PolicyError('The sponsor does not sponsor itself')
+  }
+  if (typeof transactionKindBytes !== 'string') {
+    throw new PolicyError('transactionKindBytes is required')
+  }
+
+  const tx = Transaction.fromKind(fromBase64(transactionKindBytes))
+  const { cardIds, createsCard } = inspect(tx)
+
+  if (createsCard) {
+    if (!policy.allowCreateCard) {
+      throw new PolicyError('Card creation is not sponsored')
+    }
+    if (usedToday(sender) >= policy.maxCardsCreatedPerSenderPerDay) {
+      throw new PolicyError('Daily limit of sponsored card creations reached')
+    }
+  }
+
+  let maxGasBudget = BigInt(policy.maxGasBudget)
+  for (const cardId of cardIds) {
+    const limits = cardPolicy(cardId)
+    if (usedToday(cardId) >= limits.maxTransactionsPerDay) {
+      throw new PolicyError(
+        `Daily limit of sponsored transactions reached for card ${cardId}`
+      )
+    }
+    if (BigInt(limits.maxGasBudget) < maxGasBudget) {
+      maxGasBudget = BigInt(limits.maxGasBudget)
+    }
+  }
+
+  tx.setSender(sender)
+  tx.setGasOwner(sponsorAddress)
+
+  // Building dry-runs the transaction to size the budget, so transactions
+  // that would abort are refused here instead of burning sponsor gas.
+  const bytes = await tx.build({ client })
+  const budget = BigInt(tx.getData().gasData.budget)
+  if (budget > maxGasBudget) {
+    throw new PolicyError(
+      `The gas budget of ${budget} MIST exceeds the sponsored maximum of ${maxGasBudget} MIST`
+    )
+  }
+
+  const { signature } = await keypair.signTransaction(bytes)
+
+  cardIds.forEach(recordUsage)
+  if (createsCard) recordUsage(sender)
+
+  return { transactionBytes: toBase64(bytes), sponsorSignature: signature }
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  })
+  res.end(JSON.stringify(body))
+}
+
+const readJson = async (req) => {
+  let raw = ''
+  for await (const chunk of req) raw += chunk
+  return JSON.parse(raw || '{}')
+}
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {})
+
+  if (req.method === 'GET' && req.url === '/health') {
+    return send(res, 200, { sponsor: sponsorAddress, packageId, policy })
+  }
+
+  if (req.method !== 'POST' || req.url !== '/sponsor') {
+    return send(res, 404, { error: 'Not found' })
+  }
+
+  try {
+    send(res, 200, await sponsor(await readJson(req)))
+  } catch (error) {
+    const status = error instanceof PolicyError ? 403 : 400
+    console.error(`Refused: ${error.message}`)
+    send(res, status, { error: error.message })
+  }
+}).listen(Number(SPONSOR_PORT), () => {
+  console.log(
+    `Sponsoring card transactions from ${sponsorAddress} on ${SPONSOR_RPC_URL} at http://localhost:${SPONSOR_PORT}`
+  )
+})
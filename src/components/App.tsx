@@ -7,9 +7,12 @@ import { BrowserRouter, Route, Routes } from 'react-router'
 import { APP_NAME } from '~~/config/main'
 import { getThemeSettings } from '~~/helpers/theme'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
+import CardEventWatcher from '~~/dapp/components/CardEventWatcher'
+import { WATCH_PATH } from '~~/dapp/config/watch'
 import CounterPage from '~~/dapp/pages/CounterPage'
 import IndexPage from '~~/dapp/pages/IndexPage'
 import CardPage from '~~/dapp/pages/CardPage'
+import CardDetailPage from '~~/dapp/pages/CardDetailPage'
 import ManageCardsPage from '~~/dapp/pages/ManageCardsPage'
 import SpendPage from '~~/dapp/pages/SpendPage'
 import HistoryPage from '~~/dapp/pages/HistoryPage'
@@ -33,15 +36,24 @@ const App: FC = () => {
             walletStashedName={APP_NAME}
             themeSettings={themeSettings}
           >
+            <CardEventWatcher />
             <Routes>
               <Route index path="/" element={<IndexPage />} />
               <Route path="/dashboard" element={<IndexPage />} />
               <Route path="/counter/:counterId" element={<CounterPage />} />
               <Route path="/cards" element={<CardPage />} />
+              <Route path="/cards/:cardId" element={<CardDetailPage />} />
               <Route path="/create-card" element={<CardPage />} />
               <Route path="/manage-cards" element={<ManageCardsPage />} />
               <Route path="/spend" element={<SpendPage />} />
               <Route path="/history" element={<HistoryPage />} />
+              <Route path={`${WATCH_PATH}/:address`}>
+                <Route index element={<IndexPage />} />
+                <Route path="dashboard" element={<IndexPage />} />
+                <Route path="manage-cards" element={<ManageCardsPage />} />
+                <Route path="cards/:cardId" element={<CardDetailPage />} />
+                <Route path="history" element={<HistoryPage />} />
+              </Route>
             </Routes>
           </SuiProvider>
         </ThemeProvider>
@@ -0,0 +1,102 @@
+import { Button, Text, Dialog, Flex } from '@radix-ui/themes'
+import { FormEvent, useState } from 'react'
+import CardOperationFields from '~~/dapp/components/CardOperationFields'
+import { buildCardOperation } from '~~/dapp/helpers/batch'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import { ICard } from '~~/dapp/types/ICard'
+import {
+  TBatchOperation,
+  TBatchOperationKind,
+} from '~~/dapp/types/TBatchOperation'
+import { notification } from '~~/helpers/notification'
+
+interface AddToBatchFormProps {
+  card: ICard;
+  onAdd: (operation: TBatchOperation) => void;
+}
+
+/**
+ * Queues an operation on a card instead of signing it right away
+ */
+const AddToBatchForm = ({ card, onAdd }: AddToBatchFormProps) => {
+  const safetyPolicy = useSafetyPolicy()
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [kind, setKind] = useState<TBatchOperationKind>('deposit')
+  const [amount, setAmount] = useState<string>('0.01')
+  const [recipientAddress, setRecipientAddress] = useState<string>('')
+
+  const buildOperation = (): TBatchOperation => {
+    const operation = buildCardOperation(kind, card, amount, recipientAddress)
+
+    if ('amount' in operation) {
+      safetyPolicy.check(operation.kind, operation.amount, card.coin)
+    }
+
+    return operation
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+
+    try {
+      onAdd(buildOperation())
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
+    setIsOpen(false)
+  }
+
+  return (
+    <div>
+      <Button onClick={() => setIsOpen(true)} variant="soft" color="gray">
+        Add to batch
+      </Button>
+
+      <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
+        <Dialog.Content>
+          <Dialog.Title>Add to Batch</Dialog.Title>
+
+          <Dialog.Description size="2" mb="4">
+            Queue an operation on card {card.id.substring(0, 6)}...{card.id.substring(62)}. Everything in the batch is signed together in one transaction.
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit}>
+            <Flex direction="column" gap="3">
+              <CardOperationFields
+                idPrefix="batch"
+                coin={card.coin}
+                kind={kind}
+                onKindChange={setKind}
+                amount={amount}
+                onAmountChange={setAmount}
+                recipient={recipientAddress}
+                onRecipientChange={setRecipientAddress}
+              />
+
+              <Text as="div" size="1" className="text-gray-600">
+                Current balance: {formatCoinAmount(card.balance, card.coin)} {card.coin.symbol}. Balances and limits are checked when the batch is dry-run, in queue order.
+              </Text>
+
+              <Flex gap="3" mt="4" justify="end">
+                <Dialog.Close>
+                  <Button variant="soft" color="gray">
+                    Cancel
+                  </Button>
+                </Dialog.Close>
+                <Button type="submit" variant="solid" color="blue">
+                  Add to batch
+                </Button>
+              </Flex>
+            </Flex>
+          </form>
+        </Dialog.Content>
+      </Dialog.Root>
+    </div>
+  )
+}
+
+export default AddToBatchForm
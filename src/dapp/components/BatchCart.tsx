@@ -0,0 +1,162 @@
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { Button, Flex, Heading, IconButton, Text } from '@radix-ui/themes'
+import { ArrowDown, ArrowUp, X } from 'lucide-react'
+import { useMemo, useRef, useState } from 'react'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import GasEstimate from '~~/dapp/components/GasEstimate'
+import {
+  batchTotals,
+  composeBatch,
+  describeBatchOperation,
+  policyAmounts,
+} from '~~/dapp/helpers/batch'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { applyGasEstimate } from '~~/dapp/helpers/gas'
+import useBatch from '~~/dapp/hooks/useBatch'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
+import useGasEstimate from '~~/dapp/hooks/useGasEstimate'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import { TBatchOperation } from '~~/dapp/types/TBatchOperation'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+interface BatchCartProps {
+  batch: ReturnType<typeof useBatch>
+  onSuccess?: () => void
+}
+
+/**
+ * Review queue for batched card operations, signed as one transaction
+ */
+const BatchCart = ({ batch, onSuccess }: BatchCartProps) => {
+  const { operations, remove, move, clear } = batch
+  const { useNetworkVariable } = useNetworkConfig()
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const safetyPolicy = useSafetyPolicy()
+
+  const [isLoading, setIsLoading] = useState(false)
+  const [notificationId, setNotificationId] = useState<string>()
+  // Operations of the transaction in flight, recorded against the daily cap on success
+  const pendingOperations = useRef<TBatchOperation[]>([])
+
+  // Dry-run the whole batch so failures show up before signing
+  const previewTx = useMemo(() => {
+    if (operations.length === 0) return null
+    try {
+      return composeBatch(operations)
+    } catch {
+      return null
+    }
+  }, [operations])
+  const { estimate, isEstimating } = useGasEstimate(previewTx)
+
+  const { transact: signBatch, isSponsored } = useCardTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+    },
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+      policyAmounts(pendingOperations.current).forEach(({ operation, coin, amount }) =>
+        safetyPolicy.record(operation, amount, coin)
+      )
+
+      clear()
+      setIsLoading(false)
+
+      if (onSuccess) onSuccess()
+    },
+    onError: (e: Error) => {
+      notification.txError(e, describeTransactionError(e), notificationId)
+      setIsLoading(false)
+    },
+    waitForTransactionOptions: {
+      showEffects: true,
+    },
+  })
+
+  const handleSign = () => {
+    try {
+      safetyPolicy.checkBatch(operations)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
+    // One prompt per coin whose total needs confirming, stopping at the first decline
+    if (!batchTotals(operations).every(({ coin, amount }) => safetyPolicy.confirm(amount, coin))) {
+      return
+    }
+
+    setIsLoading(true)
+    pendingOperations.current = operations
+
+    try {
+      // The gas station pays with its own coins, so deposits must not use the gas coin
+      signBatch(
+        applyGasEstimate(
+          composeBatch(operations, undefined, { useGasCoin: !isSponsored() }),
+          estimate
+        )
+      )
+    } catch (error) {
+      notification.error(error as Error)
+      setIsLoading(false)
+    }
+  }
+
+  if (operations.length === 0) return null
+
+  return (
+    <div className="mb-4 rounded-lg border border-blue-100 bg-blue-50 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <Heading size="3" className="text-blue-600">
+          Batch ({operations.length})
+        </Heading>
+        <Button variant="ghost" color="gray" size="1" onClick={clear} disabled={isLoading}>
+          Clear
+        </Button>
+      </div>
+
+      <Flex direction="column" gap="2" className="mb-3">
+        {operations.map((operation, index) => (
+          <Flex key={index} align="center" justify="between" gap="2" className="rounded-md bg-white px-3 py-2">
+            <Text size="2" className="text-gray-800">
+              {index + 1}. {describeBatchOperation(operation)}
+            </Text>
+            <Flex gap="1">
+              <IconButton size="1" variant="ghost" color="gray" onClick={() => move(index, -1)} disabled={isLoading || index === 0} aria-label="Move up">
+                <ArrowUp size={14} />
+              </IconButton>
+              <IconButton size="1" variant="ghost" color="gray" onClick={() => move(index, 1)} disabled={isLoading || index === operations.length - 1} aria-label="Move down">
+                <ArrowDown size={14} />
+              </IconButton>
+              <IconButton size="1" variant="ghost" color="red" onClick={() => remove(index)} disabled={isLoading} aria-label="Remove">
+                <X size={14} />
+              </IconButton>
+            </Flex>
+          </Flex>
+        ))}
+      </Flex>
+
+      <Text as="div" size="2" className="mb-2 text-gray-600">
+        Moved: {batchTotals(operations).map(({ coin, amount }) => `${formatCoinAmount(amount, coin)} ${coin.symbol}`).join(', ') || 'nothing'}
+      </Text>
+
+      <GasEstimate estimate={estimate} isEstimating={isEstimating} />
+
+      <Flex justify="end" mt="3">
+        <Button variant="solid" color="blue" onClick={handleSign} disabled={isLoading}>
+          {isLoading ? 'Signing...' : 'Sign batch'}
+        </Button>
+      </Flex>
+    </div>
+  )
+}
+
+export default BatchCart
@@ -0,0 +1,11 @@
+import useCardEvents from '~~/dapp/hooks/useCardEvents'
+
+/**
+ * Keeps cached cards up to date on every page. Renders nothing.
+ */
+const CardEventWatcher = () => {
+  useCardEvents()
+  return null
+}
+
+export default CardEventWatcher
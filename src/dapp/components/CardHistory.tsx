@@ -0,0 +1,90 @@
+import { Button, Flex, Heading, Text } from '@radix-ui/themes'
+import { useEffect } from 'react'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import useCardHistory from '~~/dapp/hooks/useCardHistory'
+import { ICard } from '~~/dapp/types/ICard'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+interface CardHistoryProps {
+  card: ICard;
+}
+
+// "DirectTransfer" -> "Direct transfer", "update_spending_limit" -> "Update spending limit"
+const formatAction = (action: string) => {
+  const words = action.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+const formatTimestamp = (timestampMs: number | null) =>
+  timestampMs != null ? new Date(timestampMs).toLocaleString() : 'Pending'
+
+/**
+ * Every transaction that changed one card, newest first
+ */
+const CardHistory = ({ card }: CardHistoryProps) => {
+  const { useNetworkVariable } = useNetworkConfig()
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const { entries, loading, error, hasMore, loadingMore, loadMore } = useCardHistory(card)
+
+  useEffect(() => {
+    if (error != null) {
+      notification.error(error, 'Failed to load the card history.')
+    }
+  }, [error])
+
+  return (
+    <div className="rounded-lg border border-gray-100 p-5 shadow-sm">
+      <Heading size="4" className="mb-4">History</Heading>
+
+      {loading ? (
+        <Text className="text-gray-500">Loading history...</Text>
+      ) : entries.length === 0 ? (
+        <Text className="text-gray-500">No transactions found</Text>
+      ) : (
+        <Flex direction="column" gap="2">
+          {entries.map((entry, i) => (
+            <Flex
+              key={`${entry.digest}-${i}`}
+              justify="between"
+              align="center"
+              className="rounded-lg border border-gray-100 p-3"
+            >
+              <Flex direction="column">
+                <Text className="font-medium text-gray-800">{formatAction(entry.action)}</Text>
+                <Text size="1" color="gray">{formatTimestamp(entry.timestampMs)}</Text>
+              </Flex>
+              <Flex direction="column" align="end">
+                {entry.amount != null && (
+                  <Text className="font-medium text-gray-800">
+                    {formatCoinAmount(entry.amount, card.coin, 4)} {card.coin.symbol}
+                  </Text>
+                )}
+                <a
+                  href={transactionUrl(explorerUrl, entry.digest)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 text-xs hover:underline"
+                >
+                  View on explorer
+                </a>
+              </Flex>
+            </Flex>
+          ))}
+        </Flex>
+      )}
+
+      {hasMore && (
+        <Flex justify="center" mt="4">
+          <Button variant="soft" size="2" disabled={loadingMore} onClick={() => loadMore()}>
+            {loadingMore ? 'Loading...' : 'Load older'}
+          </Button>
+        </Flex>
+      )}
+    </div>
+  )
+}
+
+export default CardHistory
@@ -0,0 +1,127 @@
+import { Button, Dialog, Flex, Text, TextArea, TextField } from '@radix-ui/themes'
+import c from 'clsx'
+import { Tag } from 'lucide-react'
+import { useState } from 'react'
+import { CARD_LABEL_COLORS, CARD_LABEL_ICONS } from '~~/dapp/config/labels'
+import CardLabelIcon from '~~/dapp/components/CardLabelIcon'
+import { DEFAULT_CARD_LABEL, shortCardId } from '~~/dapp/helpers/cardLabels'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import { ICardLabel } from '~~/dapp/types/ICardLabel'
+
+interface CardLabelFormProps {
+  cardId: string;
+}
+
+/**
+ * Edits the nickname, color, icon and notes of a card. Labels stay on this
+ * device, so this works for watched cards too.
+ */
+const CardLabelForm = ({ cardId }: CardLabelFormProps) => {
+  const { labelOf, setLabel } = useCardLabels()
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState<ICardLabel>(DEFAULT_CARD_LABEL)
+  const current = labelOf(cardId)
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setDraft(current ?? DEFAULT_CARD_LABEL)
+    setIsOpen(open)
+  }
+
+  const handleSave = () => {
+    setLabel(cardId, { ...draft, nickname: draft.nickname.trim() })
+    setIsOpen(false)
+  }
+
+  const handleRemove = () => {
+    setLabel(cardId, null)
+    setIsOpen(false)
+  }
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={handleOpenChange}>
+      <Dialog.Trigger>
+        <Button variant="soft" color="gray" size="2">
+          <Tag size={14} />
+          Label
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content>
+        <Dialog.Title>Label Card</Dialog.Title>
+        <Dialog.Description size="2" mb="4">
+          Card {shortCardId(cardId)}. Labels are saved in this browser only, export them to share.
+        </Dialog.Description>
+
+        <Flex direction="column" gap="4">
+          <label>
+            <Text as="div" size="2" weight="medium" mb="1">Nickname</Text>
+            <TextField.Root
+              placeholder="e.g. Travel - Alice"
+              value={draft.nickname}
+              onChange={(e) => setDraft({ ...draft, nickname: e.target.value })}
+            />
+          </label>
+
+          <div>
+            <Text as="div" size="2" weight="medium" mb="1">Color</Text>
+            <Flex gap="2" wrap="wrap">
+              {CARD_LABEL_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  title={color}
+                  onClick={() => setDraft({ ...draft, color })}
+                  className={c('h-7 w-7 rounded-full border-2', draft.color === color ? 'border-gray-800' : 'border-transparent')}
+                  style={{ backgroundColor: `var(--${color}-9)` }}
+                />
+              ))}
+            </Flex>
+          </div>
+
+          <div>
+            <Text as="div" size="2" weight="medium" mb="1">Icon</Text>
+            <Flex gap="2" wrap="wrap">
+              {CARD_LABEL_ICONS.map((icon) => (
+                <button
+                  key={icon}
+                  type="button"
+                  title={icon}
+                  onClick={() => setDraft({ ...draft, icon })}
+                  className={c('rounded-md border p-2', draft.icon === icon ? 'border-gray-800 bg-gray-50' : 'border-gray-200')}
+                >
+                  <CardLabelIcon label={{ ...draft, icon }} />
+                </button>
+              ))}
+            </Flex>
+          </div>
+
+          <label>
+            <Text as="div" size="2" weight="medium" mb="1">Notes</Text>
+            <TextArea
+              rows={3}
+              placeholder="Who holds it, what it is for..."
+              value={draft.notes}
+              onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+            />
+          </label>
+
+          <div className="flex justify-between gap-3">
+            <Button type="button" variant="soft" color="red" disabled={current == null} onClick={handleRemove}>
+              Remove Label
+            </Button>
+            <Flex gap="3">
+              <Button type="button" variant="soft" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="button" variant="solid" onClick={handleSave}>
+                Save
+              </Button>
+            </Flex>
+          </div>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  )
+}
+
+export default CardLabelForm
@@ -0,0 +1,41 @@
+import {
+  Briefcase,
+  CreditCard,
+  LucideIcon,
+  Plane,
+  ShoppingCart,
+  Star,
+  Users,
+  Utensils,
+  Wallet,
+} from 'lucide-react'
+import { TCardLabelIcon } from '~~/dapp/config/labels'
+import { DEFAULT_CARD_LABEL } from '~~/dapp/helpers/cardLabels'
+import { ICardLabel } from '~~/dapp/types/ICardLabel'
+
+const CARD_LABEL_ICON_COMPONENTS: Record<TCardLabelIcon, LucideIcon> = {
+  'credit-card': CreditCard,
+  wallet: Wallet,
+  briefcase: Briefcase,
+  plane: Plane,
+  'shopping-cart': ShoppingCart,
+  utensils: Utensils,
+  users: Users,
+  star: Star,
+}
+
+interface CardLabelIconProps {
+  label?: ICardLabel
+  size?: number
+}
+
+/**
+ * The icon of a card's label in its color, or the default one for unlabelled
+ * cards
+ */
+const CardLabelIcon = ({ label = DEFAULT_CARD_LABEL, size = 16 }: CardLabelIconProps) => {
+  const Icon = CARD_LABEL_ICON_COMPONENTS[label.icon]
+  return <Icon size={size} style={{ color: `var(--${label.color}-9)` }} />
+}
+
+export default CardLabelIcon
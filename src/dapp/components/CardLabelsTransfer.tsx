@@ -0,0 +1,49 @@
+import { Button, Flex } from '@radix-ui/themes'
+import { Download, Upload } from 'lucide-react'
+import { ChangeEvent, useRef } from 'react'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import { downloadFile } from '~~/helpers/misc'
+import { notification } from '~~/helpers/notification'
+
+/**
+ * Exports card labels to a JSON file and imports one, so a team can share how
+ * its cards are labelled
+ */
+const CardLabelsTransfer = () => {
+  const { labels, exportLabels, importLabels } = useCardLabels()
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const handleExport = () => {
+    downloadFile('card-labels.json', exportLabels(), 'application/json')
+  }
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Let the same file be picked again
+    e.target.value = ''
+    if (file == null) return
+
+    try {
+      const count = importLabels(await file.text())
+      notification.success(`Imported ${count} card label${count === 1 ? '' : 's'}`)
+    } catch (error) {
+      notification.error(error as Error)
+    }
+  }
+
+  return (
+    <Flex gap="2">
+      <Button variant="soft" color="gray" size="1" disabled={Object.keys(labels).length === 0} onClick={handleExport}>
+        <Download size={14} />
+        Export labels
+      </Button>
+      <Button variant="soft" color="gray" size="1" onClick={() => fileInput.current?.click()}>
+        <Upload size={14} />
+        Import labels
+      </Button>
+      <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+    </Flex>
+  )
+}
+
+export default CardLabelsTransfer
@@ -0,0 +1,78 @@
+import { Button, Flex, Select } from '@radix-ui/themes'
+import { ArrowDown, ArrowUp } from 'lucide-react'
+import { ICardFilter } from '~~/dapp/types/ICardFilter'
+
+interface CardListFiltersProps {
+  filter: ICardFilter
+  onChange: (filter: ICardFilter) => void
+}
+
+const STATUS_LABELS: Record<ICardFilter['status'], string> = {
+  all: 'All cards',
+  active: 'Active',
+  inactive: 'Inactive',
+}
+
+const BALANCE_LABELS: Record<ICardFilter['balance'], string> = {
+  all: 'Any balance',
+  funded: 'Funded',
+  empty: 'Empty',
+}
+
+const UTILISATION_LABELS: Record<ICardFilter['utilisation'], string> = {
+  all: 'Any usage',
+  half: '50%+ of limit spent',
+  high: '80%+ of limit spent',
+  exhausted: 'Limit reached',
+}
+
+const SORT_LABELS: Record<ICardFilter['sortBy'], string> = {
+  balance: 'Sort by balance',
+  utilisation: 'Sort by utilisation',
+  spendingLimit: 'Sort by spending limit',
+}
+
+/**
+ * Status, balance and utilisation filters plus sort order for the card list
+ */
+const CardListFilters = ({ filter, onChange }: CardListFiltersProps) => {
+  const select = <K extends keyof ICardFilter>(
+    key: K,
+    labels: Record<string, string>
+  ) => (
+    <Select.Root
+      size="1"
+      value={String(filter[key])}
+      onValueChange={(value) => onChange({ ...filter, [key]: value })}
+    >
+      <Select.Trigger />
+      <Select.Content>
+        {Object.entries(labels).map(([value, label]) => (
+          <Select.Item key={value} value={value}>
+            {label}
+          </Select.Item>
+        ))}
+      </Select.Content>
+    </Select.Root>
+  )
+
+  return (
+    <Flex gap="2" wrap="wrap" align="center">
+      {select('status', STATUS_LABELS)}
+      {select('balance', BALANCE_LABELS)}
+      {select('utilisation', UTILISATION_LABELS)}
+      {select('sortBy', SORT_LABELS)}
+      <Button
+        size="1"
+        variant="soft"
+        color="gray"
+        onClick={() => onChange({ ...filter, descending: !filter.descending })}
+        title={filter.descending ? 'Highest first' : 'Lowest first'}
+      >
+        {filter.descending ? <ArrowDown size={14} /> : <ArrowUp size={14} />}
+      </Button>
+    </Flex>
+  )
+}
+
+export default CardListFilters
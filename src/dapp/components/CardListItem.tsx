@@ -0,0 +1,136 @@
+import { Heading, Text } from '@radix-ui/themes'
+import { Link } from 'react-router'
+import DepositCardForm from './DepositCardForm'
+import WithdrawForm from './WithdrawForm'
+import TransferCardForm from './TransferCardForm'
+import AddToBatchForm from './AddToBatchForm'
+import OfflineSigningForm from './OfflineSigningForm'
+import MigrateCardForm from './MigrateCardForm'
+import CardLabelForm from './CardLabelForm'
+import CardLabelIcon from './CardLabelIcon'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { maxMist } from '~~/dapp/helpers/mist'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount'
+import { ICard } from '~~/dapp/types/ICard'
+import { TBatchOperation } from '~~/dapp/types/TBatchOperation'
+
+interface CardListItemProps {
+  card: ICard;
+  onRefresh: () => void;
+  onAddToBatch: (operation: TBatchOperation) => void;
+}
+
+/**
+ * One card in CardList with its balances and actions
+ */
+const CardListItem = ({ card, onRefresh, onAddToBatch }: CardListItemProps) => {
+  const { watchOnly, path } = useViewedAccount()
+  const { labelOf } = useCardLabels()
+  const label = labelOf(card.id)
+
+  return (
+    <div className="h-full overflow-hidden rounded-lg border border-gray-100 p-5 shadow-sm hover:shadow-md transition-shadow duration-200">
+      <div className="mb-4 flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <Heading size="3" className="flex items-center gap-2 text-blue-600">
+            <CardLabelIcon label={label} />
+            <Link to={path(`/cards/${card.id}`)} className="truncate hover:underline">
+              {label?.nickname || `${card.coin.symbol} Card ${card.id.substring(0, 6)}...${card.id.substring(62)}`}
+            </Link>
+          </Heading>
+          {label?.notes && (
+            <Text as="div" size="1" className="truncate text-gray-500" title={label.notes}>
+              {label.notes}
+            </Text>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span
+            className={`rounded-full px-2.5 py-1 text-xs font-medium ${card.version.isCurrent ? 'bg-gray-50 text-gray-600' : 'bg-orange-50 text-orange-600'}`}
+            title={`Contract package ${card.version.packageId}`}
+          >
+            Contract {card.version.label}
+          </span>
+          <span className={`rounded-full px-2.5 py-1 text-xs font-medium ${card.isActive ? 'bg-blue-50 text-blue-600' : 'bg-gray-50 text-gray-600'}`}>
+            {card.isActive ? 'Active' : 'Inactive'}
+          </span>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-3 bg-blue-50 rounded-lg">
+          <Text size="1" className="text-gray-600 mb-1">Balance</Text>
+          <Text className="font-medium text-blue-600 text-lg">
+            {formatCoinAmount(card.balance, card.coin, 4, 4)} {card.coin.symbol}
+          </Text>
+        </div>
+        <div className="p-3 bg-blue-50 rounded-lg">
+          <Text size="1" className="text-gray-600 mb-1">Spending Limit</Text>
+          <Text className="font-medium text-gray-800 text-lg">
+            {formatCoinAmount(card.spendingLimit, card.coin, 2, 2)} {card.coin.symbol}
+          </Text>
+        </div>
+        <div className="p-3 bg-blue-50 rounded-lg">
+          <Text size="1" className="text-gray-600 mb-1">Amount Spent</Text>
+          <Text className="font-medium text-gray-800 text-lg">
+            {formatCoinAmount(card.amountSpent, card.coin, 4, 4)} {card.coin.symbol}
+          </Text>
+        </div>
+        <div className="p-3 bg-blue-50 rounded-lg">
+          <Text size="1" className="text-gray-600 mb-1">Available to Spend</Text>
+          <Text className="font-medium text-gray-800 text-lg">
+            {formatCoinAmount(maxMist(0n, card.spendingLimit - card.amountSpent), card.coin, 2, 2)} {card.coin.symbol}
+          </Text>
+        </div>
+        
+        <div className="col-span-2 mt-4 flex flex-wrap items-center gap-3">
+          {watchOnly ? (
+            <Text size="1" className="text-gray-600">
+              Watch-only, connect the owner's wallet to use this card.
+            </Text>
+          ) : card.version.generic ? (
+            <>
+              <DepositCardForm
+                card={card}
+                onSuccess={onRefresh}
+              />
+              <WithdrawForm 
+                card={card}
+                onSuccess={onRefresh}
+              />
+              {/* <SpendCardForm
+                card={card}
+                onSuccess={onRefresh}
+              /> */}
+              <TransferCardForm
+                card={card}
+                onSuccess={onRefresh}
+              />
+              <AddToBatchForm
+                card={card}
+                onAdd={onAddToBatch}
+              />
+              <OfflineSigningForm
+                card={card}
+                onSuccess={onRefresh}
+              />
+            </>
+          ) : (
+            <Text size="1" className="text-gray-600">
+              Created before cards could hold other coins, so this card can only be migrated.
+            </Text>
+          )}
+          <CardLabelForm cardId={card.id} />
+          {!watchOnly && (
+            <MigrateCardForm
+              card={card}
+              onSuccess={onRefresh}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CardListItem
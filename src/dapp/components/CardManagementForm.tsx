@@ -1,52 +1,43 @@
 import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
 import { Button, Text, Dialog, Flex } from '@radix-ui/themes'
-import useTransact from '@suiware/kit/useTransact'
 import { useState } from 'react'
-import {
-  CONTRACT_PACKAGE_VARIABLE_NAME,
-  EXPLORER_URL_VARIABLE_NAME,
-} from '~~/config/network'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
 import { 
   prepareDeactivateCardTransaction, 
   prepareReactivateCardTransaction
 } from '~~/dapp/helpers/transactions'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { ICard } from '~~/dapp/types/ICard'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 interface CardManagementFormProps {
-  card: CardData;
+  card: ICard;
   onSuccess?: () => void;
 }
 
 const CardManagementForm = ({ card, onSuccess }: CardManagementFormProps) => {
   const currentAccount = useCurrentAccount()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
   const [notificationId, setNotificationId] = useState<string>()
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
   // Create a subscription to the transaction status
-  const { transact: manageCard } = useTransact({
+  const { transact: manageCard } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
       setIsLoading(true)
     },
     onSuccess: (
-      data,
-      _response
+      data: SuiSignAndExecuteTransactionOutput,
+      _response: SuiTransactionBlockResponse
     ) => {
       notification.txSuccess(
         transactionUrl(explorerUrl, data.digest),
@@ -56,15 +47,12 @@ const CardManagementForm = ({ card, onSuccess }: CardManagementFormProps) => {
       setIsOpen(false)
       setIsLoading(false)
       
-      // Wait for 2 seconds to allow blockchain state to update, then call refresh callback
-      setTimeout(() => {
-        if (onSuccess) {
-          onSuccess()
-        }
-      }, 2000)
+      if (onSuccess) {
+        onSuccess()
+      }
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
       setIsLoading(false)
     },
     waitForTransactionOptions: {
@@ -79,10 +67,10 @@ const CardManagementForm = ({ card, onSuccess }: CardManagementFormProps) => {
   const handleToggleCardStatus = () => {
     if (card.isActive) {
       // Deactivate card
-      manageCard(prepareDeactivateCardTransaction(packageId, card.id))
+      manageCard(prepareDeactivateCardTransaction(card.version, card.id, card.coin.coinType))
     } else {
       // Activate card
-      manageCard(prepareReactivateCardTransaction(packageId, card.id))
+      manageCard(prepareReactivateCardTransaction(card.version, card.id, card.coin.coinType))
     }
     setIsOpen(false)
   }
@@ -0,0 +1,98 @@
+import { Select, Text } from '@radix-ui/themes'
+import { BATCH_OPERATION_LABELS } from '~~/dapp/helpers/batch'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { TBatchOperationKind } from '~~/dapp/types/TBatchOperation'
+
+interface CardOperationFieldsProps {
+  // Prefix for the input ids, so several forms can be open at once.
+  idPrefix: string
+  coin: ICoinInfo
+  kind: TBatchOperationKind
+  onKindChange: (kind: TBatchOperationKind) => void
+  amount: string
+  onAmountChange: (amount: string) => void
+  recipient: string
+  onRecipientChange: (recipient: string) => void
+}
+
+const KINDS = Object.keys(BATCH_OPERATION_LABELS) as TBatchOperationKind[]
+
+/**
+ * Operation, amount and recipient inputs for any single card operation
+ */
+const CardOperationFields = ({
+  idPrefix,
+  coin,
+  kind,
+  onKindChange,
+  amount,
+  onAmountChange,
+  recipient,
+  onRecipientChange,
+}: CardOperationFieldsProps) => {
+  const safetyPolicy = useSafetyPolicy()
+
+  const needsAmount = kind !== 'deactivate' && kind !== 'reactivate'
+  const needsRecipient = kind === 'spend' || kind === 'directTransfer'
+
+  return (
+    <>
+      <div className="mb-3">
+        <Text as="div" size="2" className="block mb-1">
+          Operation
+        </Text>
+        <Select.Root value={kind} onValueChange={(value) => onKindChange(value as TBatchOperationKind)}>
+          <Select.Trigger className="w-full" />
+          <Select.Content>
+            {KINDS.map((option) => (
+              <Select.Item key={option} value={option}>
+                {BATCH_OPERATION_LABELS[option]}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+      </div>
+
+      {needsAmount && (
+        <div className="mb-3">
+          <Text as="label" htmlFor={`${idPrefix}-amount-input`} size="2" className="block mb-1">
+            {kind === 'updateSpendingLimit' ? 'New Spending Limit' : 'Amount'} ({coin.symbol})
+          </Text>
+          <input
+            id={`${idPrefix}-amount-input`}
+            type="number"
+            className="w-full rounded-md border border-gray-200 px-3 py-2 text-white focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+            value={amount}
+            onChange={(e) => onAmountChange(e.target.value)}
+            step="any"
+            min="0"
+          />
+          {kind !== 'updateSpendingLimit' && (
+            <Text as="div" size="1" className="mt-1 text-blue-600">
+              {safetyPolicy.describe(kind, coin)}
+            </Text>
+          )}
+        </div>
+      )}
+
+      {needsRecipient && (
+        <div className="mb-3">
+          <Text as="label" htmlFor={`${idPrefix}-recipient-input`} size="2" className="block mb-1">
+            Recipient Address
+          </Text>
+          <input
+            id={`${idPrefix}-recipient-input`}
+            type="text"
+            className="w-full rounded-md border border-gray-200 px-3 py-2 text-white focus:border-blue-500 focus:outline-none focus:ring-blue-500"
+            value={recipient}
+            onChange={(e) => onRecipientChange(e.target.value)}
+            placeholder="0x..."
+          />
+        </div>
+      )}
+    </>
+  )
+}
+
+export default CardOperationFields
@@ -9,6 +9,7 @@ import {
   CONTRACT_PACKAGE_VARIABLE_NAME,
   EXPLORER_URL_VARIABLE_NAME,
 } from '~~/config/network'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
 import {
   prepareDecrementCounterTransaction,
   prepareIncrementCounterTransaction,
@@ -44,7 +45,7 @@ const CounterForm: FC<{ counterId: string }> = ({ counterId }) => {
       refetch()
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
     },
   })
   const { transact: decrement } = useTransact({
@@ -60,7 +61,7 @@ const CounterForm: FC<{ counterId: string }> = ({ counterId }) => {
       refetch()
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
     },
   })
 
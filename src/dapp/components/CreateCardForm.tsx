@@ -1,8 +1,7 @@
 import { useCurrentAccount } from '@mysten/dapp-kit'
 import { SuiTransactionBlockResponse } from '@mysten/sui/client'
 import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
-import { Button, Flex, Text } from '@radix-ui/themes'
-import useTransact from '@suiware/kit/useTransact'
+import { Button, Flex, Select, Text } from '@radix-ui/themes'
 import { FormEvent, useState } from 'react'
 import { useNavigate } from 'react-router'
 import CustomConnectButton from '~~/components/CustomConnectButton'
@@ -10,7 +9,12 @@ import {
   CONTRACT_PACKAGE_VARIABLE_NAME,
   EXPLORER_URL_VARIABLE_NAME,
 } from '~~/config/network'
+import { parseCoinAmount, SUI_COIN_TYPE } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { Mist } from '~~/dapp/helpers/mist'
 import { prepareCreateCardTransaction } from '~~/dapp/helpers/transactions'
+import useCardCoins from '~~/dapp/hooks/useCardCoins'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
@@ -23,8 +27,11 @@ const CreateCardForm = () => {
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
   const navigate = useNavigate()
   const [spendingLimit, setSpendingLimit] = useState<string>('100')
+  const coins = useCardCoins()
+  const [coinType, setCoinType] = useState<string>(SUI_COIN_TYPE)
+  const coin = coins.find((c) => c.coinType === coinType) ?? coins[0]
 
-  const { transact: create } = useTransact({
+  const { transact: create } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
@@ -38,14 +45,14 @@ const CreateCardForm = () => {
         notificationId
       )
 
-      // Navigate to card details page if available
+      // Open the new card
       const cardId = response.effects?.created?.[0]?.reference?.objectId
       if (cardId) {
-        navigate(`/card/${cardId}`)
+        navigate(`/cards/${cardId}`)
       }
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
     },
     waitForTransactionOptions: {
       showEffects: true,
@@ -55,12 +62,20 @@ const CreateCardForm = () => {
   const handleCreateCardSubmit = (e: FormEvent) => {
     e.preventDefault()
 
-    if (!spendingLimit || parseInt(spendingLimit) <= 0) {
+    let limit: Mist
+    try {
+      limit = parseCoinAmount(spendingLimit, coin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
+    if (limit <= 0n) {
       notification.error(new Error('Please enter a valid spending limit'))
       return
     }
 
-    create(prepareCreateCardTransaction(packageId, spendingLimit))
+    create(prepareCreateCardTransaction(packageId, coin.coinType, limit))
   }
 
   if (currentAccount == null) return <CustomConnectButton />
@@ -71,9 +86,27 @@ const CreateCardForm = () => {
         <h2 className="mb-4 text-xl font-bold text-gray-800">Create New Card</h2>
         <form onSubmit={handleCreateCardSubmit}>
           <Flex direction="column" gap="3">
+            <div className="mb-3">
+              <Text as="div" size="2" className="block mb-1 text-gray-700">
+                Asset
+              </Text>
+              <Select.Root value={coin.coinType} onValueChange={setCoinType}>
+                <Select.Trigger className="w-full" />
+                <Select.Content>
+                  {coins.map((option) => (
+                    <Select.Item key={option.coinType} value={option.coinType}>
+                      {option.symbol}
+                    </Select.Item>
+                  ))}
+                </Select.Content>
+              </Select.Root>
+              <Text as="div" size="1" className="mt-1 text-gray-500">
+                A card holds a single asset. Create one card per asset to hold several side by side.
+              </Text>
+            </div>
             <div className="mb-3">
               <Text as="label" htmlFor="spending-limit" size="2" className="block mb-1 text-gray-700">
-                Spending Limit
+                Spending Limit ({coin.symbol})
               </Text>
               <input
                 id="spending-limit"
@@ -81,6 +114,8 @@ const CreateCardForm = () => {
                 className="w-full rounded-md border border-gray-300 px-3 py-2 text-white placeholder-gray-500 focus:border-indigo-500 focus:outline-none focus:ring-indigo-500"
                 value={spendingLimit}
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSpendingLimit(e.target.value)}
+                step="any"
+                min="0"
                 required
               />
             </div>
@@ -7,6 +7,7 @@ import {
   CONTRACT_PACKAGE_VARIABLE_NAME,
   EXPLORER_URL_VARIABLE_NAME,
 } from '~~/config/network'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
 import { prepareCreateCounterTransaction } from '~~/dapp/helpers/transactions'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
@@ -37,7 +38,7 @@ const CreateCounterForm = () => {
       navigate(`/counter/${counterId}`)
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
     },
     waitForTransactionOptions: {
       showEffects: true,
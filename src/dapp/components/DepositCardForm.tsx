@@ -1,68 +1,131 @@
 import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
 import { Button, Text, Dialog, Flex } from '@radix-ui/themes'
-import useTransact from '@suiware/kit/useTransact'
-import { FormEvent, useState } from 'react'
+import { FormEvent, useMemo, useRef, useState } from 'react'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
 import {
-  CONTRACT_PACKAGE_VARIABLE_NAME,
-  EXPLORER_URL_VARIABLE_NAME,
-} from '~~/config/network'
+  checkGasCoinsLeft,
+  checkSelectedCoins,
+  ICoinSelection,
+  selectCoins,
+} from '~~/dapp/helpers/coinSelection'
+import { formatCoinAmount, isSuiCoinType, parseCoinAmount } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
 import { prepareDepositTransaction } from '~~/dapp/helpers/transactions'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import GasEstimate from '~~/dapp/components/GasEstimate'
+import TransactionPreview from '~~/dapp/components/TransactionPreview'
+import { applyGasEstimate } from '~~/dapp/helpers/gas'
+import useGasEstimate from '~~/dapp/hooks/useGasEstimate'
+import useOwnedCoins from '~~/dapp/hooks/useOwnedCoins'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 interface DepositCardFormProps {
-  card: CardData;
+  card: ICard;
   onSuccess?: () => void;
 }
 
 /**
- * Form for depositing SUI into a card - simplified for testnet
+ * Form for depositing coins into a card
  */
 const DepositCardForm = ({ card, onSuccess }: DepositCardFormProps) => {
   // Hooks
   const currentAccount = useCurrentAccount()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const safetyPolicy = useSafetyPolicy()
+  const policy = safetyPolicy.policyFor(card.coin)
   
   // State
   const [depositAmount, setDepositAmount] = useState<string>('0.01')
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
   const [notificationId, setNotificationId] = useState<string>()
+  const [chooseCoins, setChooseCoins] = useState(false)
+  const [selectedCoinIds, setSelectedCoinIds] = useState<string[]>([])
+  // Amount of the transaction in flight, recorded against the daily cap on success
+  const pendingAmount = useRef<Mist>(0n)
+  const pendingCoinIds = useRef<string[]>([])
+  const { coinType } = card.coin
+  const isSuiCard = isSuiCoinType(coinType)
+
+  const { coins, isLoading: isLoadingCoins, error: coinsError, refresh: refreshCoins } = useOwnedCoins(isOpen, coinType)
+
+  // Coins the deposit will consume: the smallest one that covers the amount
+  // (merging several if none does), or the ones the user ticked
+  const coinSelection = useMemo((): { selection?: ICoinSelection; error?: string } => {
+    if (coins.length === 0) return {}
+    try {
+      const amount = parseCoinAmount(depositAmount, card.coin)
+      const selection = chooseCoins
+        ? checkSelectedCoins(coins, coins.filter((coin) => selectedCoinIds.includes(coin.coinObjectId)), amount, isSuiCard)
+        : selectCoins(coins, amount, isSuiCard)
+      return { selection }
+    } catch (error) {
+      return { error: (error as Error).message }
+    }
+  }, [coins, depositAmount, chooseCoins, selectedCoinIds, card.coin, isSuiCard])
+
+  const toggleCoin = (coinObjectId: string) => {
+    setSelectedCoinIds((current) =>
+      current.includes(coinObjectId)
+        ? current.filter((id) => id !== coinObjectId)
+        : [...current, coinObjectId]
+    )
+  }
+
+  // Dry-run what would be submitted so the fee can be shown before signing
+  const previewTx = useMemo(() => {
+    if (!isOpen || coinSelection.selection == null) return null
+    try {
+      const coinIds = coinSelection.selection.coins.map((coin) => coin.coinObjectId)
+      return prepareDepositTransaction(card.version, card.id, card.coin, coinIds, parseCoinAmount(depositAmount, card.coin), policy)
+    } catch {
+      return null
+    }
+  }, [isOpen, card.version, card.id, card.coin, depositAmount, coinSelection, policy])
+  const { estimate, isEstimating } = useGasEstimate(previewTx)
+
+  // SUI deposits pay gas from the coins they leave behind, which have to cover
+  // the estimated budget
+  const selectionError = useMemo(() => {
+    if (coinSelection.error != null) return coinSelection.error
+    if (!isSuiCard || coinSelection.selection == null || !estimate?.ok) return undefined
+    try {
+      checkGasCoinsLeft(coins, coinSelection.selection.coins, estimate.budget)
+      return undefined
+    } catch (error) {
+      return (error as Error).message
+    }
+  }, [coins, coinSelection, estimate, isSuiCard])
 
   // Transaction hook
-  const { transact: deposit } = useTransact({
+  const { transact: deposit } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
     },
-    onSuccess: (data) => {
+    onSuccess: (data: SuiSignAndExecuteTransactionOutput) => {
       notification.txSuccess(
         transactionUrl(explorerUrl, data.digest),
         notificationId
       )
+      safetyPolicy.record('deposit', pendingAmount.current, card.coin)
+      refreshCoins()
       
       setIsOpen(false)
       setIsLoading(false)
       
-      // Wait for blockchain state to update before calling onSuccess
-      setTimeout(() => {
-        if (onSuccess) onSuccess()
-      }, 2000)
+      if (onSuccess) onSuccess()
     },
-    onError: (e) => {
-      notification.txError(e, null, notificationId)
+    onError: (e: Error) => {
+      notification.txError(e, describeTransactionError(e), notificationId)
       setIsLoading(false)
     },
     waitForTransactionOptions: {
@@ -79,30 +142,48 @@ const DepositCardForm = ({ card, onSuccess }: DepositCardFormProps) => {
   const handleDepositSubmit = (e: FormEvent) => {
     e.preventDefault()
     
-    if (!depositAmount || Number(depositAmount) <= 0) {
+    let amount: Mist
+    try {
+      amount = parseCoinAmount(depositAmount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
+    if (amount <= 0n) {
       notification.error(new Error('Please enter a valid amount to deposit'))
       return
     }
     
-    const amount = Number(depositAmount)
-    
-    // Limit to 0.1 SUI maximum for testing
-    if (amount > 0.1) {
-      notification.error(new Error('For testing, deposits are limited to 0.1 SUI maximum'))
+    try {
+      safetyPolicy.check('deposit', amount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
+    if (coinSelection.selection == null || selectionError != null) {
+      notification.error(new Error(selectionError || 'Your coins are still loading'))
+      return
+    }
+    const coinIds = coinSelection.selection.coins.map((coin) => coin.coinObjectId)
+
+    if (!safetyPolicy.confirm(amount, card.coin)) {
       return
     }
     
+    pendingAmount.current = amount
+    pendingCoinIds.current = coinIds
+    setIsPreviewOpen(true)
+  }
+
+  const handleConfirm = () => {
+    setIsPreviewOpen(false)
     setIsLoading(true)
-    
+
     try {
-      console.log('Creating deposit transaction:')
-      console.log('- Package ID:', packageId)
-      console.log('- Card ID:', card.id)
-      console.log('- Deposit amount:', amount, 'SUI')
-      
-      // Create transaction with our working deposit approach
-      const tx = prepareDepositTransaction(packageId, card.id, '', amount)
-      deposit(tx)
+      const tx = prepareDepositTransaction(card.version, card.id, card.coin, pendingCoinIds.current, pendingAmount.current, policy)
+      deposit(applyGasEstimate(tx, estimate))
     } catch (error) {
       console.error('Error preparing deposit transaction:', error)
       notification.error(new Error('Failed to prepare deposit transaction'))
@@ -124,7 +205,7 @@ const DepositCardForm = ({ card, onSuccess }: DepositCardFormProps) => {
           <Dialog.Title>Deposit to Card</Dialog.Title>
           
           <Dialog.Description size="2" mb="4">
-            Deposit SUI tokens to increase your card balance.
+            Deposit {card.coin.symbol} to increase your card balance.
           </Dialog.Description>
           
           {isLoading ? (
@@ -136,22 +217,19 @@ const DepositCardForm = ({ card, onSuccess }: DepositCardFormProps) => {
               <Flex direction="column" gap="3">
                 <div className="mb-3">
                   <Text as="div" size="2" className="text-blue-600 font-semibold mb-1">
-                    Note: For testing, deposits are limited to 0.1 SUI max
-                  </Text>
-                  <Text as="div" size="2" className="text-gray-600 mb-1">
-                    Deposits are taken directly from your gas balance, not from your selected coins.
+                    {safetyPolicy.describe('deposit', card.coin)}
                   </Text>
                 </div>
                 
                 <div className="mb-3 p-3 bg-blue-50 rounded-lg">
                   <Text as="div" size="2" className="text-gray-800">
-                    <span className="font-semibold text-blue-600">Current Card Balance:</span> {card.balance} SUI
+                    <span className="font-semibold text-blue-600">Current Card Balance:</span> {formatCoinAmount(card.balance, card.coin)} {card.coin.symbol}
                   </Text>
                 </div>
                 
                 <div className="mb-3">
                   <Text as="label" htmlFor="amount-input" size="2" className="block mb-1">
-                    Amount (SUI)
+                    Amount ({card.coin.symbol})
                   </Text>
                   <input
                     id="amount-input"
@@ -159,12 +237,57 @@ const DepositCardForm = ({ card, onSuccess }: DepositCardFormProps) => {
                     className="w-full rounded-md border border-gray-200 px-3 py-2 text-white focus:border-blue-500 focus:outline-none focus:ring-blue-500"
                     value={depositAmount}
                     onChange={(e) => setDepositAmount(e.target.value)}
-                    step="0.001"
-                    min="0.001"
-                    max="0.1"
+                    step="any"
+                    min={formatCoinAmount(policy.operations.deposit.min, card.coin)}
                   />
                 </div>
                 
+                <div className="mb-3">
+                  <Flex justify="between" align="center" className="mb-1">
+                    <Text as="div" size="2">
+                      {chooseCoins ? 'Choose coins to deposit from' : 'Coins that will be used'}
+                    </Text>
+                    <Button type="button" variant="ghost" size="1" onClick={() => setChooseCoins(!chooseCoins)}>
+                      {chooseCoins ? 'Select automatically' : 'Choose coins'}
+                    </Button>
+                  </Flex>
+
+                  {isLoadingCoins ? (
+                    <Text as="div" size="1" className="text-gray-500">Loading your coins...</Text>
+                  ) : coinsError ? (
+                    <Text as="div" size="1" className="text-red-500">Could not load your coins: {coinsError.message}</Text>
+                  ) : (
+                    <div className="max-h-40 overflow-y-auto rounded-lg border border-gray-200">
+                      {(chooseCoins ? coins : coinSelection.selection?.coins ?? []).map((coin) => (
+                        <label key={coin.coinObjectId} className="flex items-center justify-between gap-2 px-3 py-1.5 text-sm">
+                          <span className="flex items-center gap-2 font-mono text-xs">
+                            {chooseCoins && (
+                              <input
+                                type="checkbox"
+                                checked={selectedCoinIds.includes(coin.coinObjectId)}
+                                onChange={() => toggleCoin(coin.coinObjectId)}
+                              />
+                            )}
+                            {coin.coinObjectId.substring(0, 8)}...{coin.coinObjectId.slice(-6)}
+                          </span>
+                          <span>{formatCoinAmount(BigInt(coin.balance), card.coin, 4)} {card.coin.symbol}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+
+                  {selectionError ? (
+                    <Text as="div" size="1" className="mt-1 text-red-500">{selectionError}</Text>
+                  ) : coinSelection.selection && (
+                    <Text as="div" size="1" className="mt-1 text-gray-600">
+                      {coinSelection.selection.coins.length > 1 ? 'These coins are merged, then ' : 'Then '}
+                      {formatCoinAmount(parseCoinAmount(depositAmount, card.coin), card.coin)} {card.coin.symbol} is split off and deposited. {formatCoinAmount(coinSelection.selection.total - parseCoinAmount(depositAmount, card.coin), card.coin)} {card.coin.symbol} stays in your wallet.{isSuiCard && ' Gas is paid from another coin.'}
+                    </Text>
+                  )}
+                </div>
+
+                <GasEstimate estimate={estimate} isEstimating={isEstimating} />
+                
                 <Flex gap="3" mt="4" justify="end">
                   <Dialog.Close>
                     <Button variant="soft" color="gray">
@@ -180,6 +303,16 @@ const DepositCardForm = ({ card, onSuccess }: DepositCardFormProps) => {
           )}
         </Dialog.Content>
       </Dialog.Root>
+
+      <TransactionPreview
+        open={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        tx={previewTx}
+        card={card}
+        estimate={estimate}
+        isEstimating={isEstimating}
+        onConfirm={handleConfirm}
+      />
     </div>
   )
 }
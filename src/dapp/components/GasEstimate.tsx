@@ -0,0 +1,41 @@
+import { Text } from '@radix-ui/themes'
+import { FC } from 'react'
+import { TGasEstimate } from '~~/dapp/helpers/gas'
+import { formatSui } from '~~/dapp/helpers/mist'
+
+interface GasEstimateProps {
+  estimate: TGasEstimate | null
+  isEstimating: boolean
+}
+
+const GasEstimate: FC<GasEstimateProps> = ({ estimate, isEstimating }) => {
+  if (isEstimating) {
+    return (
+      <Text as="div" size="1" className="text-gray-500">
+        Estimating network fee...
+      </Text>
+    )
+  }
+
+  if (estimate == null) {
+    return null
+  }
+
+  if (!estimate.ok) {
+    return (
+      <Text as="div" size="1" className="text-red-500">
+        Could not estimate the network fee, so your wallet will pick the gas
+        budget instead: {estimate.reason}
+      </Text>
+    )
+  }
+
+  return (
+    <Text as="div" size="1" className="text-gray-500">
+      Estimated network fee: {formatSui(estimate.fee)} SUI (budget{' '}
+      {formatSui(estimate.budget)} SUI)
+    </Text>
+  )
+}
+
+export default GasEstimate
@@ -1,9 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useCurrentAccount, useDisconnectWallet } from '@mysten/dapp-kit';
-import { Wallet, Copy, Menu, X, CreditCard, Layers, LayoutDashboard, History, LogOut } from 'lucide-react';
+import { Wallet, Copy, Menu, X, CreditCard, Layers, LayoutDashboard, History, LogOut, Eye, WifiOff } from 'lucide-react';
+import WatchAddressForm from './WatchAddressForm';
+import useOffline from '~~/dapp/hooks/useOffline';
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount';
 
 const Header: React.FC = () => {
   const currentAccount = useCurrentAccount();
+  const { address: viewedAddress, watchOnly, path } = useViewedAccount();
+  const offline = useOffline();
   const { mutate: disconnectWallet } = useDisconnectWallet();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
@@ -43,11 +48,12 @@ const Header: React.FC = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
+  // Links keep watch-only mode, which has nothing to create cards with
   const navItems = [
-    { href: '/dashboard', label: 'Dashboard', icon: <LayoutDashboard size={16} /> },
-    { href: '/create-card', label: 'Create', icon: <CreditCard size={16} /> },
-    { href: '/manage-cards', label: 'Manage', icon: <Layers size={16} /> },
-    { href: '/history', label: 'History', icon: <History size={16} /> }
+    { href: path('/dashboard'), label: 'Dashboard', icon: <LayoutDashboard size={16} /> },
+    ...(watchOnly ? [] : [{ href: '/create-card', label: 'Create', icon: <CreditCard size={16} /> }]),
+    { href: path('/manage-cards'), label: 'Manage', icon: <Layers size={16} /> },
+    { href: path('/history'), label: 'History', icon: <History size={16} /> }
   ];
   
   return (
@@ -96,6 +102,8 @@ const Header: React.FC = () => {
           
           {/* Wallet Address and Disconnect */}
           <div className="flex items-center gap-2">
+            <WatchAddressForm />
+
             {currentAccount ? (
               <>
                 <div 
@@ -144,6 +152,31 @@ const Header: React.FC = () => {
         </div>
       </div>
 
+      {watchOnly && (
+        <div className="border-t border-amber-100 bg-amber-50 text-amber-800 text-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <Eye size={14} />
+              {viewedAddress
+                ? <>Watching <span className="font-mono">{truncateAddress(viewedAddress)}</span>, read only. Signing is disabled.</>
+                : 'This is not a valid Sui address.'}
+            </span>
+            <a href="/dashboard" className="font-medium hover:underline">
+              Exit watch mode
+            </a>
+          </div>
+        </div>
+      )}
+
+      {offline && (
+        <div className="border-t border-gray-200 bg-gray-100 text-gray-700 text-sm">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-2">
+            <WifiOff size={14} />
+            Offline. Showing saved cards and history, read only, until the network is back.
+          </div>
+        </div>
+      )}
+
       {/* Mobile menu, show/hide based on menu state */}
       <div className={`md:hidden ${mobileMenuOpen ? 'block' : 'hidden'}`}>
         <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3 bg-white shadow-lg">
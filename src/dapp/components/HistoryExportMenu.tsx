@@ -0,0 +1,64 @@
+import { Button, DropdownMenu } from '@radix-ui/themes'
+import { Download } from 'lucide-react'
+import { useMemo } from 'react'
+import { UNKNOWN_COIN_INFO } from '~~/dapp/helpers/coins'
+import {
+  formatHistoryExport,
+  HISTORY_EXPORT_FORMATS,
+  historyExportRows,
+  THistoryExportFormat,
+} from '~~/dapp/helpers/historyExport'
+import useCardCoinOf from '~~/dapp/hooks/useCardCoinOf'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import { TCardEvent } from '~~/dapp/types/TCardEvent'
+import { downloadFile } from '~~/helpers/misc'
+
+interface HistoryExportMenuProps {
+  // Every event of the history, which the running balances are worked out from
+  events: TCardEvent[]
+  // Whether an event is shown with the current filters, only those are exported
+  include: (event: TCardEvent) => boolean
+}
+
+/**
+ * Downloads the filtered history as CSV or JSON, or as OFX or QIF bank
+ * statements with one account per card
+ */
+const HistoryExportMenu = ({ events, include }: HistoryExportMenuProps) => {
+  const { cardName } = useCardLabels()
+  const cardIds = useMemo(() => events.map((event) => event.cardId), [events])
+  const { coinOf, loading } = useCardCoinOf(cardIds)
+
+  const handleExport = (format: THistoryExportFormat) => {
+    const rows = historyExportRows(events, include, (cardId) => ({
+      name: cardName(cardId),
+      // Events do not carry the coin type, the card they belong to does
+      coin: coinOf(cardId) ?? UNKNOWN_COIN_INFO,
+    }))
+    const { extension, mimeType } = HISTORY_EXPORT_FORMATS[format]
+    const date = new Date().toISOString().slice(0, 10)
+
+    downloadFile(`card-history-${date}.${extension}`, formatHistoryExport(rows, format), mimeType)
+  }
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger>
+        <Button variant="soft" color="gray" disabled={loading || !events.some(include)}>
+          <Download size={16} />
+          Export
+          <DropdownMenu.TriggerIcon />
+        </Button>
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Content>
+        {(Object.keys(HISTORY_EXPORT_FORMATS) as THistoryExportFormat[]).map((format) => (
+          <DropdownMenu.Item key={format} onSelect={() => handleExport(format)}>
+            {HISTORY_EXPORT_FORMATS[format].label}
+          </DropdownMenu.Item>
+        ))}
+      </DropdownMenu.Content>
+    </DropdownMenu.Root>
+  )
+}
+
+export default HistoryExportMenu
@@ -0,0 +1,178 @@
+import {
+  Button,
+  DropdownMenu,
+  Flex,
+  Select,
+  Text,
+  TextField,
+} from '@radix-ui/themes'
+import { Search, X } from 'lucide-react'
+import {
+  DEFAULT_HISTORY_FILTER,
+  isHistoryFiltered,
+} from '~~/dapp/helpers/historyFilter'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import { IHistoryFilter } from '~~/dapp/types/IHistoryFilter'
+
+interface HistoryFilterBarProps {
+  filter: IHistoryFilter
+  onChange: (filter: IHistoryFilter) => void
+  // Cards to pick from, including ones that have since been handed on
+  cardIds: string[]
+}
+
+const SORT_LABELS: Record<IHistoryFilter['sortBy'], string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  largest: 'Largest amount',
+  smallest: 'Smallest amount',
+}
+
+/**
+ * Date range, card, amount range, recipient and text filters plus sort order
+ * for the transaction history. The event type is picked on the page itself.
+ */
+const HistoryFilterBar = ({
+  filter,
+  onChange,
+  cardIds,
+}: HistoryFilterBarProps) => {
+  const { cardName } = useCardLabels()
+
+  const set = <K extends keyof IHistoryFilter>(
+    key: K,
+    value: IHistoryFilter[K]
+  ) => onChange({ ...filter, [key]: value })
+
+  const toggleCard = (cardId: string, checked: boolean) =>
+    set(
+      'cardIds',
+      checked
+        ? [...filter.cardIds, cardId]
+        : filter.cardIds.filter((id) => id !== cardId)
+    )
+
+  const text = (
+    key: 'minAmount' | 'maxAmount' | 'recipient',
+    placeholder: string,
+    width: string
+  ) => (
+    <TextField.Root
+      size="1"
+      placeholder={placeholder}
+      value={filter[key]}
+      onChange={(e) => set(key, e.target.value)}
+      inputMode={key === 'recipient' ? undefined : 'decimal'}
+      style={{ width }}
+    />
+  )
+
+  return (
+    <Flex direction="column" gap="2" mb="6">
+      <Flex gap="2" wrap="wrap" align="center">
+        <TextField.Root
+          size="1"
+          placeholder="Search digest, card or type"
+          value={filter.search}
+          onChange={(e) => set('search', e.target.value)}
+          style={{ minWidth: '240px' }}
+        >
+          <TextField.Slot>
+            <Search size={14} />
+          </TextField.Slot>
+        </TextField.Root>
+        {text('recipient', 'Recipient address', '200px')}
+        <DropdownMenu.Root>
+          <DropdownMenu.Trigger>
+            <Button
+              size="1"
+              variant="soft"
+              color="gray"
+              disabled={cardIds.length === 0}
+            >
+              {filter.cardIds.length === 0
+                ? 'All cards'
+                : `${filter.cardIds.length} card${filter.cardIds.length !== 1 ? 's' : ''}`}
+              <DropdownMenu.TriggerIcon />
+            </Button>
+          </DropdownMenu.Trigger>
+          <DropdownMenu.Content>
+            {cardIds.map((cardId) => (
+              <DropdownMenu.CheckboxItem
+                key={cardId}
+                checked={filter.cardIds.includes(cardId)}
+                onCheckedChange={(checked) => toggleCard(cardId, checked)}
+                // Keeps the menu open to pick several cards
+                onSelect={(e) => e.preventDefault()}
+              >
+                {cardName(cardId)}
+              </DropdownMenu.CheckboxItem>
+            ))}
+          </DropdownMenu.Content>
+        </DropdownMenu.Root>
+        <Select.Root
+          size="1"
+          value={filter.sortBy}
+          onValueChange={(value) =>
+            set('sortBy', value as IHistoryFilter['sortBy'])
+          }
+        >
+          <Select.Trigger />
+          <Select.Content>
+            {Object.entries(SORT_LABELS).map(([value, label]) => (
+              <Select.Item key={value} value={value}>
+                {label}
+              </Select.Item>
+            ))}
+          </Select.Content>
+        </Select.Root>
+      </Flex>
+      <Flex gap="2" wrap="wrap" align="center">
+        <Text size="1" color="gray">
+          From
+        </Text>
+        <TextField.Root
+          size="1"
+          type="date"
+          value={filter.from}
+          max={filter.to || undefined}
+          onChange={(e) => set('from', e.target.value)}
+        />
+        <Text size="1" color="gray">
+          to
+        </Text>
+        <TextField.Root
+          size="1"
+          type="date"
+          value={filter.to}
+          min={filter.from || undefined}
+          onChange={(e) => set('to', e.target.value)}
+        />
+        <Text size="1" color="gray">
+          Amount
+        </Text>
+        {text('minAmount', 'Min', '90px')}
+        <Text size="1" color="gray">
+          –
+        </Text>
+        {text('maxAmount', 'Max', '90px')}
+        {isHistoryFiltered(filter) && (
+          <Button
+            size="1"
+            variant="ghost"
+            color="gray"
+            // The sort order is not a filter, so it stays
+            onClick={() =>
+              onChange({ ...DEFAULT_HISTORY_FILTER, sortBy: filter.sortBy })
+            }
+          >
+            <X size={14} />
+            Clear filters
+          </Button>
+        )}
+      </Flex>
+    </Flex>
+  )
+}
+
+export default HistoryFilterBar
@@ -0,0 +1,27 @@
+import { Checkbox, Flex, Text } from '@radix-ui/themes'
+import c from 'clsx'
+import useIndexer from '~~/dapp/hooks/useIndexer'
+
+/**
+ * Lets the user load card history from the full node instead of the indexer,
+ * e.g. while the indexer is catching up
+ */
+const IndexerToggle = ({ className }: { className?: string }) => {
+  const { available, enabled, setEnabled } = useIndexer()
+
+  if (!available) return null
+
+  return (
+    <Text as="label" size="2" className={c('block text-gray-700', className)}>
+      <Flex gap="2" align="center">
+        <Checkbox
+          checked={enabled}
+          onCheckedChange={(checked) => setEnabled(checked === true)}
+        />
+        Load history from the indexer
+      </Flex>
+    </Text>
+  )
+}
+
+export default IndexerToggle
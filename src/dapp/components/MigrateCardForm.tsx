@@ -0,0 +1,137 @@
+import { useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit'
+import { Button, Text, Dialog, Flex } from '@radix-ui/themes'
+import { useMemo, useState } from 'react'
+import {
+  CONTRACT_PACKAGE_VARIABLE_NAME,
+  EXPLORER_URL_VARIABLE_NAME,
+} from '~~/config/network'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import {
+  canMigrateCard,
+  getCardVersions,
+  getCurrentCardVersion,
+} from '~~/dapp/helpers/packages'
+import { prepareMigrateCardTransaction } from '~~/dapp/helpers/transactions'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
+import { ICard } from '~~/dapp/types/ICard'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+interface MigrateCardFormProps {
+  card: ICard;
+  onSuccess?: () => void;
+}
+
+/**
+ * Replaces a card from an earlier contract deployment with one on the current
+ * deployment. Renders nothing for cards that cannot be migrated.
+ */
+const MigrateCardForm = ({ card, onSuccess }: MigrateCardFormProps) => {
+  const currentAccount = useCurrentAccount()
+  const { network } = useSuiClientContext()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const [notificationId, setNotificationId] = useState<string>()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const current = useMemo(
+    () => getCurrentCardVersion(getCardVersions(network, packageId)),
+    [network, packageId]
+  )
+
+  const { transact: migrate } = useCardTransact({
+    onBeforeStart: () => {
+      const nId = notification.txLoading()
+      setNotificationId(nId)
+      setIsLoading(true)
+    },
+    onSuccess: (data) => {
+      notification.txSuccess(
+        transactionUrl(explorerUrl, data.digest),
+        notificationId
+      )
+
+      setIsOpen(false)
+      setIsLoading(false)
+
+      if (onSuccess) {
+        onSuccess()
+      }
+    },
+    onError: (e: Error) => {
+      notification.txError(e, describeTransactionError(e), notificationId)
+      setIsLoading(false)
+    },
+    waitForTransactionOptions: {
+      showEffects: true,
+    },
+  })
+
+  const handleMigrate = () => {
+    try {
+      migrate(prepareMigrateCardTransaction(card, current))
+    } catch (error) {
+      notification.error(error as Error)
+    }
+  }
+
+  if (!currentAccount || !canMigrateCard(card, current)) return null
+
+  return (
+    <>
+      <Button variant="soft" color="orange" size="2" onClick={() => setIsOpen(true)}>
+        Migrate to {current.label}
+      </Button>
+
+      <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
+        <Dialog.Content>
+          <Dialog.Title>Migrate Card</Dialog.Title>
+          <Dialog.Description size="2" mb="4">
+            This card was created with contract {card.version.label}. New cards use {current.label}.
+          </Dialog.Description>
+
+          {isLoading ? (
+            <div className="p-4 text-center">
+              <Text>Processing transaction...</Text>
+            </div>
+          ) : (
+            <Flex direction="column" gap="3">
+              <Text as="div" size="2">
+                One transaction will:
+              </Text>
+              <ul className="list-disc list-inside text-sm text-gray-700">
+                {card.balance > 0n && (
+                  <li>
+                    withdraw the balance of {formatCoinAmount(card.balance, card.coin)} {card.coin.symbol} to your wallet
+                  </li>
+                )}
+                {card.isActive && <li>deactivate this card</li>}
+                <li>
+                  create a {card.coin.symbol} card on {current.label} with a spending limit of {formatCoinAmount(card.spendingLimit, card.coin)} {card.coin.symbol}
+                </li>
+              </ul>
+              <Text as="div" size="1" className="text-gray-600">
+                The new card starts with nothing spent and an empty balance. Deposit into it once it shows up.
+              </Text>
+
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="soft" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="button" variant="solid" color="orange" onClick={handleMigrate}>
+                  Migrate Card
+                </Button>
+              </div>
+            </Flex>
+          )}
+        </Dialog.Content>
+      </Dialog.Root>
+    </>
+  )
+}
+
+export default MigrateCardForm
@@ -0,0 +1,312 @@
+import { useSuiClient } from '@mysten/dapp-kit'
+import { SuiClient } from '@mysten/sui/client'
+import { Button, Dialog, Flex, Tabs, Text } from '@radix-ui/themes'
+import { useQueryClient } from '@tanstack/react-query'
+import { QRCodeSVG } from 'qrcode.react'
+import { useMemo, useRef, useState } from 'react'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import CardOperationFields from '~~/dapp/components/CardOperationFields'
+import {
+  buildCardOperation,
+  composeBatch,
+  policyAmounts,
+} from '~~/dapp/helpers/batch'
+import {
+  applyTransactionToCards,
+  CARD_EFFECTS_OPTIONS,
+  reconcileCards,
+} from '~~/dapp/helpers/cardEffects'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import {
+  buildUnsignedTransaction,
+  decodeTransactionBytes,
+  verifyOfflineSignature,
+} from '~~/dapp/helpers/offline'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import { ICard } from '~~/dapp/types/ICard'
+import {
+  TBatchOperation,
+  TBatchOperationKind,
+} from '~~/dapp/types/TBatchOperation'
+import { downloadFile } from '~~/helpers/misc'
+import { transactionUrl } from '~~/helpers/network'
+import { notification } from '~~/helpers/notification'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+interface OfflineSigningFormProps {
+  card: ICard;
+  onSuccess?: () => void;
+}
+
+// Most a QR code holds in byte mode at the lowest error correction level
+const QR_MAX_LENGTH = 2953
+
+const TEXTAREA_CLASS =
+  'w-full rounded-md border border-gray-200 px-3 py-2 font-mono text-xs text-white focus:border-blue-500 focus:outline-none focus:ring-blue-500'
+
+/**
+ * Builds a card transaction for an offline signer and submits it once the
+ * signature comes back
+ */
+const OfflineSigningForm = ({ card, onSuccess }: OfflineSigningFormProps) => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const queryClient = useQueryClient()
+  const { useNetworkVariable } = useNetworkConfig()
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const safetyPolicy = useSafetyPolicy()
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [tab, setTab] = useState('export')
+  const [kind, setKind] = useState<TBatchOperationKind>('withdraw')
+  const [amount, setAmount] = useState<string>('0.01')
+  const [recipientAddress, setRecipientAddress] = useState<string>('')
+  const [transactionBytes, setTransactionBytes] = useState<string>('')
+  const [signature, setSignature] = useState<string>('')
+  const [isBuilding, setIsBuilding] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [showQr, setShowQr] = useState(false)
+  // Operation behind the bytes built here, recorded against the daily cap once submitted
+  const builtOperation = useRef<{ bytes: string; operation: TBatchOperation }>(undefined)
+
+  const decoded = useMemo(() => {
+    if (!transactionBytes.trim()) return {}
+    try {
+      return { transaction: decodeTransactionBytes(transactionBytes) }
+    } catch (error) {
+      return { error: (error as Error).message }
+    }
+  }, [transactionBytes])
+
+  const handleBuild = async () => {
+    let operation: TBatchOperation
+    try {
+      operation = buildCardOperation(kind, card, amount, recipientAddress)
+      if ('amount' in operation) {
+        safetyPolicy.check(operation.kind, operation.amount, card.coin)
+      }
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
+    setIsBuilding(true)
+    try {
+      // The card owner signs and pays gas, which need not be the connected wallet
+      const tx = composeBatch([operation])
+      const bytes = await buildUnsignedTransaction(client, tx, card.owner)
+      builtOperation.current = { bytes, operation }
+      setTransactionBytes(bytes)
+      setSignature('')
+    } catch (error) {
+      notification.error(error as Error, describeTransactionError(error as Error))
+    } finally {
+      setIsBuilding(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(transactionBytes)
+    notification.success('Transaction bytes copied')
+  }
+
+  const handleDownload = () =>
+    downloadFile(
+      `card-${card.id.substring(2, 8)}-${decoded.transaction?.digest ?? 'unsigned'}.txt`,
+      transactionBytes,
+      'text/plain'
+    )
+
+  const handleSubmit = async () => {
+    const bytes = transactionBytes.trim()
+    setIsSubmitting(true)
+    const nId = notification.loading('Submitting the signed transaction')
+
+    try {
+      await verifyOfflineSignature(bytes, signature)
+
+      const { digest } = await client.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature: signature.trim(),
+      })
+      const response = await client.waitForTransaction({
+        digest,
+        options: CARD_EFFECTS_OPTIONS,
+      })
+      reconcileCards(queryClient, applyTransactionToCards(queryClient, response))
+
+      notification.txSuccess(transactionUrl(explorerUrl, digest), nId)
+      if (builtOperation.current?.bytes === bytes) {
+        policyAmounts([builtOperation.current.operation]).forEach(({ operation, coin, amount }) =>
+          safetyPolicy.record(operation, amount, coin)
+        )
+      }
+
+      builtOperation.current = undefined
+      setTransactionBytes('')
+      setSignature('')
+      setIsOpen(false)
+      if (onSuccess) onSuccess()
+    } catch (error) {
+      notification.txError(error as Error, describeTransactionError(error as Error), nId)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const transaction = decoded.transaction
+
+  return (
+    <div>
+      <Button onClick={() => setIsOpen(true)} variant="soft" color="gray">
+        Offline signing
+      </Button>
+
+      <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
+        <Dialog.Content maxWidth="640px">
+          <Dialog.Title>Offline Signing</Dialog.Title>
+
+          <Dialog.Description size="2" mb="4">
+            Export an unsigned transaction for card {card.id.substring(0, 6)}...{card.id.substring(62)}, sign it on an offline machine as {card.owner.substring(0, 6)}...{card.owner.slice(-4)}, then paste the signature back.
+          </Dialog.Description>
+
+          <Tabs.Root value={tab} onValueChange={setTab}>
+            <Tabs.List>
+              <Tabs.Trigger value="export">Export</Tabs.Trigger>
+              <Tabs.Trigger value="submit">Import signature</Tabs.Trigger>
+            </Tabs.List>
+
+            <Tabs.Content value="export">
+              <Flex direction="column" gap="3" mt="4">
+                <CardOperationFields
+                  idPrefix="offline"
+                  coin={card.coin}
+                  kind={kind}
+                  onKindChange={setKind}
+                  amount={amount}
+                  onAmountChange={setAmount}
+                  recipient={recipientAddress}
+                  onRecipientChange={setRecipientAddress}
+                />
+
+                <Flex justify="end">
+                  <Button variant="solid" color="blue" onClick={handleBuild} disabled={isBuilding}>
+                    {isBuilding ? 'Building...' : 'Build unsigned transaction'}
+                  </Button>
+                </Flex>
+
+                {transactionBytes && (
+                  <div>
+                    <Text as="label" htmlFor="offline-export-bytes" size="2" className="block mb-1">
+                      Unsigned transaction (base64 BCS)
+                    </Text>
+                    <textarea id="offline-export-bytes" readOnly rows={5} className={TEXTAREA_CLASS} value={transactionBytes} />
+                    <Flex gap="2" mt="2">
+                      <Button variant="soft" size="1" onClick={handleCopy}>
+                        Copy
+                      </Button>
+                      <Button variant="soft" size="1" onClick={handleDownload}>
+                        Download
+                      </Button>
+                      <Button variant="soft" size="1" onClick={() => setShowQr(!showQr)}>
+                        {showQr ? 'Hide QR code' : 'QR code'}
+                      </Button>
+                      <Button variant="soft" size="1" onClick={() => setTab('submit')}>
+                        Import signature
+                      </Button>
+                    </Flex>
+                    {showQr && (
+                      <Flex justify="center" mt="3">
+                        {transactionBytes.length <= QR_MAX_LENGTH ? (
+                          <QRCodeSVG value={transactionBytes} level="L" size={320} marginSize={2} />
+                        ) : (
+                          <Text size="1" className="text-gray-600">
+                            The transaction is too large for a QR code. Copy or download it instead.
+                          </Text>
+                        )}
+                      </Flex>
+                    )}
+                    <Text as="div" size="1" className="mt-2 text-gray-600">
+                      The bytes pin the gas coins and object versions they were built with. Any other transaction from this address before submitting makes them stale.
+                    </Text>
+                  </div>
+                )}
+              </Flex>
+            </Tabs.Content>
+
+            <Tabs.Content value="submit">
+              <Flex direction="column" gap="3" mt="4">
+                <div>
+                  <Text as="label" htmlFor="offline-submit-bytes" size="2" className="block mb-1">
+                    Transaction bytes (base64)
+                  </Text>
+                  <textarea
+                    id="offline-submit-bytes"
+                    rows={4}
+                    className={TEXTAREA_CLASS}
+                    value={transactionBytes}
+                    onChange={(e) => setTransactionBytes(e.target.value)}
+                  />
+                </div>
+
+                {decoded.error && (
+                  <Text as="div" size="1" className="text-red-500">
+                    {decoded.error}
+                  </Text>
+                )}
+
+                {transaction && (
+                  <div className="rounded-lg border border-blue-100 bg-blue-50 p-3 text-xs text-gray-700">
+                    <div><span className="text-gray-500">Digest:</span> {transaction.digest}</div>
+                    <div><span className="text-gray-500">Sender:</span> {transaction.sender ?? 'not set'}</div>
+                    <div><span className="text-gray-500">Gas owner:</span> {transaction.gasOwner ?? 'not set'}</div>
+                    <div>
+                      <span className="text-gray-500">Gas:</span> budget {transaction.gasBudget ?? '?'} MIST at {transaction.gasPrice ?? '?'} MIST, paid with {transaction.gasPayment.join(', ') || 'no coins'}
+                    </div>
+                    <div className="mt-2 text-gray-500">Commands:</div>
+                    <ol className="list-decimal list-inside break-all">
+                      {transaction.commands.map((command, index) => (
+                        <li key={index}>{command}</li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
+                <div>
+                  <Text as="label" htmlFor="offline-signature" size="2" className="block mb-1">
+                    Signature (base64, as printed by the signer)
+                  </Text>
+                  <textarea
+                    id="offline-signature"
+                    rows={3}
+                    className={TEXTAREA_CLASS}
+                    value={signature}
+                    onChange={(e) => setSignature(e.target.value)}
+                  />
+                </div>
+
+                <Flex gap="3" justify="end">
+                  <Dialog.Close>
+                    <Button variant="soft" color="gray">
+                      Cancel
+                    </Button>
+                  </Dialog.Close>
+                  <Button
+                    variant="solid"
+                    color="blue"
+                    onClick={handleSubmit}
+                    disabled={isSubmitting || transaction == null || !signature.trim()}
+                  >
+                    {isSubmitting ? 'Submitting...' : 'Verify and submit'}
+                  </Button>
+                </Flex>
+              </Flex>
+            </Tabs.Content>
+          </Tabs.Root>
+        </Dialog.Content>
+      </Dialog.Root>
+    </div>
+  )
+}
+
+export default OfflineSigningForm
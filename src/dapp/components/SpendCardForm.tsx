@@ -1,81 +1,89 @@
 import { useCurrentAccount } from '@mysten/dapp-kit'
-import useTransact from '@suiware/kit/useTransact'
-import { FormEvent, useState, useEffect } from 'react'
+import { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { FormEvent, useState, useEffect, useMemo, useRef } from 'react'
 import { Loader2, CreditCard, ArrowRight } from 'lucide-react'
 import { Button, Text, Dialog, Flex } from '@radix-ui/themes'
-import {
-  CONTRACT_PACKAGE_VARIABLE_NAME,
-  EXPLORER_URL_VARIABLE_NAME,
-} from '~~/config/network'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { formatCoinAmount, parseCoinAmount } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { maxMist, minMist, Mist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
 import { prepareSpendTransaction } from '~~/dapp/helpers/transactions'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import GasEstimate from '~~/dapp/components/GasEstimate'
+import TransactionPreview from '~~/dapp/components/TransactionPreview'
+import { applyGasEstimate } from '~~/dapp/helpers/gas'
+import useGasEstimate from '~~/dapp/hooks/useGasEstimate'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 interface SpendCardFormProps {
-  card: CardData;
+  card: ICard;
   onSuccess?: () => void;
 }
 
 const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
   const currentAccount = useCurrentAccount()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const safetyPolicy = useSafetyPolicy()
+  const policy = safetyPolicy.policyFor(card.coin)
   const [spendAmount, setSpendAmount] = useState<string>('0.001')
   const [recipientAddress, setRecipientAddress] = useState<string>('')
   const [notificationId, setNotificationId] = useState<string>()
+  // Amount of the transaction in flight, recorded against the daily cap on success
+  const pendingAmount = useRef<Mist>(0n)
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
   const [addressError, setAddressError] = useState<string>('')
 
   // Calculate available amount to spend
-  // Note: card.balance, card.spendingLimit, and card.amountSpent are already in SUI format from CardList
-  const remainingLimit = Math.max(0, card.spendingLimit - card.amountSpent)
+  const remainingLimit = maxMist(0n, card.spendingLimit - card.amountSpent)
   
   // The available to spend is the minimum of the balance and remaining limit
-  const availableToSpend = Math.min(
-    card.balance, 
-    remainingLimit
-  )
+  const availableToSpend = minMist(card.balance, remainingLimit)
+
+  // Dry-run what would be submitted so the fee can be shown before signing
+  const previewTx = useMemo(() => {
+    if (!isOpen) return null
+    try {
+      return prepareSpendTransaction(card.version, card.id, card.coin, parseCoinAmount(spendAmount, card.coin), policy, recipientAddress || undefined)
+    } catch {
+      return null
+    }
+  }, [isOpen, card.version, card.id, card.coin, spendAmount, recipientAddress, policy])
+  const { estimate, isEstimating } = useGasEstimate(previewTx)
 
   // Create a subscription to the transaction status
-  const { transact: spend } = useTransact({
+  const { transact: spend } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
       setIsLoading(true)
     },
     onSuccess: (
-      data,
-      _response
+      data: SuiSignAndExecuteTransactionOutput,
+      _response: SuiTransactionBlockResponse
     ) => {
       notification.txSuccess(
         transactionUrl(explorerUrl, data.digest),
         notificationId
       )
+      safetyPolicy.record('spend', pendingAmount.current, card.coin)
       
       setIsOpen(false)
       setIsLoading(false)
       
-      // Wait for 2 seconds to allow blockchain state to update, then call refresh callback
-      setTimeout(() => {
-        if (onSuccess) {
-          onSuccess()
-        }
-      }, 2000)
+      if (onSuccess) {
+        onSuccess()
+      }
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
       setIsLoading(false)
     },
     waitForTransactionOptions: {
@@ -97,21 +105,27 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
     e.preventDefault()
     setAddressError('')
 
-    // Safety check for maximum amount
-    const maxAmount = 0.01 // 0.01 SUI - lower limit for safety
-    const amountNum = Number(spendAmount)
-    
-    if (amountNum > maxAmount) {
-      notification.error(new Error(`Maximum spend amount is ${maxAmount} SUI during testing`))
+    let amount: Mist
+    try {
+      amount = parseCoinAmount(spendAmount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
+    try {
+      safetyPolicy.check('spend', amount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
       return
     }
     
     // Check against balance and spending limit
-    if (amountNum > availableToSpend) {
-      if (amountNum > card.balance) {
-        notification.error(new Error(`Amount exceeds your card balance of ${card.balance.toFixed(2)} SUI`))
-      } else if (amountNum > remainingLimit) {
-        notification.error(new Error(`Amount exceeds your remaining spending limit of ${remainingLimit.toFixed(2)} SUI`))
+    if (amount > availableToSpend) {
+      if (amount > card.balance) {
+        notification.error(new Error(`Amount exceeds your card balance of ${formatCoinAmount(card.balance, card.coin)} ${card.coin.symbol}`))
+      } else if (amount > remainingLimit) {
+        notification.error(new Error(`Amount exceeds your remaining spending limit of ${formatCoinAmount(remainingLimit, card.coin)} ${card.coin.symbol}`))
       }
       return
     }
@@ -122,16 +136,21 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
       return
     }
     
+    if (!safetyPolicy.confirm(amount, card.coin)) {
+      return
+    }
+
+    pendingAmount.current = amount
+    setIsPreviewOpen(true)
+  }
+
+  const handleConfirm = () => {
+    setIsPreviewOpen(false)
+
     try {
-      console.log('Creating spend transaction:')
-      console.log('- Package ID:', packageId)
-      console.log('- Card ID:', card.id)
-      console.log('- Spend amount:', spendAmount, 'SUI')
-      console.log('- Recipient:', recipientAddress || 'Self (wallet owner)')
-      
       // Process spend with transaction helper
-      const tx = prepareSpendTransaction(packageId, card.id, spendAmount, recipientAddress)
-      spend(tx)
+      const tx = prepareSpendTransaction(card.version, card.id, card.coin, pendingAmount.current, policy, recipientAddress || undefined)
+      spend(applyGasEstimate(tx, estimate))
     } catch (error) {
       console.error('Error preparing spend transaction:', error)
       notification.error(new Error('Failed to prepare spend transaction'))
@@ -156,7 +175,7 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
         color="blue"
         variant="soft"
         size="2"
-        disabled={!card.isActive || card.balance <= 0 || card.spendingLimit <= 0}
+        disabled={!card.isActive || card.balance <= 0n || card.spendingLimit <= 0n}
       >
         Spend
       </Button>
@@ -173,7 +192,7 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
               <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600"></div>
               <Text className="mt-4 text-gray-600">Processing your transaction...</Text>
             </div>
-          ) : availableToSpend <= 0 ? (
+          ) : availableToSpend <= 0n ? (
             <div className="mb-4 p-4 rounded-lg bg-blue-50 border border-blue-100">
               <div className="flex items-center gap-3 mb-3">
                 <div className="p-2 bg-white rounded-lg">
@@ -184,26 +203,26 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
                     Card {card.id.substring(0, 6)}...{card.id.substring(62)}
                   </Text>
                   <Text size="2" className="text-gray-600">
-                    <span className="text-gray-700">Balance:</span> {card.balance.toFixed(4)} SUI
+                    <span className="text-gray-700">Balance:</span> {formatCoinAmount(card.balance, card.coin, 4)} {card.coin.symbol}
                   </Text>
                 </div>
               </div>
               <div className="mt-3 pt-3 border-t border-blue-100 grid grid-cols-2 gap-4">
                 <div>
                   <Text size="1" className="text-gray-600 mb-1">Spending Limit</Text>
-                  <Text className="text-gray-800 font-medium">{card.spendingLimit.toFixed(4)} SUI</Text>
+                  <Text className="text-gray-800 font-medium">{formatCoinAmount(card.spendingLimit, card.coin, 4)} {card.coin.symbol}</Text>
                 </div>
                 <div>
                   <Text size="1" className="text-gray-600 mb-1">Already Spent</Text>
-                  <Text className="text-gray-800 font-medium">{card.amountSpent.toFixed(4)} SUI</Text>
+                  <Text className="text-gray-800 font-medium">{formatCoinAmount(card.amountSpent, card.coin, 4)} {card.coin.symbol}</Text>
                 </div>
                 <div>
                   <Text size="1" className="text-gray-600 mb-1">Available Limit</Text>
-                  <Text className="text-blue-600 font-medium">{remainingLimit.toFixed(4)} SUI</Text>
+                  <Text className="text-blue-600 font-medium">{formatCoinAmount(remainingLimit, card.coin, 4)} {card.coin.symbol}</Text>
                 </div>
                 <div>
                   <Text size="1" className="text-gray-600 mb-1">Can Spend</Text>
-                  <Text className="text-blue-600 font-medium">{availableToSpend.toFixed(4)} SUI</Text>
+                  <Text className="text-blue-600 font-medium">{formatCoinAmount(availableToSpend, card.coin, 4)} {card.coin.symbol}</Text>
                 </div>
               </div>
             </div>
@@ -236,7 +255,7 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
               
               <div className="mb-4">
                 <Text as="label" htmlFor="spend-amount" size="2" className="block mb-2">
-                  Spend Amount (SUI)
+                  Spend Amount ({card.coin.symbol})
                 </Text>
                 <div className="relative">
                   <input
@@ -245,14 +264,14 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
                     className="w-full rounded-md border border-gray-200 px-4 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-blue-500"
                     value={spendAmount}
                     onChange={(e) => setSpendAmount(e.target.value)}
-                    step="0.001"
-                    min="0.001"
-                    max={availableToSpend}
+                    step="any"
+                    min={formatCoinAmount(policy.operations.spend.min, card.coin)}
+                    max={formatCoinAmount(availableToSpend, card.coin)}
                     placeholder="0.00"
                     required
                   />
                   <div className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500">
-                    SUI
+                    {card.coin.symbol}
                   </div>
                 </div>
               </div>
@@ -263,12 +282,14 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
                   <ul className="list-disc list-inside space-y-1 text-sm text-gray-600">
                     <li>This will transfer funds from your card to the specified recipient</li>
                     <li>If no recipient is specified, funds will be sent back to your wallet</li>
-                    <li>For testing, spend amounts are limited to 0.001-0.01 SUI</li>
+                    <li>{safetyPolicy.describe('spend', card.coin)}</li>
                     <li>Each transaction requires a sufficient gas budget</li>
                   </ul>
                 </div>
               </div>
 
+              <GasEstimate estimate={estimate} isEstimating={isEstimating} />
+
               <Flex gap="3" mt="4" justify="end">
                 <Dialog.Close>
                   <Button variant="soft" color="gray" disabled={isLoading}>
@@ -284,6 +305,16 @@ const SpendCardForm = ({ card, onSuccess }: SpendCardFormProps) => {
           )}
         </Dialog.Content>
       </Dialog.Root>
+
+      <TransactionPreview
+        open={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        tx={previewTx}
+        card={card}
+        estimate={estimate}
+        isEstimating={isEstimating}
+        onConfirm={handleConfirm}
+      />
     </>
   )
 }
@@ -0,0 +1,35 @@
+import { Checkbox, Flex, Text } from '@radix-ui/themes'
+import c from 'clsx'
+import { useLocalStorage } from 'react-use'
+import { SPONSOR_URL, SPONSORED_GAS_STORAGE_KEY } from '~~/dapp/config/sponsor'
+
+/**
+ * Lets the user have network fees paid by the gas station, e.g. when all their
+ * SUI sits in cards
+ */
+const SponsoredGasToggle = ({ className }: { className?: string }) => {
+  const [enabled, setEnabled] = useLocalStorage(
+    SPONSORED_GAS_STORAGE_KEY,
+    false
+  )
+
+  if (SPONSOR_URL == null) return null
+
+  return (
+    <Text
+      as="label"
+      size="2"
+      className={c('block text-gray-700', className)}
+    >
+      <Flex gap="2" align="center">
+        <Checkbox
+          checked={enabled === true}
+          onCheckedChange={(checked) => setEnabled(checked === true)}
+        />
+        Pay network fees through the gas station
+      </Flex>
+    </Text>
+  )
+}
+
+export default SponsoredGasToggle
@@ -27,24 +27,18 @@ function formatDistance(date: Date, baseDate: Date, options?: { addSuffix: boole
 
   return result;
 }
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { Mist, toMist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 interface TransactionHistoryProps {
-  card: CardData;
+  card: ICard;
 }
 
 interface TransactionEvent {
   type: 'deposit' | 'spend' | 'withdraw' | 'create' | 'update' | 'activate' | 'deactivate';
-  amount?: number;
+  amount?: Mist;
   timestamp: number;
   txDigest: string;
 }
@@ -93,30 +87,30 @@ const TransactionHistory = ({ card }: TransactionHistoryProps) => {
           const eventType = event.type
           
           let type: TransactionEvent['type'] = 'create' // Default
-          let amount = 0
+          let amount = 0n
           
           // Determine transaction type from event type
           if (eventType.includes('DepositEvent')) {
             type = 'deposit'
-            amount = Number(parsedJson.amount || 0)
+            amount = toMist(parsedJson.amount)
           } else if (eventType.includes('SpendEvent')) {
             type = 'spend'
-            amount = Number(parsedJson.amount || 0)
+            amount = toMist(parsedJson.amount)
           } else if (eventType.includes('WithdrawEvent')) {
             type = 'withdraw'
-            amount = Number(parsedJson.amount || 0)
+            amount = toMist(parsedJson.amount)
           } else if (eventType.includes('DeactivateCardEvent')) {
             type = 'deactivate'
           } else if (eventType.includes('ReactivateCardEvent')) {
             type = 'activate'
           } else if (eventType.includes('UpdateSpendingLimitEvent')) {
             type = 'update'
-            amount = Number(parsedJson.new_limit || 0)
+            amount = toMist(parsedJson.new_limit)
           }
           
           return {
             type,
-            amount: amount / 1_000_000_000, // Convert from MIST to SUI
+            amount,
             timestamp: Number(event.timestampMs),
             txDigest: event.id.txDigest
           }
@@ -152,27 +146,27 @@ const TransactionHistory = ({ card }: TransactionHistoryProps) => {
   }
 
   // Helper function to get appropriate icon and text for transaction type
-  const getTransactionDetails = (type: TransactionEvent['type'], amount?: number) => {
+  const getTransactionDetails = (type: TransactionEvent['type'], amount: Mist = 0n) => {
     switch (type) {
       case 'deposit':
         return {
           icon: '⬆️',
           label: 'Deposit',
-          description: `Added ${amount?.toFixed(2)} SUI to card`,
+          description: `Added ${formatCoinAmount(amount, card.coin, 2)} ${card.coin.symbol} to card`,
           color: 'text-green-600'
         }
       case 'spend':
         return {
           icon: '💳',
           label: 'Spend',
-          description: `Spent ${amount?.toFixed(2)} SUI from card`,
+          description: `Spent ${formatCoinAmount(amount, card.coin, 2)} ${card.coin.symbol} from card`,
           color: 'text-amber-600'
         }
       case 'withdraw':
         return {
           icon: '⬇️',
           label: 'Withdraw',
-          description: `Withdrew ${amount?.toFixed(2)} SUI from card`,
+          description: `Withdrew ${formatCoinAmount(amount, card.coin, 2)} ${card.coin.symbol} from card`,
           color: 'text-blue-600'
         }
       case 'create':
@@ -186,7 +180,7 @@ const TransactionHistory = ({ card }: TransactionHistoryProps) => {
         return {
           icon: '✏️',
           label: 'Update',
-          description: `Spending limit updated to ${amount?.toFixed(2)} SUI`,
+          description: `Spending limit updated to ${formatCoinAmount(amount, card.coin, 2)} ${card.coin.symbol}`,
           color: 'text-purple-600'
         }
       case 'activate':
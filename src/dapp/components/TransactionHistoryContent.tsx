@@ -1,35 +1,24 @@
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { useCurrentAccount } from '@mysten/dapp-kit'
 import { Text, Flex, Button } from '@radix-ui/themes'
-import { useState, useEffect, useCallback } from 'react'
+import { useMemo } from 'react'
 import { 
   RefreshCw, 
   ArrowDown, 
   ArrowUp, 
   Square,
-  CreditCard
+  CreditCard,
+  Gauge,
+  Power,
+  PowerOff,
+  UserRoundCog
 } from 'lucide-react'
-import { SuiEventFilter } from '@mysten/sui/client'
-
-// Import Card type directly to avoid import error
-interface Card {
-  id: string
-  balance: string
-  spendingLimit: string
-  amountSpent: string
-  isActive: boolean
-}
-
-// Mock useCards hook for build to pass
-const useCards = () => {
-  return {
-    cards: [] as Card[],
-    loading: false,
-    refreshCards: () => {}
-  }
-}
-
+import { CARD_EVENT_TYPES, cardEventAmount, cardEventChange } from '~~/dapp/helpers/cardActivity'
+import { formatCoinAmount, UNKNOWN_COIN_INFO } from '~~/dapp/helpers/coins'
+import useCardActivity from '~~/dapp/hooks/useCardActivity'
+import useCardCoinOf from '~~/dapp/hooks/useCardCoinOf'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
-import { CONTRACT_PACKAGE_VARIABLE_NAME, EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
 
 // Match the Transaction interface from Dashboard for consistency
 interface Transaction {
@@ -39,6 +28,9 @@ interface Transaction {
   cardId: string;
   timestamp: string;
   amount: string;
+  symbol: string;
+  // What events that move no funds changed
+  change: string | null;
 }
 
 // Type of transaction events - used in the component implementation
@@ -46,111 +38,36 @@ interface Transaction {
 
 const TransactionHistoryContent = () => {
   const currentAccount = useCurrentAccount()
-  const client = useSuiClient()
-  const { cards } = useCards()
+  const { cardName } = useCardLabels()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
   
-  const [transactions, setTransactions] = useState<Transaction[]>([])
-  const [loading, setLoading] = useState(false)
-  
-  // Fetch transaction data from blockchain
-  const fetchTransactionData = useCallback(async () => {
-    if (!currentAccount || !packageId || cards.length === 0) return
-    
-    setLoading(true)
-    
-    try {
-      // Define the event types to query
-      const eventTypes = [
-        `${packageId}::card::Deposit`,
-        `${packageId}::card::Withdraw`,
-        `${packageId}::card::Spend`,
-        `${packageId}::card::DirectTransfer`,
-        `${packageId}::card::CardCreated`
-      ]
-      
-      const allTransactions: Transaction[] = []
-      
-      // For each event type, fetch events
-      for (const eventType of eventTypes) {
-        const filter: SuiEventFilter = {
-          MoveEventType: eventType
-        }
-        
-        // Fetch events
-        const events = await client.queryEvents({
-          query: filter,
-          limit: 50, // Get the last 50 events
-          order: 'descending'
-        })
-        
-        // Process each event
-        for (const event of events.data) {
-          try {
-            const parsedJson = event.parsedJson ? 
-              (typeof event.parsedJson === 'string' ? 
-                JSON.parse(event.parsedJson) : event.parsedJson) : {}
-                
-            const eventCardId = parsedJson?.card_id
-            
-            // Skip if not related to our cards
-            if (eventCardId && !cards.some((card: Card) => card.id === eventCardId)) {
-              continue
-            }
-            
-            // Determine event type
-            const txType = 
-              eventType.includes('Deposit') ? 'deposit'
-              : eventType.includes('Withdraw') ? 'withdraw'
-              : eventType.includes('Spend') ? 'spend'
-              : eventType.includes('DirectTransfer') ? 'transfer'
-              : 'create'
-            
-            // Get amount in SUI (converted from MIST)
-            const amountMist = parsedJson?.amount || '0'
-            const amountSui = (Number(amountMist) / 1_000_000_000).toFixed(4)
-            
-            // Create transaction item
-            const transaction: Transaction = {
-              id: event.id.txDigest + (event.id.eventSeq?.toString() || '0'),
-              digest: event.id.txDigest,
-              type: txType,
-              cardId: eventCardId || '',
-              timestamp: event.timestampMs?.toString() || Date.now().toString(),
-              amount: amountSui
-            }
-            
-            allTransactions.push(transaction)
-          } catch (error) {
-            console.error('Error processing event:', error)
-          }
+  // Card events of the connected wallet, newest first
+  const { events, loading: eventsLoading, refreshing, refresh } = useCardActivity()
+
+  // Coins of the cards in it, also ones since handed on
+  const eventCardIds = useMemo(() => events.map((event) => event.cardId), [events])
+  const { coinOf, loading: coinsLoading } = useCardCoinOf(eventCardIds)
+  const loading = eventsLoading || coinsLoading
+
+  const transactions = useMemo(
+    () =>
+      events.map((event): Transaction => {
+        // Format the amount in the units of the card's coin
+        const coin = coinOf(event.cardId) ?? UNKNOWN_COIN_INFO
+        return {
+          id: event.id,
+          digest: event.digest,
+          type: CARD_EVENT_TYPES[event.kind],
+          cardId: event.cardId,
+          timestamp: String(event.timestampMs ?? Date.now()),
+          amount: formatCoinAmount(cardEventAmount(event), coin, 4),
+          symbol: coin.symbol,
+          change: cardEventChange(event, coin)
         }
-      }
-      
-      // Sort transactions by timestamp (newest first)
-      allTransactions.sort((a, b) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      )
-      
-      // Update state with the transactions
-      setTransactions(allTransactions)
-      console.log('Fetched transactions:', allTransactions.length)
-      
-    } catch (error) {
-      console.error('Error fetching transaction data:', error)
-    } finally {
-      setLoading(false)
-    }
-  }, [currentAccount, client, packageId, cards])
-  
-  // Initial fetch on component mount
-  useEffect(() => {
-    if (currentAccount) {
-      fetchTransactionData()
-    }
-  }, [currentAccount, fetchTransactionData])
+      }),
+    [events, coinOf]
+  )
   
   // Get transaction icon based on type
   const getTransactionIcon = (type: string) => {
@@ -164,6 +81,14 @@ const TransactionHistoryContent = () => {
         return <CreditCard size={18} className="text-red-400" />
       case 'create':
         return <Square size={18} className="text-blue-400" />
+      case 'limit':
+        return <Gauge size={18} className="text-blue-400" />
+      case 'deactivate':
+        return <PowerOff size={18} className="text-red-400" />
+      case 'activate':
+        return <Power size={18} className="text-green-400" />
+      case 'ownership':
+        return <UserRoundCog size={18} className="text-blue-400" />
       default:
         return <Square size={18} className="text-gray-400" />
     }
@@ -184,7 +109,7 @@ const TransactionHistoryContent = () => {
   }
   
   const handleRefresh = () => {
-    fetchTransactionData()
+    refresh()
   }
   
   const formatTransactionType = (type: string) => {
@@ -199,33 +124,40 @@ const TransactionHistoryContent = () => {
         return 'Transfer'
       case 'create':
         return 'Create Card'
+      case 'limit':
+        return 'Limit Change'
+      case 'deactivate':
+        return 'Deactivate'
+      case 'activate':
+        return 'Reactivate'
+      case 'ownership':
+        return 'Ownership'
       default:
         return type.charAt(0).toUpperCase() + type.slice(1)
     }
   }
   
-  // Get card number based on card ID
-  const getCardNumber = (cardId: string) => {
-    const cardIndex = cards.findIndex((card: Card) => card.id === cardId)
-    return cardIndex !== -1 ? `#${cardIndex}` : 'Unknown'
-  }
-  
   const getTransactionDescription = (tx: Transaction) => {
-    const cardNumber = getCardNumber(tx.cardId)
+    const name = cardName(tx.cardId)
     
     switch (tx.type) {
       case 'deposit':
-        return `${tx.amount} SUI deposited to Card ${cardNumber}`
+        return `${tx.amount} ${tx.symbol} deposited to ${name}`
       case 'withdraw':
-        return `${tx.amount} SUI withdrawn from Card ${cardNumber}`
+        return `${tx.amount} ${tx.symbol} withdrawn from ${name}`
       case 'spend':
-        return `${tx.amount} SUI spent from Card ${cardNumber}`
+        return `${tx.amount} ${tx.symbol} spent from ${name}`
       case 'transfer':
-        return `${tx.amount} SUI transferred from Card ${cardNumber}`
+        return `${tx.amount} ${tx.symbol} transferred from ${name}`
       case 'create':
-        return `Card ${cardNumber} created`
+        return `${name} created`
+      case 'limit':
+      case 'deactivate':
+      case 'activate':
+      case 'ownership':
+        return `${name}: ${tx.change}`
       default:
-        return `Transaction on Card ${cardNumber}`
+        return `Transaction on ${name}`
     }
   }
 
@@ -245,9 +177,9 @@ const TransactionHistoryContent = () => {
           onClick={handleRefresh} 
           variant="soft"
           className="bg-white/10 hover:bg-white/20 text-white"
-          disabled={loading}
+          disabled={refreshing}
         >
-          {loading ? (
+          {refreshing ? (
             <>
               <RefreshCw size={16} className="animate-spin mr-2" />
               Loading...
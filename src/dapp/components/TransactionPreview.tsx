@@ -0,0 +1,232 @@
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { Transaction } from '@mysten/sui/transactions'
+import { parseStructTag } from '@mysten/sui/utils'
+import { Button, Dialog, Flex, Text } from '@radix-ui/themes'
+import { FC } from 'react'
+import {
+  formatCoinAmount,
+  isSuiCoinType,
+  SUI_COIN_INFO,
+} from '~~/dapp/helpers/coins'
+import { TGasEstimate } from '~~/dapp/helpers/gas'
+import { formatSui, Mist } from '~~/dapp/helpers/mist'
+import { previewBalanceChanges, previewEvents } from '~~/dapp/helpers/preview'
+import useSimulatedCard from '~~/dapp/hooks/useSimulatedCard'
+import { ICard } from '~~/dapp/types/ICard'
+
+interface TransactionPreviewProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The exact transaction that will be signed on confirm.
+  tx: Transaction | null
+  card: ICard
+  estimate: TGasEstimate | null
+  isEstimating: boolean
+  onConfirm: () => void
+}
+
+// Event fields that hold an amount of the card's coin.
+const AMOUNT_FIELDS = [
+  'amount',
+  'new_balance',
+  'total_spent',
+  'spending_limit',
+  'old_limit',
+  'new_limit',
+]
+
+const shortAddress = (address: string) =>
+  `${address.substring(0, 6)}...${address.slice(-4)}`
+
+/**
+ * Shows what a transaction will do, as simulated on the network, before the
+ * wallet asks for a signature
+ */
+const TransactionPreview: FC<TransactionPreviewProps> = ({
+  open,
+  onOpenChange,
+  tx,
+  card,
+  estimate,
+  isEstimating,
+  onConfirm,
+}) => {
+  const currentAccount = useCurrentAccount()
+  const simulated = useSimulatedCard(open ? tx : null, card)
+
+  const formatCard = (value: Mist) =>
+    `${formatCoinAmount(value, card.coin)} ${card.coin.symbol}`
+
+  const formatChange = (amount: Mist, coinType: string) => {
+    const sign = amount > 0n ? '+' : '-'
+    const abs = amount < 0n ? -amount : amount
+    const coin =
+      coinType === card.coin.coinType
+        ? card.coin
+        : isSuiCoinType(coinType)
+          ? SUI_COIN_INFO
+          : null
+
+    return coin
+      ? `${sign}${formatCoinAmount(abs, coin)} ${coin.symbol}`
+      : `${sign}${abs} ${parseStructTag(coinType).name} (base units)`
+  }
+
+  const formatField = (key: string, value: unknown) =>
+    AMOUNT_FIELDS.includes(key) && typeof value === 'string'
+      ? formatCard(BigInt(value))
+      : typeof value === 'string' && value.startsWith('0x')
+        ? shortAddress(value)
+        : String(value)
+
+  const dryRun = estimate?.dryRun
+  const balanceChanges = dryRun ? previewBalanceChanges(dryRun) : []
+  const events = dryRun ? previewEvents(dryRun) : []
+  const isReady = !isEstimating && !simulated.isLoading && estimate != null
+
+  const { after } = simulated
+
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Content>
+        <Dialog.Title>Review Transaction</Dialog.Title>
+        <Dialog.Description size="2" mb="4">
+          Simulated on the network. Nothing is signed until you confirm.
+        </Dialog.Description>
+
+        {!isReady ? (
+          <Text as="div" size="2" className="py-6 text-center text-gray-600">
+            Simulating transaction...
+          </Text>
+        ) : (
+          <Flex direction="column" gap="3">
+            <div className="rounded-lg border border-blue-100 bg-blue-50 p-4">
+              <Text
+                as="div"
+                size="2"
+                weight="medium"
+                className="mb-2 text-gray-800"
+              >
+                Card {shortAddress(card.id)}
+              </Text>
+              {after ? (
+                <div className="grid grid-cols-3 gap-2 text-sm text-gray-700">
+                  <span />
+                  <span className="text-gray-500">Before</span>
+                  <span className="text-gray-500">After</span>
+                  <span>Balance</span>
+                  <span>{formatCard(card.balance)}</span>
+                  <span className="font-medium text-blue-600">
+                    {formatCard(after.balance)}
+                  </span>
+                  <span>Spent</span>
+                  <span>{formatCard(card.amountSpent)}</span>
+                  <span className="font-medium text-blue-600">
+                    {formatCard(after.amountSpent)}
+                  </span>
+                  <span>Limit</span>
+                  <span>{formatCard(card.spendingLimit)}</span>
+                  <span className="font-medium text-blue-600">
+                    {formatCard(after.spendingLimit)}
+                  </span>
+                </div>
+              ) : (
+                <Text as="div" size="1" className="text-red-500">
+                  Could not simulate the card: {simulated.error}
+                </Text>
+              )}
+            </div>
+
+            {balanceChanges.length > 0 && (
+              <div>
+                <Text
+                  as="div"
+                  size="2"
+                  weight="medium"
+                  className="mb-1 text-gray-800"
+                >
+                  Balance changes
+                </Text>
+                {balanceChanges.map((change) => (
+                  <Flex
+                    key={`${change.owner}-${change.coinType}`}
+                    justify="between"
+                    className="text-sm text-gray-700"
+                  >
+                    <span>
+                      {change.owner === currentAccount?.address
+                        ? 'Your wallet'
+                        : shortAddress(change.owner)}
+                    </span>
+                    <span
+                      className={
+                        change.amount > 0n ? 'text-green-600' : 'text-gray-800'
+                      }
+                    >
+                      {formatChange(change.amount, change.coinType)}
+                    </span>
+                  </Flex>
+                ))}
+              </div>
+            )}
+
+            {events.length > 0 && (
+              <div>
+                <Text
+                  as="div"
+                  size="2"
+                  weight="medium"
+                  className="mb-1 text-gray-800"
+                >
+                  Events
+                </Text>
+                {events.map((event, index) => (
+                  <Text as="div" key={index} size="1" className="text-gray-600">
+                    <span className="font-medium text-gray-800">
+                      {event.name}
+                    </span>{' '}
+                    {Object.entries(event.fields)
+                      .map(
+                        ([key, value]) => `${key}: ${formatField(key, value)}`
+                      )
+                      .join(', ')}
+                  </Text>
+                ))}
+              </div>
+            )}
+
+            {estimate.ok ? (
+              <Text as="div" size="2" className="text-gray-700">
+                Network fee: {formatSui(estimate.fee)} SUI (budget{' '}
+                {formatSui(estimate.budget)} SUI)
+              </Text>
+            ) : (
+              <Text as="div" size="2" className="text-red-500">
+                The simulation failed, so the transaction is likely to fail if
+                you sign it: {estimate.reason}
+              </Text>
+            )}
+          </Flex>
+        )}
+
+        <Flex gap="3" mt="4" justify="end">
+          <Dialog.Close>
+            <Button variant="soft" color="gray">
+              Back
+            </Button>
+          </Dialog.Close>
+          <Button
+            variant="solid"
+            color={estimate?.ok === false ? 'red' : 'blue'}
+            onClick={onConfirm}
+            disabled={!isReady}
+          >
+            {estimate?.ok === false ? 'Sign anyway' : 'Confirm and sign'}
+          </Button>
+        </Flex>
+      </Dialog.Content>
+    </Dialog.Root>
+  )
+}
+
+export default TransactionPreview
@@ -1,73 +1,71 @@
 import { useCurrentAccount } from '@mysten/dapp-kit'
-import useTransact from '@suiware/kit/useTransact'
-import { FormEvent, useState, useEffect } from 'react'
+import { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { FormEvent, useState, useEffect, useMemo, useRef } from 'react'
 import { Loader2, X, ArrowRight, SendHorizontal } from 'lucide-react'
-import {
-  CONTRACT_PACKAGE_VARIABLE_NAME,
-  EXPLORER_URL_VARIABLE_NAME,
-} from '~~/config/network'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { formatCoinAmount, parseCoinAmount } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
 import { prepareDirectTransferTransaction } from '~~/dapp/helpers/transactions'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import GasEstimate from '~~/dapp/components/GasEstimate'
+import TransactionPreview from '~~/dapp/components/TransactionPreview'
+import { applyGasEstimate } from '~~/dapp/helpers/gas'
+import useGasEstimate from '~~/dapp/hooks/useGasEstimate'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 interface TransferCardFormProps {
-  card: CardData;
+  card: ICard;
   onSuccess?: () => void;
 }
 
 const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
   const currentAccount = useCurrentAccount()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const safetyPolicy = useSafetyPolicy()
+  const policy = safetyPolicy.policyFor(card.coin)
   const [transferAmount, setTransferAmount] = useState<string>('0.01')
   const [recipientAddress, setRecipientAddress] = useState<string>('')
   const [notificationId, setNotificationId] = useState<string>()
+  // Amount of the transaction in flight, recorded against the daily cap on success
+  const pendingAmount = useRef<Mist>(0n)
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
   const [addressError, setAddressError] = useState<string>('')
 
-  // Calculate available amount to transfer - just based on balance, no spending limit
-  console.log('Card balance:', card.balance)
-
   // Create a subscription to the transaction status
-  const { transact: transfer } = useTransact({
+  const { transact: transfer } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
       setIsLoading(true)
     },
     onSuccess: (
-      data,
-      _response
+      data: SuiSignAndExecuteTransactionOutput,
+      _response: SuiTransactionBlockResponse
     ) => {
       notification.txSuccess(
         transactionUrl(explorerUrl, data.digest),
         notificationId
       )
+      safetyPolicy.record('directTransfer', pendingAmount.current, card.coin)
       
       setIsOpen(false)
       setIsLoading(false)
       
-      // Wait for 2 seconds to allow blockchain state to update, then call refresh callback
-      setTimeout(() => {
-        if (onSuccess) {
-          onSuccess()
-        }
-      }, 2000)
+      if (onSuccess) {
+        onSuccess()
+      }
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
       setIsLoading(false)
     },
     waitForTransactionOptions: {
@@ -85,21 +83,45 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
     return /^0x[a-fA-F0-9]{64}$/.test(address);
   }
 
+  // Dry-run what would be submitted so the fee can be shown before signing
+  const previewTx = useMemo(() => {
+    if (!isOpen || !validateSuiAddress(recipientAddress)) return null
+    try {
+      return prepareDirectTransferTransaction(card.version, card.id, card.coin, parseCoinAmount(transferAmount, card.coin), recipientAddress, policy)
+    } catch {
+      return null
+    }
+  }, [isOpen, card.version, card.id, card.coin, transferAmount, recipientAddress, policy])
+  const { estimate, isEstimating } = useGasEstimate(previewTx)
+
   const handleTransferSubmit = (e: FormEvent) => {
     e.preventDefault()
     setAddressError('')
 
+    let amount: Mist
+    try {
+      amount = parseCoinAmount(transferAmount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
     // Validate amount
-    if (!transferAmount || Number(transferAmount) <= 0) {
+    if (amount <= 0n) {
       notification.error(new Error('Please enter a valid amount to transfer'))
       return
     }
     
-    const transferAmountNum = Number(transferAmount)
-    
     // Check against card balance
-    if (transferAmountNum > card.balance) {
-      notification.error(new Error(`Amount exceeds your card balance of ${card.balance.toFixed(2)} SUI`))
+    if (amount > card.balance) {
+      notification.error(new Error(`Amount exceeds your card balance of ${formatCoinAmount(card.balance, card.coin)} ${card.coin.symbol}`))
+      return
+    }
+
+    try {
+      safetyPolicy.check('directTransfer', amount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
       return
     }
 
@@ -109,8 +131,23 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
       return
     }
 
+    if (!safetyPolicy.confirm(amount, card.coin)) {
+      return
+    }
+
+    pendingAmount.current = amount
+    setIsPreviewOpen(true)
+  }
+
+  const handleConfirm = () => {
+    setIsPreviewOpen(false)
+
     // Use the direct transfer function to bypass spending limit checks
-    transfer(prepareDirectTransferTransaction(packageId, card.id, transferAmount, recipientAddress))
+    try {
+      transfer(applyGasEstimate(prepareDirectTransferTransaction(card.version, card.id, card.coin, pendingAmount.current, recipientAddress, policy), estimate))
+    } catch (error) {
+      notification.error(error as Error)
+    }
   }
 
   // Handle escape key press
@@ -129,7 +166,7 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
       <button
         className="px-4 py-2 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-xl text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center gap-2"
         onClick={handleOpenDialog}
-        disabled={!card.isActive || card.balance <= 0}
+        disabled={!card.isActive || card.balance <= 0n}
       >
         <SendHorizontal size={16} />
         Spend
@@ -155,7 +192,7 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
               <Loader2 size={32} className="animate-spin text-blue-500" />
               <p className="text-white">Processing transaction...</p>
             </div>
-          ) : card.balance <= 0 ? (
+          ) : card.balance <= 0n ? (
             <div className="p-6 rounded-lg bg-red-900/30 border border-red-500/20 text-center">
               <p className="text-blue-100">
                 Your card has insufficient balance for a transfer.
@@ -167,7 +204,7 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
                   <div className="bg-white/10 backdrop-blur-lg rounded-xl p-4 border border-white/20">
                     <p className="text-blue-200 text-sm mb-1">Available Balance</p>
                     <p className="text-white text-xl font-bold">
-                      {card.balance.toFixed(2)} SUI
+                      {formatCoinAmount(card.balance, card.coin)} {card.coin.symbol}
                     </p>
                   </div>
                 </div>
@@ -197,7 +234,7 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
                 
                 <div className="mb-4">
                   <label htmlFor="transfer-amount" className="block mb-2 text-white/80 text-sm">
-                    Spend Amount (SUI)
+                    Spend Amount ({card.coin.symbol})
                   </label>
                   <div className="relative">
                     <input
@@ -206,14 +243,14 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
                       className="w-full rounded-xl border border-white/20 bg-white/5 backdrop-blur-sm px-4 py-3 text-white placeholder-white/30 focus:border-blue-500 focus:outline-none"
                       value={transferAmount}
                       onChange={(e) => setTransferAmount(e.target.value)}
-                      step="0.001"
-                      min="0.001"
-                      max={card.balance}
+                      step="any"
+                      min={formatCoinAmount(policy.operations.directTransfer.min, card.coin)}
+                      max={formatCoinAmount(card.balance, card.coin)}
                       placeholder="0.00"
                       required
                     />
                     <div className="absolute right-3 top-1/2 -translate-y-1/2 text-white/50">
-                      SUI
+                      {card.coin.symbol}
                     </div>
                   </div>
                 </div>
@@ -223,12 +260,14 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
                     <p className="text-blue-300 font-medium mb-2">Note:</p>
                     <ul className="list-disc list-inside space-y-1 text-sm text-blue-200/80">
                       <li>This will transfer funds directly without spending limit checks</li>
-                      <li>For testing, transfers are limited to 0.001-0.2 SUI</li>
+                      <li>{safetyPolicy.describe('directTransfer', card.coin)}</li>
                       <li>Each transaction requires a sufficient gas budget</li>
                     </ul>
                   </div>
                 </div>
 
+                <GasEstimate estimate={estimate} isEstimating={isEstimating} />
+
                 <div className="flex items-center justify-end gap-3 pt-4">
                   <button
                     type="button"
@@ -252,6 +291,16 @@ const TransferCardForm = ({ card, onSuccess }: TransferCardFormProps) => {
           </div>
         </div>
       )}
+
+      <TransactionPreview
+        open={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        tx={previewTx}
+        card={card}
+        estimate={estimate}
+        isEstimating={isEstimating}
+        onConfirm={handleConfirm}
+      />
     </>
   )
 }
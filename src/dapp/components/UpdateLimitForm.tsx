@@ -1,54 +1,44 @@
 import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
 import { Button, Text, Dialog, Flex } from '@radix-ui/themes'
-import useTransact from '@suiware/kit/useTransact'
 import { FormEvent, useState, ChangeEvent } from 'react'
-import {
-  CONTRACT_PACKAGE_VARIABLE_NAME,
-  EXPLORER_URL_VARIABLE_NAME,
-} from '~~/config/network'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { formatCoinAmount, parseCoinAmount } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
 import { prepareUpdateSpendingLimitTransaction } from '~~/dapp/helpers/transactions'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 interface UpdateLimitFormProps {
-  card: CardData;
+  card: ICard;
   onSuccess?: () => void;
 }
 
 const UpdateLimitForm = ({ card, onSuccess }: UpdateLimitFormProps) => {
   const currentAccount = useCurrentAccount()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
   
-  // Convert from MIST to SUI for display
-  const currentLimitSui = card.spendingLimit / 1_000_000_000
-  
-  const [newLimit, setNewLimit] = useState<string>(currentLimitSui.toString())
+  const [newLimit, setNewLimit] = useState<string>(formatCoinAmount(card.spendingLimit, card.coin))
   const [notificationId, setNotificationId] = useState<string>()
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
   // Create a subscription to the transaction status
-  const { transact: updateLimit } = useTransact({
+  const { transact: updateLimit } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
       setIsLoading(true)
     },
     onSuccess: (
-      data,
-      _response
+      data: SuiSignAndExecuteTransactionOutput,
+      _response: SuiTransactionBlockResponse
     ) => {
       notification.txSuccess(
         transactionUrl(explorerUrl, data.digest),
@@ -58,15 +48,12 @@ const UpdateLimitForm = ({ card, onSuccess }: UpdateLimitFormProps) => {
       setIsOpen(false)
       setIsLoading(false)
       
-      // Wait for 2 seconds to allow blockchain state to update, then call refresh callback
-      setTimeout(() => {
-        if (onSuccess) {
-          onSuccess()
-        }
-      }, 2000)
+      if (onSuccess) {
+        onSuccess()
+      }
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
       setIsLoading(false)
     },
     waitForTransactionOptions: {
@@ -75,21 +62,29 @@ const UpdateLimitForm = ({ card, onSuccess }: UpdateLimitFormProps) => {
   })
 
   const handleOpenDialog = async () => {
-    setNewLimit(currentLimitSui.toString())
+    setNewLimit(formatCoinAmount(card.spendingLimit, card.coin))
     setIsOpen(true)
   }
 
   const handleUpdateLimit = (e: FormEvent) => {
     e.preventDefault()
 
+    let limit: Mist
+    try {
+      limit = parseCoinAmount(newLimit, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
     // Validate amount
-    if (!newLimit || Number(newLimit) <= 0) {
+    if (limit <= 0n) {
       notification.error(new Error('Please enter a valid spending limit'))
       return
     }
     
     // Update the spending limit
-    updateLimit(prepareUpdateSpendingLimitTransaction(packageId, card.id, newLimit))
+    updateLimit(prepareUpdateSpendingLimitTransaction(card.version, card.id, card.coin.coinType, limit))
   }
 
   if (!currentAccount) return null
@@ -121,13 +116,13 @@ const UpdateLimitForm = ({ card, onSuccess }: UpdateLimitFormProps) => {
               <Flex direction="column" gap="3">
                 <div className="mb-3">
                   <Text as="div" size="2" className="block mb-1">
-                    <span className="font-medium">Current Limit:</span> {currentLimitSui.toFixed(2)} SUI
+                    <span className="font-medium">Current Limit:</span> {formatCoinAmount(card.spendingLimit, card.coin)} {card.coin.symbol}
                   </Text>
                 </div>
                 
                 <div className="mb-3">
                   <Text as="label" htmlFor="new-limit" size="2" className="block mb-1">
-                    New Spending Limit (SUI)
+                    New Spending Limit ({card.coin.symbol})
                   </Text>
                   <input
                     id="new-limit"
@@ -0,0 +1,104 @@
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils'
+import { Button, Flex, Popover, Text, TextField } from '@radix-ui/themes'
+import { Eye, X } from 'lucide-react'
+import { FormEvent, useState } from 'react'
+import { useNavigate } from 'react-router'
+import { WATCH_PATH } from '~~/dapp/config/watch'
+import useWatchlist from '~~/dapp/hooks/useWatchlist'
+
+const truncateAddress = (address: string) =>
+  `${address.substring(0, 6)}...${address.substring(address.length - 4)}`
+
+/**
+ * Opens the dashboard of any address read-only, without a wallet. Watched
+ * addresses are saved on this device for later.
+ */
+const WatchAddressForm = () => {
+  const navigate = useNavigate()
+  const { addresses, add, remove } = useWatchlist()
+  const [isOpen, setIsOpen] = useState(false)
+  const [address, setAddress] = useState('')
+
+  const normalized = normalizeSuiAddress(address.trim())
+  const isValid = address.trim() !== '' && isValidSuiAddress(normalized)
+
+  const watch = (watched: string) => {
+    setIsOpen(false)
+    setAddress('')
+    navigate(`${WATCH_PATH}/${watched}`)
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (!isValid) return
+
+    add(normalized)
+    watch(normalized)
+  }
+
+  return (
+    <Popover.Root open={isOpen} onOpenChange={setIsOpen}>
+      <Popover.Trigger>
+        <button
+          className="flex items-center gap-1 text-sm px-3 py-2 rounded-md bg-gray-50 text-gray-700 border border-gray-100 hover:bg-gray-100 transition-all duration-200"
+          title="Watch an address"
+        >
+          <Eye size={14} />
+        </button>
+      </Popover.Trigger>
+      <Popover.Content width="360px">
+        <form onSubmit={handleSubmit}>
+          <Text as="div" size="2" weight="medium" mb="2">
+            Watch an address
+          </Text>
+          <Flex gap="2">
+            <TextField.Root
+              className="flex-grow"
+              placeholder="0x..."
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+            />
+            <Button type="submit" disabled={!isValid}>
+              Watch
+            </Button>
+          </Flex>
+          {address.trim() !== '' && !isValid && (
+            <Text as="div" size="1" color="red" mt="1">
+              Not a valid Sui address
+            </Text>
+          )}
+        </form>
+
+        {addresses.length > 0 && (
+          <Flex direction="column" gap="1" mt="3">
+            <Text size="1" color="gray">
+              Saved addresses
+            </Text>
+            {addresses.map((saved) => (
+              <Flex key={saved} justify="between" align="center">
+                <button
+                  type="button"
+                  className="font-mono text-sm text-blue-600 hover:underline"
+                  onClick={() => watch(saved)}
+                  title={saved}
+                >
+                  {truncateAddress(saved)}
+                </button>
+                <button
+                  type="button"
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  onClick={() => remove(saved)}
+                  title="Remove"
+                >
+                  <X size={14} />
+                </button>
+              </Flex>
+            ))}
+          </Flex>
+        )}
+      </Popover.Content>
+    </Popover.Root>
+  )
+}
+
+export default WatchAddressForm
@@ -1,74 +1,82 @@
 import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
 import { Button, Text, Dialog, Flex } from '@radix-ui/themes'
-import useTransact from '@suiware/kit/useTransact'
-import { FormEvent, useState } from 'react'
-import {
-  CONTRACT_PACKAGE_VARIABLE_NAME,
-  EXPLORER_URL_VARIABLE_NAME,
-} from '~~/config/network'
+import { FormEvent, useMemo, useRef, useState } from 'react'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { formatCoinAmount, parseCoinAmount } from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { minMist, Mist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
 import { prepareWithdrawTransaction } from '~~/dapp/helpers/transactions'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import GasEstimate from '~~/dapp/components/GasEstimate'
+import TransactionPreview from '~~/dapp/components/TransactionPreview'
+import { applyGasEstimate } from '~~/dapp/helpers/gas'
+import useGasEstimate from '~~/dapp/hooks/useGasEstimate'
 import { transactionUrl } from '~~/helpers/network'
 import { notification } from '~~/helpers/notification'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 interface WithdrawFormProps {
-  card: CardData;
+  card: ICard;
   onSuccess?: () => void;
 }
 
 const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
   const currentAccount = useCurrentAccount()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
-  
-  // The card.balance is already in SUI format from our CardList component's processing
-  // so we don't need additional conversion here
-  const balanceSui = card.balance
+  const safetyPolicy = useSafetyPolicy()
+  const policy = safetyPolicy.policyFor(card.coin)
   
   const [withdrawAmount, setWithdrawAmount] = useState<string>('')
   const [notificationId, setNotificationId] = useState<string>()
+  // Amount of the transaction in flight, recorded against the daily cap on success
+  const pendingAmount = useRef<Mist>(0n)
   const [isOpen, setIsOpen] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+
+  // Dry-run what would be submitted so the fee can be shown before signing
+  const previewTx = useMemo(() => {
+    if (!isOpen) return null
+    try {
+      return prepareWithdrawTransaction(card.version, card.id, card.coin, parseCoinAmount(withdrawAmount, card.coin), policy)
+    } catch {
+      return null
+    }
+  }, [isOpen, card.version, card.id, card.coin, withdrawAmount, policy])
+  const { estimate, isEstimating } = useGasEstimate(previewTx)
 
   // Create a subscription to the transaction status
-  const { transact: withdraw } = useTransact({
+  const { transact: withdraw } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
       setIsLoading(true)
     },
     onSuccess: (
-      data,
-      _response
+      data: SuiSignAndExecuteTransactionOutput,
+      _response: SuiTransactionBlockResponse
     ) => {
       notification.txSuccess(
         transactionUrl(explorerUrl, data.digest),
         notificationId
       )
+      safetyPolicy.record('withdraw', pendingAmount.current, card.coin)
       
       setIsOpen(false)
       setIsLoading(false)
       setWithdrawAmount('')
       
-      // Wait for 2 seconds to allow blockchain state to update, then call refresh callback
-      setTimeout(() => {
-        if (onSuccess) {
-          onSuccess()
-        }
-      }, 2000)
+      if (onSuccess) {
+        onSuccess()
+      }
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
       setIsLoading(false)
     },
     waitForTransactionOptions: {
@@ -84,44 +92,47 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
   const handleWithdrawSubmit = (e: FormEvent) => {
     e.preventDefault()
 
+    let amount: Mist
+    try {
+      amount = parseCoinAmount(withdrawAmount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
     // Validate amount
-    if (!withdrawAmount || Number(withdrawAmount) <= 0) {
+    if (amount <= 0n) {
       notification.error(new Error('Please enter a valid amount to withdraw'))
       return
     }
     
-    const withdrawAmountNum = Number(withdrawAmount)
-    
-    // Reserve at least 0.001 SUI for transaction
-    const minAmount = 0.001
-    if (withdrawAmountNum < minAmount) {
-      notification.error(new Error(`Minimum withdrawal amount is ${minAmount} SUI`))
+    try {
+      safetyPolicy.check('withdraw', amount, card.coin)
+    } catch (error) {
+      notification.error(error as Error)
       return
     }
     
-    // Cap at max 0.5 SUI for testing to be safe
-    const maxAmount = 0.5
-    if (withdrawAmountNum > maxAmount) {
-      notification.error(new Error(`For testing, withdrawals are limited to ${maxAmount} SUI maximum`))
+    // Check against balance
+    if (amount > card.balance) {
+      notification.error(new Error(`Withdrawal amount exceeds available balance (${formatCoinAmount(card.balance, card.coin)} ${card.coin.symbol})`))
       return
     }
     
-    // Check against balance
-    if (withdrawAmountNum > balanceSui) {
-      notification.error(new Error(`Withdrawal amount exceeds available balance (${balanceSui.toFixed(4)} SUI)`))
+    if (!safetyPolicy.confirm(amount, card.coin)) {
       return
     }
-    
+
+    pendingAmount.current = amount
+    setIsPreviewOpen(true)
+  }
+
+  const handleConfirm = () => {
+    setIsPreviewOpen(false)
+
     try {
-      console.log('Creating withdrawal transaction:')
-      console.log('- Package ID:', packageId)
-      console.log('- Card ID:', card.id)
-      console.log('- Withdraw amount:', withdrawAmountNum, 'SUI')
-      
-      // Process withdrawal with our enhanced transaction helper
-      // Pass the numeric value directly to avoid string-to-number conversion issues
-      const tx = prepareWithdrawTransaction(packageId, card.id, withdrawAmountNum)
-      withdraw(tx)
+      const tx = prepareWithdrawTransaction(card.version, card.id, card.coin, pendingAmount.current, policy)
+      withdraw(applyGasEstimate(tx, estimate))
     } catch (error) {
       console.error('Error preparing withdraw transaction:', error)
       notification.error(new Error('Failed to prepare withdraw transaction'))
@@ -129,10 +140,9 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
   }
 
   const handleMaxClick = () => {
-    // Set to either balance or max test amount (0.5 SUI), whichever is smaller
-    const maxTestAmount = 0.5
-    const maxAmount = Math.min(balanceSui, maxTestAmount)
-    setWithdrawAmount(maxAmount.toString())
+    // Set to either the balance or the policy maximum, whichever is smaller
+    const maxAmount = minMist(card.balance, policy.operations.withdraw.max)
+    setWithdrawAmount(formatCoinAmount(maxAmount, card.coin))
   }
 
   if (!currentAccount) return null
@@ -144,7 +154,7 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
         variant="soft"
         size="2"
         onClick={handleOpenDialog}
-        disabled={card.balance <= 0}
+        disabled={card.balance <= 0n}
       >
         Withdraw
       </Button>
@@ -153,7 +163,7 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
         <Dialog.Content>
           <Dialog.Title>Withdraw Funds</Dialog.Title>
           <Dialog.Description size="2" mb="4">
-            Withdraw SUI from your card to your wallet
+            Withdraw {card.coin.symbol} from your card to your wallet
           </Dialog.Description>
 
           {isLoading ? (
@@ -163,7 +173,7 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
               </div>
               <Text className="text-gray-600 mt-2">Processing transaction...</Text>
             </div>
-          ) : card.balance <= 0 ? (
+          ) : card.balance <= 0n ? (
             <div className="rounded-lg bg-blue-50 p-4 text-center">
               <Text className="text-blue-600">
                 Your card has no balance to withdraw.
@@ -177,20 +187,20 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
                     Available Balance
                   </Text>
                   <Text as="div" size="4" className="font-semibold text-blue-600">
-                    {balanceSui.toFixed(2)} SUI
+                    {formatCoinAmount(card.balance, card.coin)} {card.coin.symbol}
                   </Text>
                 </div>
                 
                 <div className="mb-3">
                   <Text as="div" size="2" className="text-blue-600 font-semibold mb-1">
-                    Note: For testing, withdrawals are limited to 0.5 SUI max
+                    {safetyPolicy.describe('withdraw', card.coin)}
                   </Text>
                 </div>
                 
                 <div className="mb-3">
                   <div className="flex justify-between items-center mb-1">
                     <Text as="label" htmlFor="withdraw-amount" size="2">
-                      Withdraw Amount (SUI)
+                      Withdraw Amount ({card.coin.symbol})
                     </Text>
                     <Button 
                       type="button" 
@@ -208,13 +218,14 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
                     className="w-full rounded-md border border-gray-200 px-3 py-2 text-white focus:border-blue-500 focus:outline-none focus:ring-blue-500"
                     value={withdrawAmount}
                     onChange={(e) => setWithdrawAmount(e.target.value)}
-                    step="0.001"
-                    min="0.001"
-                    max="0.5"
+                    step="any"
+                    min={formatCoinAmount(policy.operations.withdraw.min, card.coin)}
                     required
                   />
                 </div>
 
+                <GasEstimate estimate={estimate} isEstimating={isEstimating} />
+
                 <div className="flex justify-end gap-3 mt-4">
                   <Button type="button" variant="soft" color="gray" onClick={() => setIsOpen(false)}>
                     Cancel
@@ -228,6 +239,16 @@ const WithdrawForm = ({ card, onSuccess }: WithdrawFormProps) => {
           )}
         </Dialog.Content>
       </Dialog.Root>
+
+      <TransactionPreview
+        open={isPreviewOpen}
+        onOpenChange={setIsPreviewOpen}
+        tx={previewTx}
+        card={card}
+        estimate={estimate}
+        isEstimating={isEstimating}
+        onConfirm={handleConfirm}
+      />
     </>
   )
 }
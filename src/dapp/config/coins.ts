@@ -0,0 +1,37 @@
+import { ENetwork } from '~~/types/ENetwork'
+
+// Circle's native USDC.
+export const TESTNET_USDC_COIN_TYPE =
+  '0xa1ec7fc00a6f40db9693ad1415d0c193ad3906494428cf252621037bd7117e29::usdc::USDC'
+export const MAINNET_USDC_COIN_TYPE =
+  '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC'
+export const USDC_DECIMALS = 6
+
+// Coins a new card can hold, besides SUI. USDC is listed where it exists;
+// VITE_CARD_COIN_TYPES (comma separated) adds more on any network.
+export const CARD_COIN_TYPES: Record<ENetwork, string[]> = {
+  [ENetwork.LOCALNET]: [],
+  [ENetwork.DEVNET]: [],
+  [ENetwork.TESTNET]: [TESTNET_USDC_COIN_TYPE],
+  [ENetwork.MAINNET]: [MAINNET_USDC_COIN_TYPE],
+}
+
+export const EXTRA_CARD_COIN_TYPES = (
+  import.meta.env.VITE_CARD_COIN_TYPES || ''
+)
+  .split(',')
+  .map((coinType: string) => coinType.trim())
+  .filter(Boolean)
+
+// The test-coin package publishes test_coin::test_coin::TEST_COIN, a freely
+// mintable stand-in for real assets. It is published apart from the card
+// package, and offered where VITE_<NETWORK>_TEST_COIN_PACKAGE_ID names it.
+// There is none on mainnet.
+export const TEST_COIN_PACKAGE_IDS: Record<ENetwork, string | undefined> = {
+  [ENetwork.LOCALNET]: import.meta.env.VITE_LOCALNET_TEST_COIN_PACKAGE_ID,
+  [ENetwork.DEVNET]: import.meta.env.VITE_DEVNET_TEST_COIN_PACKAGE_ID,
+  [ENetwork.TESTNET]: import.meta.env.VITE_TESTNET_TEST_COIN_PACKAGE_ID,
+  [ENetwork.MAINNET]: undefined,
+}
+export const TEST_COIN_MODULE_NAME = 'test_coin'
+export const TEST_COIN_STRUCT_NAME = 'TEST_COIN'
@@ -0,0 +1,6 @@
+// How often cards are checked for changes made outside this tab, e.g. from
+// another device. Public RPC nodes no longer serve event subscriptions, so the
+// events are polled.
+export const CARD_EVENTS_POLL_INTERVAL_MS = Number(
+  import.meta.env.VITE_CARD_EVENTS_POLL_INTERVAL_MS || 5000
+)
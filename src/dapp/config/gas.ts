@@ -0,0 +1,8 @@
+// Extra headroom added on top of the dry-run gas cost, in percent.
+export const GAS_BUDGET_MARGIN_PERCENT = Number(
+  import.meta.env.VITE_GAS_BUDGET_MARGIN_PERCENT || 20
+)
+// Budget used only for the estimation dry run (same ceiling the SDK uses).
+export const DRY_RUN_GAS_BUDGET = 50_000_000_000n
+// How long to wait after the last input change before dry-running again.
+export const GAS_ESTIMATE_DEBOUNCE_MS = 400
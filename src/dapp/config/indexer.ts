@@ -0,0 +1,6 @@
+// Event indexer to load card history from instead of the full node, e.g. the
+// local one in server/indexer (http://localhost:3040). History is only read
+// from an indexer when this is set.
+export const INDEXER_URL = import.meta.env.VITE_INDEXER_URL || undefined
+// Where the user's choice to load history from the full node instead is kept.
+export const INDEXER_ENABLED_STORAGE_KEY = 'indexerEnabled'
@@ -0,0 +1,29 @@
+// Where card labels are kept.
+export const CARD_LABELS_STORAGE_KEY = 'cardLabels'
+// Bumped when the exported file changes shape, so old files can still be read.
+export const CARD_LABELS_FILE_VERSION = 1
+
+// Radix accent colors offered for labels.
+export const CARD_LABEL_COLORS = [
+  'gray',
+  'blue',
+  'green',
+  'orange',
+  'red',
+  'purple',
+  'pink',
+  'cyan',
+] as const
+export type TCardLabelColor = (typeof CARD_LABEL_COLORS)[number]
+
+export const CARD_LABEL_ICONS = [
+  'credit-card',
+  'wallet',
+  'briefcase',
+  'plane',
+  'shopping-cart',
+  'utensils',
+  'users',
+  'star',
+] as const
+export type TCardLabelIcon = (typeof CARD_LABEL_ICONS)[number]
@@ -0,0 +1,32 @@
+import { ICardDeployment } from '~~/dapp/types/ICardDeployment'
+import { ENetwork } from '~~/types/ENetwork'
+
+// Earlier deployments of the card contract per network, oldest first. Cards
+// created with them are still discovered and can be migrated to the current
+// deployment, which is the one holding the configured contract package id
+// (VITE_<NETWORK>_CONTRACT_PACKAGE_ID) and does not have to be listed here.
+//
+// After `sui client upgrade`, add the new package id to the end of the
+// deployment it upgrades. After a fresh publish, add the previous deployment
+// here before changing the configured package id.
+export const CARD_PACKAGE_LINEAGE: Record<ENetwork, ICardDeployment[]> = {
+  [ENetwork.LOCALNET]: [],
+  [ENetwork.DEVNET]: [],
+  [ENetwork.TESTNET]: [
+    {
+      label: 'v1',
+      packageIds: [
+        '0xa298e9c426fd132887db5e8eb9297c74ce88cdb318fa4b7d22045b447ea0dc3e',
+      ],
+      generic: false,
+    },
+    {
+      label: 'v2',
+      packageIds: [
+        '0x4fc02416d8a5e280bd5d640435378fdb2ec786748dbb1d52884da4784d5fa2ec',
+      ],
+      generic: false,
+    },
+  ],
+  [ENetwork.MAINNET]: [],
+}
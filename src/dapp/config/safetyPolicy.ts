@@ -0,0 +1,110 @@
+import { SUI_TYPE_ARG } from '@mysten/sui/utils'
+import {
+  MAINNET_USDC_COIN_TYPE,
+  TESTNET_USDC_COIN_TYPE,
+  USDC_DECIMALS,
+} from '~~/dapp/config/coins'
+import { parseAmount, parseSui, U64_MAX } from '~~/dapp/helpers/mist'
+import { ISafetyPolicy } from '~~/dapp/types/ISafetyPolicy'
+import { ENetwork } from '~~/types/ENetwork'
+
+const usdc = (value: string) => parseAmount(value, USDC_DECIMALS)
+
+const LOCALNET_POLICY: ISafetyPolicy = {
+  operations: {
+    deposit: { min: 1n, max: U64_MAX },
+    withdraw: { min: 1n, max: U64_MAX },
+    spend: { min: 1n, max: U64_MAX },
+    directTransfer: { min: 1n, max: U64_MAX },
+  },
+  dailyCap: { amount: U64_MAX, operations: [] },
+  confirmationThreshold: U64_MAX,
+}
+
+const TEST_NETWORK_POLICY: ISafetyPolicy = {
+  operations: {
+    deposit: { min: parseSui('0.001'), max: parseSui('100') },
+    withdraw: { min: parseSui('0.001'), max: parseSui('100') },
+    spend: { min: parseSui('0.001'), max: parseSui('50') },
+    directTransfer: { min: parseSui('0.001'), max: parseSui('50') },
+  },
+  dailyCap: {
+    amount: parseSui('500'),
+    operations: ['spend', 'directTransfer'],
+  },
+  confirmationThreshold: parseSui('10'),
+}
+
+const TESTNET_USDC_POLICY: ISafetyPolicy = {
+  operations: {
+    deposit: { min: usdc('0.01'), max: usdc('1000') },
+    withdraw: { min: usdc('0.01'), max: usdc('1000') },
+    spend: { min: usdc('0.01'), max: usdc('500') },
+    directTransfer: { min: usdc('0.01'), max: usdc('500') },
+  },
+  dailyCap: {
+    amount: usdc('5000'),
+    operations: ['spend', 'directTransfer'],
+  },
+  confirmationThreshold: usdc('100'),
+}
+
+const MAINNET_POLICY: ISafetyPolicy = {
+  operations: {
+    deposit: { min: parseSui('0.01'), max: parseSui('1000') },
+    withdraw: { min: parseSui('0.01'), max: parseSui('1000') },
+    spend: { min: parseSui('0.01'), max: parseSui('100') },
+    directTransfer: { min: parseSui('0.01'), max: parseSui('100') },
+  },
+  dailyCap: {
+    amount: parseSui('250'),
+    operations: ['withdraw', 'spend', 'directTransfer'],
+  },
+  confirmationThreshold: parseSui('1'),
+}
+
+const MAINNET_USDC_POLICY: ISafetyPolicy = {
+  operations: {
+    deposit: { min: usdc('0.01'), max: usdc('5000') },
+    withdraw: { min: usdc('0.01'), max: usdc('5000') },
+    spend: { min: usdc('0.01'), max: usdc('500') },
+    directTransfer: { min: usdc('0.01'), max: usdc('500') },
+  },
+  dailyCap: {
+    amount: usdc('1000'),
+    operations: ['withdraw', 'spend', 'directTransfer'],
+  },
+  confirmationThreshold: usdc('5'),
+}
+
+// Policies per network and coin type, in base units of the coin. Lookups
+// normalize the coin type.
+export const SAFETY_POLICIES: Record<
+  ENetwork,
+  Record<string, ISafetyPolicy>
+> = {
+  [ENetwork.LOCALNET]: { [SUI_TYPE_ARG]: LOCALNET_POLICY },
+  [ENetwork.DEVNET]: { [SUI_TYPE_ARG]: TEST_NETWORK_POLICY },
+  [ENetwork.TESTNET]: {
+    [SUI_TYPE_ARG]: TEST_NETWORK_POLICY,
+    [TESTNET_USDC_COIN_TYPE]: TESTNET_USDC_POLICY,
+  },
+  [ENetwork.MAINNET]: {
+    [SUI_TYPE_ARG]: MAINNET_POLICY,
+    [MAINNET_USDC_COIN_TYPE]: MAINNET_USDC_POLICY,
+  },
+}
+
+// For coins without a policy of their own, e.g. one sent in a card by someone
+// else. Their value is unknown, so no amount is out of range, but every one
+// has to be confirmed.
+export const UNLISTED_COIN_POLICY: ISafetyPolicy = {
+  operations: {
+    deposit: { min: 1n, max: U64_MAX },
+    withdraw: { min: 1n, max: U64_MAX },
+    spend: { min: 1n, max: U64_MAX },
+    directTransfer: { min: 1n, max: U64_MAX },
+  },
+  dailyCap: { amount: U64_MAX, operations: [] },
+  confirmationThreshold: 0n,
+}
@@ -0,0 +1,6 @@
+// Gas station that pays network fees on the user's behalf. Sponsored
+// transactions are only offered when this is set, e.g. to the local server in
+// server/sponsor (http://localhost:3030).
+export const SPONSOR_URL = import.meta.env.VITE_SPONSOR_URL || undefined
+// Where the user's "pay gas via the sponsor" choice is kept.
+export const SPONSORED_GAS_STORAGE_KEY = 'sponsoredGas'
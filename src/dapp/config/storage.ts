@@ -0,0 +1,6 @@
+// IndexedDB database holding cards and their event history, so pages render
+// straight away and keep working when the RPC is out of reach.
+export const CARD_DATABASE_NAME = 'sui-cards'
+// Bumped when a store is added or changes shape. Stores are cleared on upgrade,
+// they only ever hold what can be fetched again.
+export const CARD_DATABASE_VERSION = 1
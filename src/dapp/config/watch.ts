@@ -0,0 +1,4 @@
+// Where the addresses saved for watch-only mode are kept.
+export const WATCHLIST_STORAGE_KEY = 'watchedAddresses'
+// Watch-only pages live under this path, followed by the watched address.
+export const WATCH_PATH = '/watch'
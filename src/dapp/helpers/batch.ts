@@ -0,0 +1,207 @@
+import { Transaction } from '@mysten/sui/transactions'
+import { isValidSuiAddress } from '@mysten/sui/utils'
+import { createCardClient } from '~~/dapp/helpers/cardClient'
+import { formatCoinAmount, parseCoinAmount } from '~~/dapp/helpers/coins'
+import { Mist } from '~~/dapp/helpers/mist'
+import { checkAgainstPolicy } from '~~/dapp/helpers/safetyPolicy'
+import { ICard } from '~~/dapp/types/ICard'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { ISafetyPolicy, TPolicyOperation } from '~~/dapp/types/ISafetyPolicy'
+import {
+  TBatchOperation,
+  TBatchOperationKind,
+} from '~~/dapp/types/TBatchOperation'
+
+export const BATCH_OPERATION_LABELS: Record<TBatchOperationKind, string> = {
+  deposit: 'Deposit',
+  withdraw: 'Withdraw',
+  spend: 'Spend',
+  directTransfer: 'Transfer',
+  updateSpendingLimit: 'Update limit',
+  deactivate: 'Deactivate',
+  reactivate: 'Reactivate',
+}
+
+// Builds one operation on a card from form input. The safety policy is left
+// to the caller.
+export const buildCardOperation = (
+  kind: TBatchOperationKind,
+  card: ICard,
+  amount: string,
+  recipient: string
+): TBatchOperation => {
+  const { id: cardId, coin } = card
+  const { packageId, generic } = card.version
+
+  if (kind === 'deactivate' || kind === 'reactivate') {
+    return { kind, cardId, coin, packageId, generic }
+  }
+
+  const value = parseCoinAmount(amount, coin)
+
+  if (kind === 'updateSpendingLimit') {
+    return { kind, cardId, coin, packageId, generic, newLimit: value }
+  }
+
+  if (value <= 0n) {
+    throw new Error('Please enter a valid amount')
+  }
+
+  if (kind === 'spend' || kind === 'directTransfer') {
+    if (!isValidSuiAddress(recipient)) {
+      throw new Error('Please enter a valid Sui address')
+    }
+    return { kind, cardId, coin, packageId, generic, amount: value, recipient }
+  }
+
+  return { kind, cardId, coin, packageId, generic, amount: value }
+}
+
+const shortId = (id: string) => `${id.substring(0, 6)}...${id.slice(-4)}`
+
+export const describeBatchOperation = (operation: TBatchOperation) => {
+  const label = BATCH_OPERATION_LABELS[operation.kind]
+  const card = `card ${shortId(operation.cardId)}`
+  const format = (value: Mist) =>
+    `${formatCoinAmount(value, operation.coin)} ${operation.coin.symbol}`
+
+  switch (operation.kind) {
+    case 'deposit':
+      return `${label} ${format(operation.amount)} into ${card}`
+    case 'withdraw':
+      return `${label} ${format(operation.amount)} from ${card}`
+    case 'spend':
+    case 'directTransfer':
+      return `${label} ${format(operation.amount)} from ${card} to ${shortId(operation.recipient)}`
+    case 'updateSpendingLimit':
+      return `Set the spending limit of ${card} to ${format(operation.newLimit)}`
+    case 'deactivate':
+    case 'reactivate':
+      return `${label} ${card}`
+  }
+}
+
+// The operations that move funds and are therefore covered by the safety
+// policy of their coin.
+export const policyAmounts = (operations: TBatchOperation[]) =>
+  operations.flatMap((operation) => {
+    switch (operation.kind) {
+      case 'deposit':
+      case 'withdraw':
+      case 'spend':
+      case 'directTransfer':
+        return [
+          {
+            operation: operation.kind as TPolicyOperation,
+            coin: operation.coin,
+            amount: operation.amount,
+          },
+        ]
+      default:
+        return []
+    }
+  })
+
+// What the batch moves in total, per coin, in the order the coins first appear.
+export const batchTotals = (operations: TBatchOperation[]) => {
+  const totals = new Map<string, { coin: ICoinInfo; amount: Mist }>()
+  for (const { coin, amount } of policyAmounts(operations)) {
+    const total = totals.get(coin.coinType)
+    totals.set(coin.coinType, {
+      coin,
+      amount: (total?.amount ?? 0n) + amount,
+    })
+  }
+  return [...totals.values()]
+}
+
+// Every operation must pass the per-transaction rules of its coin's policy on
+// its own, and the capped ones must fit into what is left of that coin's daily
+// cap together.
+export const checkBatchAgainstPolicy = (
+  policyOf: (coin: ICoinInfo) => ISafetyPolicy,
+  operations: TBatchOperation[],
+  usedToday: (coin: ICoinInfo) => Mist = () => 0n
+) => {
+  const used = new Map<string, Mist>()
+
+  for (const { operation, coin, amount } of policyAmounts(operations)) {
+    const policy = policyOf(coin)
+    const usedSoFar = used.get(coin.coinType) ?? usedToday(coin)
+    checkAgainstPolicy(policy, operation, coin, amount, usedSoFar)
+    if (policy.dailyCap.operations.includes(operation)) {
+      used.set(coin.coinType, usedSoFar + amount)
+    }
+  }
+}
+
+// Appends the operations, in queue order, to a single transaction. Later calls
+// see the effects of earlier ones, so e.g. a deposit can fund a spend from the
+// same card. Each operation is sent to the package of its card.
+//
+// Deposits are paid from the sender's coins. For SUI that is the gas coin
+// unless useGasCoin is false, which sponsored batches need: the sponsor owns
+// their gas coin and refuses transactions that touch it.
+export const composeBatch = (
+  operations: TBatchOperation[],
+  tx: Transaction = new Transaction(),
+  { useGasCoin = true }: { useGasCoin?: boolean } = {}
+) => {
+  if (operations.length === 0) {
+    throw new Error('The batch is empty')
+  }
+
+  for (const operation of operations) {
+    const { cardId } = operation
+    const { coinType } = operation.coin
+    const cardClient = createCardClient(operation.packageId, operation.generic)
+
+    switch (operation.kind) {
+      case 'deposit':
+        cardClient.deposit(
+          { cardId, coinType, amount: operation.amount, useGasCoin },
+          tx
+        )
+        break
+      case 'withdraw':
+        cardClient.withdraw({ cardId, coinType, amount: operation.amount }, tx)
+        break
+      case 'spend':
+        cardClient.spend(
+          {
+            cardId,
+            coinType,
+            amount: operation.amount,
+            recipient: operation.recipient,
+          },
+          tx
+        )
+        break
+      case 'directTransfer':
+        cardClient.directTransfer(
+          {
+            cardId,
+            coinType,
+            amount: operation.amount,
+            recipient: operation.recipient,
+          },
+          tx
+        )
+        break
+      case 'updateSpendingLimit':
+        cardClient.updateSpendingLimit(
+          { cardId, coinType, newLimit: operation.newLimit },
+          tx
+        )
+        break
+      case 'deactivate':
+        cardClient.deactivateCard({ cardId, coinType }, tx)
+        break
+      case 'reactivate':
+        cardClient.reactivateCard({ cardId, coinType }, tx)
+        break
+    }
+  }
+
+  return tx
+}
@@ -0,0 +1,240 @@
+import { SuiClient, SuiEvent } from '@mysten/sui/client'
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils'
+import {
+  cardEventCardId,
+  cardEventName,
+  fetchCardEventsSince,
+} from '~~/dapp/helpers/cardEvents'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICardVersion } from '~~/dapp/types/ICardDeployment'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { IStoredActivity } from '~~/dapp/types/ICardStore'
+import { TCardEvent, TCardEventKind } from '~~/dapp/types/TCardEvent'
+
+export class CardEventDecodeError extends Error {
+  name = 'CardEventDecodeError'
+}
+
+export const CARD_ACTIVITY_QUERY_KEY = 'cardActivity'
+
+export const cardActivityQueryKey = (
+  network: string,
+  packageId: string,
+  owner: string | undefined
+) => [CARD_ACTIVITY_QUERY_KEY, network, packageId, owner] as const
+
+// Names the history views use for each kind of event, also in their filters.
+export const CARD_EVENT_TYPES = {
+  CardCreated: 'create',
+  Deposit: 'deposit',
+  Spend: 'spend',
+  DirectTransfer: 'transfer',
+  Withdraw: 'withdraw',
+  SpendingLimitUpdated: 'limit',
+  CardDeactivated: 'deactivate',
+  CardReactivated: 'activate',
+  CardTransferred: 'ownership',
+} as const satisfies Record<TCardEventKind, string>
+
+export type TCardEventType = (typeof CARD_EVENT_TYPES)[TCardEventKind]
+
+// What the event moved, zero for events that move nothing.
+export const cardEventAmount = (event: TCardEvent): Mist =>
+  'amount' in event ? event.amount : 0n
+
+// Where the event sent funds or the card, for events that have such a party.
+export const cardEventRecipient = (event: TCardEvent) => {
+  switch (event.kind) {
+    case 'DirectTransfer':
+      return event.recipient
+    case 'CardTransferred':
+      return event.newOwner
+    default:
+      return null
+  }
+}
+
+const shortAddress = (address: string) =>
+  `${address.substring(0, 6)}...${address.substring(address.length - 4)}`
+
+// What an event that moves no funds changed on the card, for history rows to
+// show in place of an amount. Null for the others.
+export const cardEventChange = (event: TCardEvent, coin: ICoinInfo) => {
+  switch (event.kind) {
+    case 'SpendingLimitUpdated':
+      return `Limit ${formatCoinAmount(event.oldLimit, coin)} → ${formatCoinAmount(event.newLimit, coin)} ${coin.symbol}`
+    case 'CardDeactivated':
+      return 'Deactivated'
+    case 'CardReactivated':
+      return 'Reactivated'
+    case 'CardTransferred':
+      return `Handed to ${shortAddress(event.newOwner)}`
+    default:
+      return null
+  }
+}
+
+// Reads the event's fields as the contract declares them. Returns null for
+// events that are not one of the card events listed in TCardEvent, and throws a
+// CardEventDecodeError for one whose fields do not match.
+export const decodeCardEvent = (event: SuiEvent): TCardEvent | null => {
+  const kind = cardEventName(event)
+  const fields = (event.parsedJson ?? {}) as Record<string, unknown>
+
+  const u64 = (name: string): Mist => {
+    const value = fields[name]
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+      throw new CardEventDecodeError(
+        `${kind} event ${event.id.txDigest} has no valid ${name}`
+      )
+    }
+    return BigInt(value)
+  }
+
+  const address = (name: string) => {
+    const value = fields[name]
+    if (typeof value !== 'string' || !isValidSuiAddress(value)) {
+      throw new CardEventDecodeError(
+        `${kind} event ${event.id.txDigest} has no valid ${name}`
+      )
+    }
+    return normalizeSuiAddress(value)
+  }
+
+  const base = () => ({
+    id: `${event.id.txDigest}:${event.id.eventSeq}`,
+    digest: event.id.txDigest,
+    cardId: address('card_id'),
+    timestampMs: event.timestampMs != null ? Number(event.timestampMs) : null,
+  })
+
+  switch (kind) {
+    case 'CardCreated':
+      return {
+        ...base(),
+        kind,
+        owner: address('owner'),
+        spendingLimit: u64('spending_limit'),
+      }
+    case 'Deposit':
+      return {
+        ...base(),
+        kind,
+        amount: u64('amount'),
+        newBalance: u64('new_balance'),
+      }
+    case 'Spend':
+      return {
+        ...base(),
+        kind,
+        amount: u64('amount'),
+        newBalance: u64('new_balance'),
+        totalSpent: u64('total_spent'),
+      }
+    case 'DirectTransfer':
+      return {
+        ...base(),
+        kind,
+        recipient: address('recipient'),
+        amount: u64('amount'),
+        newBalance: u64('new_balance'),
+      }
+    case 'Withdraw':
+      return {
+        ...base(),
+        kind,
+        amount: u64('amount'),
+        newBalance: u64('new_balance'),
+      }
+    case 'SpendingLimitUpdated':
+      return {
+        ...base(),
+        kind,
+        oldLimit: u64('old_limit'),
+        newLimit: u64('new_limit'),
+      }
+    case 'CardDeactivated':
+    case 'CardReactivated':
+      return { ...base(), kind }
+    case 'CardTransferred':
+      return {
+        ...base(),
+        kind,
+        previousOwner: address('previous_owner'),
+        newOwner: address('new_owner'),
+      }
+    default:
+      return null
+  }
+}
+
+// Decodes the events newest first. One malformed event is left out rather than
+// hiding the whole history.
+export const decodeCardEvents = (events: SuiEvent[]) =>
+  events
+    .flatMap((event) => {
+      try {
+        return decodeCardEvent(event) ?? []
+      } catch (e) {
+        console.warn('Skipping card event', e)
+        return []
+      }
+    })
+    .sort((a, b) => (b.timestampMs ?? 0) - (a.timestampMs ?? 0))
+
+// Cards the owner created or was handed in these events. Their later events
+// belong to the owner too, even before the card list has been reloaded.
+const receivedCardIds = (events: TCardEvent[], owner: string) =>
+  events.flatMap((event) =>
+    (event.kind === 'CardCreated' && event.owner === owner) ||
+    (event.kind === 'CardTransferred' && event.newOwner === owner)
+      ? [event.cardId]
+      : []
+  )
+
+// Brings the owner's card events up to date, fetching only what was emitted
+// since the stored cursors. Starts over when there is nothing stored yet, the
+// deployments changed, or the owner has a card the stored events were not
+// collected for, e.g. one transferred to them.
+export const syncCardActivity = async (
+  client: Pick<SuiClient, 'queryEvents'>,
+  versions: ICardVersion[],
+  owner: string,
+  cardIds: string[],
+  stored: IStoredActivity | null
+): Promise<IStoredActivity> => {
+  const upToDate =
+    stored != null &&
+    stored.cursors.length === versions.length &&
+    cardIds.every((id) => stored.cardIds.includes(id))
+  const from = upToDate
+    ? stored
+    : { events: [], cursors: versions.map(() => null), cardIds: [] }
+
+  const results = await Promise.all(
+    versions.map((version, i) =>
+      fetchCardEventsSince(client, version, from.cursors[i])
+    )
+  )
+  const fetched = results.flatMap((result) => result.events)
+
+  const ids = new Set([
+    ...from.cardIds,
+    ...cardIds,
+    ...receivedCardIds(decodeCardEvents(fetched), owner),
+  ])
+  // Raw events are kept, so the stored history can be decoded again when the
+  // decoders learn about more events.
+  const events = fetched.filter((event) => {
+    const cardId = cardEventCardId(event)
+    return cardId != null && ids.has(cardId)
+  })
+
+  return {
+    events: [...from.events, ...events],
+    cursors: results.map((result) => result.cursor),
+    cardIds: Array.from(ids),
+    savedAt: Date.now(),
+  }
+}
@@ -0,0 +1,49 @@
+import { bcs } from '@mysten/sui/bcs'
+import { fromBase64 } from '@mysten/sui/utils'
+
+export class CardDecodeError extends Error {
+  name = 'CardDecodeError'
+}
+
+// Layout of card::card::Card<T>. T is phantom, so it is the same whatever coin
+// the card holds, and the same for cards from before the contract was generic.
+// Field order matters: keep it in sync with the struct in card.move.
+export const CardBcs = bcs.struct('Card', {
+  // UID wraps an ID, which wraps an address.
+  id: bcs.Address,
+  owner: bcs.Address,
+  balance: bcs.struct('Balance', { value: bcs.u64() }),
+  spending_limit: bcs.u64(),
+  amount_spent: bcs.u64(),
+  is_active: bcs.bool(),
+})
+
+// Decodes a card from the base64 BCS returned with showBcs. Throws a
+// CardDecodeError if the bytes do not match the layout exactly, i.e. the
+// contract changed the struct and CardBcs was not updated.
+export const decodeCardBcs = (objectId: string, bcsBytes: string) => {
+  const bytes = fromBase64(bcsBytes)
+
+  let card: ReturnType<typeof CardBcs.parse>
+  try {
+    card = CardBcs.parse(bytes)
+  } catch (e) {
+    throw new CardDecodeError(
+      `Card ${objectId} could not be decoded: ${(e as Error).message}`
+    )
+  }
+
+  // parse() ignores trailing bytes, so a struct that gained fields at the end
+  // would otherwise decode without complaint.
+  const size = CardBcs.serialize(card).toBytes().length
+  if (size !== bytes.length) {
+    throw new CardDecodeError(
+      `Card ${objectId} is ${bytes.length} bytes long, expected ${size}`
+    )
+  }
+  if (card.id !== objectId) {
+    throw new CardDecodeError(`Card ${objectId} decoded with id ${card.id}`)
+  }
+
+  return card
+}
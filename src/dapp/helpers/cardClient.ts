@@ -0,0 +1,298 @@
+import { bcs } from '@mysten/sui/bcs'
+import { SuiClient } from '@mysten/sui/client'
+import { coinWithBalance, Transaction } from '@mysten/sui/transactions'
+import { InvalidAmountError, Mist, U64_MAX } from '~~/dapp/helpers/mist'
+import { fullFunctionName } from '~~/helpers/network'
+
+// Typed entry points for every function of the card::card Move module. Cards
+// are generic, so every builder takes the coin type the card holds. Each
+// builder appends its call to the given transaction (a fresh one by default)
+// and returns it, so calls can also be chained into a single PTB.
+
+export type TCardFunction =
+  | 'create_card'
+  | 'deposit'
+  | 'spend'
+  | 'spend_to_owner'
+  | 'direct_transfer'
+  | 'get_card_info'
+  | 'deactivate_card'
+  | 'reactivate_card'
+  | 'update_spending_limit'
+  | 'withdraw'
+  | 'transfer_card'
+
+export interface ICardInfo {
+  owner: string
+  balance: Mist
+  spendingLimit: Mist
+  amountSpent: Mist
+  isActive: boolean
+}
+
+const assertU64 = (amount: Mist, name: string) => {
+  if (amount < 0n || amount > U64_MAX) {
+    throw new InvalidAmountError(`${name} must fit into a u64`)
+  }
+}
+
+const assertPositive = (amount: Mist, name: string) => {
+  assertU64(amount, name)
+  if (amount === 0n) {
+    throw new InvalidAmountError(`${name} must be greater than zero`)
+  }
+}
+
+const splitFromCoins = (tx: Transaction, coinIds: string[], amount: Mist) => {
+  const [primary, ...rest] = coinIds.map((id) => tx.object(id))
+  if (rest.length > 0) {
+    tx.mergeCoins(primary, rest)
+  }
+  const [payment] = tx.splitCoins(primary, [tx.pure.u64(amount)])
+  return payment
+}
+
+// Pass generic = false for deployments from before cards were generic (see
+// ICardDeployment), whose functions take no type argument.
+export const createCardClient = (packageId: string, generic = true) => {
+  const target = (fn: TCardFunction) => fullFunctionName(packageId, fn)
+  const typeArgs = (coinType: string) => (generic ? [coinType] : [])
+
+  return {
+    packageId,
+
+    createCard: (
+      { spendingLimit, coinType }: { spendingLimit: Mist; coinType: string },
+      tx: Transaction = new Transaction()
+    ) => {
+      assertU64(spendingLimit, 'Spending limit')
+      tx.moveCall({
+        target: target('create_card'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.pure.u64(spendingLimit)],
+      })
+      return tx
+    },
+
+    // With coinIds, the coins are merged into the first one and the amount is
+    // split from that. Without them the SDK picks coins of the card's type
+    // when the transaction is built: the gas coin for SUI cards, unless
+    // useGasCoin is false because someone else pays the gas.
+    deposit: (
+      {
+        cardId,
+        coinType,
+        amount,
+        coinIds = [],
+        useGasCoin = true,
+      }: {
+        cardId: string
+        coinType: string
+        amount: Mist
+        coinIds?: string[]
+        useGasCoin?: boolean
+      },
+      tx: Transaction = new Transaction()
+    ) => {
+      assertPositive(amount, 'Deposit amount')
+      const payment =
+        coinIds.length === 0
+          ? tx.add(
+              coinWithBalance({ type: coinType, balance: amount, useGasCoin })
+            )
+          : splitFromCoins(tx, coinIds, amount)
+      tx.moveCall({
+        target: target('deposit'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId), payment],
+      })
+      return tx
+    },
+
+    spend: (
+      {
+        cardId,
+        coinType,
+        amount,
+        recipient,
+      }: { cardId: string; coinType: string; amount: Mist; recipient: string },
+      tx: Transaction = new Transaction()
+    ) => {
+      assertPositive(amount, 'Spend amount')
+      tx.moveCall({
+        target: target('spend'),
+        typeArguments: typeArgs(coinType),
+        arguments: [
+          tx.object(cardId),
+          tx.pure.u64(amount),
+          tx.pure.address(recipient),
+        ],
+      })
+      return tx
+    },
+
+    spendToOwner: (
+      {
+        cardId,
+        coinType,
+        amount,
+      }: { cardId: string; coinType: string; amount: Mist },
+      tx: Transaction = new Transaction()
+    ) => {
+      assertPositive(amount, 'Spend amount')
+      tx.moveCall({
+        target: target('spend_to_owner'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId), tx.pure.u64(amount)],
+      })
+      return tx
+    },
+
+    directTransfer: (
+      {
+        cardId,
+        coinType,
+        amount,
+        recipient,
+      }: { cardId: string; coinType: string; amount: Mist; recipient: string },
+      tx: Transaction = new Transaction()
+    ) => {
+      assertPositive(amount, 'Transfer amount')
+      tx.moveCall({
+        target: target('direct_transfer'),
+        typeArguments: typeArgs(coinType),
+        arguments: [
+          tx.object(cardId),
+          tx.pure.u64(amount),
+          tx.pure.address(recipient),
+        ],
+      })
+      return tx
+    },
+
+    getCardInfo: (
+      { cardId, coinType }: { cardId: string; coinType: string },
+      tx: Transaction = new Transaction()
+    ) => {
+      tx.moveCall({
+        target: target('get_card_info'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId)],
+      })
+      return tx
+    },
+
+    deactivateCard: (
+      { cardId, coinType }: { cardId: string; coinType: string },
+      tx: Transaction = new Transaction()
+    ) => {
+      tx.moveCall({
+        target: target('deactivate_card'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId)],
+      })
+      return tx
+    },
+
+    reactivateCard: (
+      { cardId, coinType }: { cardId: string; coinType: string },
+      tx: Transaction = new Transaction()
+    ) => {
+      tx.moveCall({
+        target: target('reactivate_card'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId)],
+      })
+      return tx
+    },
+
+    updateSpendingLimit: (
+      {
+        cardId,
+        coinType,
+        newLimit,
+      }: { cardId: string; coinType: string; newLimit: Mist },
+      tx: Transaction = new Transaction()
+    ) => {
+      assertU64(newLimit, 'Spending limit')
+      tx.moveCall({
+        target: target('update_spending_limit'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId), tx.pure.u64(newLimit)],
+      })
+      return tx
+    },
+
+    withdraw: (
+      {
+        cardId,
+        coinType,
+        amount,
+      }: { cardId: string; coinType: string; amount: Mist },
+      tx: Transaction = new Transaction()
+    ) => {
+      assertPositive(amount, 'Withdraw amount')
+      tx.moveCall({
+        target: target('withdraw'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId), tx.pure.u64(amount)],
+      })
+      return tx
+    },
+
+    // Hands the card itself over. Only upgrades that emit CardTransferred
+    // have it.
+    transferCard: (
+      {
+        cardId,
+        coinType,
+        recipient,
+      }: { cardId: string; coinType: string; recipient: string },
+      tx: Transaction = new Transaction()
+    ) => {
+      tx.moveCall({
+        target: target('transfer_card'),
+        typeArguments: typeArgs(coinType),
+        arguments: [tx.object(cardId), tx.pure.address(recipient)],
+      })
+      return tx
+    },
+  }
+}
+
+export type CardClient = ReturnType<typeof createCardClient>
+
+// Reads get_card_info through devInspect, which needs no signature or gas.
+export const inspectCardInfo = async (
+  suiClient: SuiClient,
+  cardClient: CardClient,
+  sender: string,
+  cardId: string,
+  coinType: string,
+  // Reads the card as it would be after this transaction, which is left as is.
+  after?: Transaction
+): Promise<ICardInfo> => {
+  const result = await suiClient.devInspectTransactionBlock({
+    sender,
+    transactionBlock: cardClient.getCardInfo(
+      { cardId, coinType },
+      after ? Transaction.from(after) : undefined
+    ),
+  })
+
+  // get_card_info is always the last command
+  const values = result.results?.[result.results.length - 1]?.returnValues
+  if (values == null || values.length !== 5) {
+    throw new Error(result.error || 'get_card_info returned no values')
+  }
+
+  const bytes = values.map(([value]) => new Uint8Array(value))
+
+  return {
+    owner: bcs.Address.parse(bytes[0]),
+    balance: BigInt(bcs.u64().parse(bytes[1])),
+    spendingLimit: BigInt(bcs.u64().parse(bytes[2])),
+    amountSpent: BigInt(bcs.u64().parse(bytes[3])),
+    isActive: bcs.bool().parse(bytes[4]),
+  }
+}
@@ -0,0 +1,168 @@
+import {
+  SuiTransactionBlockResponse,
+  SuiTransactionBlockResponseOptions,
+} from '@mysten/sui/client'
+import { normalizeStructTag } from '@mysten/sui/utils'
+import { QueryClient } from '@tanstack/react-query'
+import { applyCardEvent, cardEventCardId } from '~~/dapp/helpers/cardEvents'
+import {
+  cachedCards,
+  CARDS_QUERY_KEY,
+  updateCachedCards,
+} from '~~/dapp/helpers/cards'
+import { isSuiCoinType } from '~~/dapp/helpers/coins'
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
+
+// What a sent transaction has to be read back with for its effect on the cards
+// to be worked out.
+export const CARD_EFFECTS_OPTIONS: SuiTransactionBlockResponseOptions = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+  showBalanceChanges: true,
+}
+
+// Cards the transaction changed, as they should be now. Null for cards that
+// were deleted or are no longer owned by their owner.
+export type TCardChanges = Map<string, ICard | null>
+
+const addressOf = (owner: unknown) =>
+  owner != null && typeof owner === 'object' && 'AddressOwner' in owner
+    ? (owner as { AddressOwner: string }).AddressOwner
+    : undefined
+
+// Gas is part of the payer's SUI balance change.
+const gasFee = (response: SuiTransactionBlockResponse): Mist => {
+  const gasUsed = response.effects?.gasUsed
+  return gasUsed
+    ? BigInt(gasUsed.computationCost) +
+        BigInt(gasUsed.storageCost) -
+        BigInt(gasUsed.storageRebate)
+    : 0n
+}
+
+// How much of the coin the address received, gas excluded.
+const received = (
+  response: SuiTransactionBlockResponse,
+  address: string,
+  coinType: string
+) => {
+  const amount = (response.balanceChanges ?? [])
+    .filter(
+      (change) =>
+        addressOf(change.owner) === address &&
+        normalizeStructTag(change.coinType) === coinType
+    )
+    .reduce((sum, change) => sum + BigInt(change.amount), 0n)
+
+  const paidGas = addressOf(response.effects?.gasObject.owner) === address
+  return isSuiCoinType(coinType) && paidGas ? amount + gasFee(response) : amount
+}
+
+// Works out the cards' new state from the transaction response alone:
+// - card events carry the resulting balance and amount spent,
+// - object changes tell which cards were deleted or changed hands, and the
+//   new object version of the rest,
+// - on deployments whose withdraw emits no event, a card that changed without
+//   an event had funds withdrawn, which show up as the owner's balance change.
+//   That is only trusted when no other card moved the same coin in the
+//   transaction.
+export const expectedCardChanges = (
+  cards: ICard[],
+  response: SuiTransactionBlockResponse
+): TCardChanges => {
+  const known = new Map(cards.map((card) => [card.id, card]))
+  const changes: TCardChanges = new Map()
+
+  for (const event of response.events ?? []) {
+    const cardId = cardEventCardId(event)
+    const card = cardId && (changes.get(cardId) ?? known.get(cardId))
+    if (card) changes.set(card.id, applyCardEvent(card, event))
+  }
+
+  const movedByEvent = new Set(
+    [...changes.keys()].map((id) => known.get(id)!.coin.coinType)
+  )
+
+  const withdrawnFrom: ICard[] = []
+  for (const change of response.objectChanges ?? []) {
+    if (!('objectId' in change)) continue
+    const card = known.get(change.objectId)
+    if (card == null) continue
+
+    if (
+      change.type === 'deleted' ||
+      change.type === 'wrapped' ||
+      change.type === 'transferred' ||
+      (change.type === 'mutated' && addressOf(change.owner) !== card.owner)
+    ) {
+      changes.set(card.id, null)
+    } else if (change.type === 'mutated') {
+      if (!changes.has(card.id)) withdrawnFrom.push(card)
+      changes.set(card.id, {
+        ...(changes.get(card.id) ?? card),
+        objectVersion: change.version,
+        previousTransaction: response.digest,
+      })
+    }
+  }
+
+  for (const card of withdrawnFrom) {
+    const { coinType } = card.coin
+    const sameCoin = withdrawnFrom.filter((c) => c.coin.coinType === coinType)
+    if (sameCoin.length > 1 || movedByEvent.has(coinType)) continue
+
+    const amount = received(response, card.owner, coinType)
+    if (amount > 0n && amount <= card.balance) {
+      const changed = changes.get(card.id)!
+      changes.set(card.id, { ...changed, balance: card.balance - amount })
+    }
+  }
+
+  return changes
+}
+
+// Shows the transaction's effect on the cached cards straight away and returns
+// what was assumed, to be checked once the cards are refetched.
+export const applyTransactionToCards = (
+  queryClient: QueryClient,
+  response: SuiTransactionBlockResponse
+) => {
+  const changes = expectedCardChanges(cachedCards(queryClient), response)
+  if (changes.size) {
+    updateCachedCards(queryClient, (card) =>
+      changes.has(card.id) ? changes.get(card.id)! : card
+    )
+  }
+  return changes
+}
+
+// Refetches the cards, which replaces the assumed state whatever it was, and
+// logs every card the chain disagreed about. A disagreement is expected when
+// another transaction touched the card in the meantime.
+export const reconcileCards = async (
+  queryClient: QueryClient,
+  expected: TCardChanges
+) => {
+  await queryClient.invalidateQueries({ queryKey: [CARDS_QUERY_KEY] })
+  if (!expected.size) return
+
+  const actual = new Map(
+    cachedCards(queryClient).map((card) => [card.id, card])
+  )
+  expected.forEach((card, id) => {
+    const fresh = actual.get(id) ?? null
+    const matches =
+      card == null || fresh == null
+        ? card === fresh
+        : card.balance === fresh.balance &&
+          card.amountSpent === fresh.amountSpent
+    if (!matches) {
+      console.warn(`Card ${id} does not match its optimistic update`, {
+        expected: card,
+        actual: fresh,
+      })
+    }
+  })
+}
@@ -0,0 +1,127 @@
+import { EventId, SuiClient, SuiEvent } from '@mysten/sui/client'
+import { QueryClient } from '@tanstack/react-query'
+import { CONTRACT_MODULE_NAME } from '~~/dapp/config/network'
+import { updateCachedCards } from '~~/dapp/helpers/cards'
+import { toMist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
+import { ICardVersion } from '~~/dapp/types/ICardDeployment'
+
+type TCardEventsClient = Pick<SuiClient, 'queryEvents'>
+
+// Struct name of the event, e.g. Deposit for 0x..::card::Deposit. Events keep
+// the type of the package that first defined them, so the package id is not
+// compared.
+export const cardEventName = (event: SuiEvent) => {
+  const [, module, name] = event.type.split('::')
+  return module === CONTRACT_MODULE_NAME ? name : undefined
+}
+
+const eventFields = (event: SuiEvent) =>
+  (event.parsedJson ?? {}) as Record<string, string | undefined>
+
+// The card an event is about, if it is a card event.
+export const cardEventCardId = (event: SuiEvent) =>
+  cardEventName(event) ? eventFields(event).card_id : undefined
+
+// The card as it is after the event. Every event that moves funds carries the
+// resulting balance, so it is taken as is rather than added up.
+export const applyCardEvent = (card: ICard, event: SuiEvent): ICard => {
+  const fields = eventFields(event)
+  if (fields.card_id !== card.id) return card
+
+  switch (cardEventName(event)) {
+    case 'Deposit':
+    case 'DirectTransfer':
+    case 'Withdraw':
+      return { ...card, balance: toMist(fields.new_balance) }
+    case 'Spend':
+      return {
+        ...card,
+        balance: toMist(fields.new_balance),
+        amountSpent: toMist(fields.total_spent),
+      }
+    case 'SpendingLimitUpdated':
+      return { ...card, spendingLimit: toMist(fields.new_limit) }
+    case 'CardDeactivated':
+      return { ...card, isActive: false }
+    case 'CardReactivated':
+      return { ...card, isActive: true }
+    case 'CardTransferred':
+      return { ...card, owner: fields.new_owner ?? card.owner }
+    default:
+      return card
+  }
+}
+
+// Whether the events announce a card for one of the owners, created for them
+// or handed to them, which the cache does not know about yet.
+export const addsCardFor = (events: SuiEvent[], owners: string[]) =>
+  events.some((event) => {
+    const fields = eventFields(event)
+    switch (cardEventName(event)) {
+      case 'CardCreated':
+        return owners.includes(fields.owner ?? '')
+      case 'CardTransferred':
+        return owners.includes(fields.new_owner ?? '')
+      default:
+        return false
+    }
+  })
+
+// Applies the events to every cached card list, without refetching anything.
+// Cards handed to someone else leave the list of their previous owner.
+export const applyCardEvents = (
+  queryClient: QueryClient,
+  events: SuiEvent[] | null | undefined
+) => {
+  if (!events?.length) return
+  updateCachedCards(queryClient, (card) => {
+    const updated = events.reduce(applyCardEvent, card)
+    return updated.owner === card.owner ? updated : null
+  })
+}
+
+const moduleFilter = (version: ICardVersion) => ({
+  MoveEventModule: {
+    package: version.originalId,
+    module: CONTRACT_MODULE_NAME,
+  },
+})
+
+// Cursor of the newest event emitted by the deployment, so watching starts from
+// now instead of replaying its history. Null if it has not emitted any yet.
+export const latestCardEventCursor = async (
+  client: TCardEventsClient,
+  version: ICardVersion
+): Promise<EventId | null> => {
+  const { data } = await client.queryEvents({
+    query: moduleFilter(version),
+    order: 'descending',
+    limit: 1,
+  })
+  return data[0]?.id ?? null
+}
+
+// Every event the deployment emitted after the cursor, oldest first, and the
+// cursor to continue from.
+export const fetchCardEventsSince = async (
+  client: TCardEventsClient,
+  version: ICardVersion,
+  cursor: EventId | null
+) => {
+  const events: SuiEvent[] = []
+  let next = cursor
+
+  for (;;) {
+    const page = await client.queryEvents({
+      query: moduleFilter(version),
+      cursor: next,
+      order: 'ascending',
+    })
+    events.push(...page.data)
+    next = page.data.length ? page.data[page.data.length - 1].id : next
+    if (!page.hasNextPage) break
+  }
+
+  return { events, cursor: next }
+}
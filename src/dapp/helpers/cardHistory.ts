@@ -0,0 +1,73 @@
+import { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { CONTRACT_MODULE_NAME } from '~~/dapp/config/network'
+import { cardEventCardId } from '~~/dapp/helpers/cardEvents'
+import { toMist } from '~~/dapp/helpers/mist'
+import { ICardHistoryEntry } from '~~/dapp/types/ICardHistoryEntry'
+
+export const CARD_HISTORY_QUERY_KEY = 'cardHistory'
+export const CARD_HISTORY_PAGE_SIZE = 20
+
+type TCardHistoryClient = Pick<SuiClient, 'queryTransactionBlocks'>
+
+// Card functions the transaction called, for transactions that emit no event
+// for the card, like withdrawals and limit changes on deployments from before
+// those had events.
+const cardCalls = (response: SuiTransactionBlockResponse) => {
+  const kind = response.transaction?.data.transaction
+  if (kind?.kind !== 'ProgrammableTransaction') return []
+
+  return kind.transactions.flatMap((command) =>
+    'MoveCall' in command && command.MoveCall.module === CONTRACT_MODULE_NAME
+      ? [command.MoveCall.function]
+      : []
+  )
+}
+
+const toEntries = (
+  cardId: string,
+  response: SuiTransactionBlockResponse
+): ICardHistoryEntry[] => {
+  const base = {
+    digest: response.digest,
+    timestampMs:
+      response.timestampMs != null ? Number(response.timestampMs) : null,
+  }
+
+  const events = (response.events ?? []).filter(
+    (event) => cardEventCardId(event) === cardId
+  )
+  if (events.length) {
+    return events.map((event) => {
+      const fields = event.parsedJson as Record<string, unknown>
+      return {
+        ...base,
+        action: event.type.split('::')[2],
+        amount: fields.amount != null ? toMist(fields.amount) : null,
+      }
+    })
+  }
+
+  const calls = cardCalls(response)
+  return [{ ...base, action: calls.join(', ') || 'changed', amount: null }]
+}
+
+// One page of the transactions that changed the card, newest first. Pass the
+// returned cursor to get older ones, it is null after the first transaction.
+export const fetchCardHistoryPage = async (
+  client: TCardHistoryClient,
+  cardId: string,
+  cursor: string | null
+) => {
+  const page = await client.queryTransactionBlocks({
+    filter: { ChangedObject: cardId },
+    cursor,
+    limit: CARD_HISTORY_PAGE_SIZE,
+    order: 'descending',
+    options: { showEvents: true, showInput: true },
+  })
+
+  return {
+    entries: page.data.flatMap((response) => toEntries(cardId, response)),
+    nextCursor: page.hasNextPage ? (page.nextCursor ?? null) : null,
+  }
+}
@@ -0,0 +1,103 @@
+import { isValidSuiObjectId, normalizeSuiObjectId } from '@mysten/sui/utils'
+import {
+  CARD_LABEL_COLORS,
+  CARD_LABEL_ICONS,
+  CARD_LABELS_FILE_VERSION,
+  CARD_LABELS_STORAGE_KEY,
+} from '~~/dapp/config/labels'
+import { ICardLabel, TCardLabels } from '~~/dapp/types/ICardLabel'
+
+export class CardLabelsImportError extends Error {
+  name = 'CardLabelsImportError'
+}
+
+export const CARD_LABELS_QUERY_KEY = 'cardLabels'
+
+export const DEFAULT_CARD_LABEL: ICardLabel = {
+  nickname: '',
+  color: 'blue',
+  icon: 'credit-card',
+  notes: '',
+}
+
+// Reads one label, filling in defaults for anything missing. Returns null if it
+// is not a label at all.
+const parseLabel = (value: unknown): ICardLabel | null => {
+  if (value == null || typeof value !== 'object') return null
+  const label = value as Record<string, unknown>
+
+  const text = (field: string) =>
+    typeof label[field] === 'string' ? (label[field] as string) : ''
+
+  return {
+    nickname: text('nickname').trim(),
+    color:
+      CARD_LABEL_COLORS.find((c) => c === label.color) ??
+      DEFAULT_CARD_LABEL.color,
+    icon:
+      CARD_LABEL_ICONS.find((i) => i === label.icon) ?? DEFAULT_CARD_LABEL.icon,
+    notes: text('notes'),
+  }
+}
+
+const parseLabels = (value: unknown): TCardLabels => {
+  const labels: TCardLabels = {}
+  if (value == null || typeof value !== 'object') return labels
+
+  Object.entries(value as Record<string, unknown>).forEach(([id, raw]) => {
+    const label = parseLabel(raw)
+    if (label != null && isValidSuiObjectId(normalizeSuiObjectId(id))) {
+      labels[normalizeSuiObjectId(id)] = label
+    }
+  })
+  return labels
+}
+
+export const loadCardLabels = (): TCardLabels => {
+  try {
+    return parseLabels(
+      JSON.parse(localStorage.getItem(CARD_LABELS_STORAGE_KEY) ?? '{}')
+    )
+  } catch {
+    return {}
+  }
+}
+
+export const saveCardLabels = (labels: TCardLabels) =>
+  localStorage.setItem(CARD_LABELS_STORAGE_KEY, JSON.stringify(labels))
+
+export const exportCardLabels = (labels: TCardLabels) =>
+  JSON.stringify({ version: CARD_LABELS_FILE_VERSION, labels }, null, 2)
+
+// Reads a file written by exportCardLabels. Labels that do not parse are
+// skipped; a file that is not a labels export at all is rejected.
+export const importCardLabels = (json: string): TCardLabels => {
+  let file: unknown
+  try {
+    file = JSON.parse(json)
+  } catch {
+    throw new CardLabelsImportError('The file is not valid JSON')
+  }
+
+  const { version, labels } = (file ?? {}) as Record<string, unknown>
+  if (typeof version !== 'number' || labels == null) {
+    throw new CardLabelsImportError('The file is not a card labels export')
+  }
+  if (version > CARD_LABELS_FILE_VERSION) {
+    throw new CardLabelsImportError(
+      `The file is from a newer version of the app (format ${version})`
+    )
+  }
+
+  return parseLabels(labels)
+}
+
+export const shortCardId = (cardId: string) =>
+  `${cardId.substring(0, 6)}...${cardId.substring(cardId.length - 4)}`
+
+// The nickname if the card has one, otherwise its shortened id, which unlike
+// its position in a list does not change.
+export const cardDisplayName = (
+  cardId: string,
+  label: ICardLabel | undefined
+) => label?.nickname || `Card ${shortCardId(cardId)}`
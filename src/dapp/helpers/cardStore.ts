@@ -0,0 +1,83 @@
+import {
+  CARD_DATABASE_NAME,
+  CARD_DATABASE_VERSION,
+} from '~~/dapp/config/storage'
+import { ICard } from '~~/dapp/types/ICard'
+import { IStoredActivity, IStoredCards } from '~~/dapp/types/ICardStore'
+
+const CARDS_STORE = 'cards'
+const ACTIVITY_STORE = 'activity'
+const STORES = [CARDS_STORE, ACTIVITY_STORE]
+
+// Both stores are keyed by this. The package is part of it for the same reason
+// it is part of cardsQueryKey.
+export const cardStoreKey = (
+  network: string,
+  packageId: string,
+  owner: string
+) => `${network}:${packageId}:${owner}`
+
+let database: Promise<IDBDatabase> | undefined
+
+const openDatabase = () =>
+  (database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(CARD_DATABASE_NAME, CARD_DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const name of Array.from(db.objectStoreNames)) {
+        db.deleteObjectStore(name)
+      }
+      STORES.forEach((name) => db.createObjectStore(name))
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }))
+
+// Runs one request in its own transaction and resolves once it is committed.
+const run = async <T>(
+  store: string,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode)
+    const request = operation(transaction.objectStore(store))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Storage can be unavailable, e.g. in private windows or when the quota is
+// used up. The app then works as it did without it: nothing is read back and
+// nothing is saved.
+const load = async <T>(store: string, key: string): Promise<T | null> => {
+  try {
+    return ((await run(store, 'readonly', (s) => s.get(key))) as T) ?? null
+  } catch (e) {
+    console.warn(`Could not read ${store} from IndexedDB`, e)
+    return null
+  }
+}
+
+const save = async (store: string, key: string, value: unknown) => {
+  try {
+    await run(store, 'readwrite', (s) => s.put(value, key))
+  } catch (e) {
+    console.warn(`Could not save ${store} to IndexedDB`, e)
+  }
+}
+
+// Cards keep their bigint amounts, IndexedDB stores them as they are.
+export const loadStoredCards = (key: string) =>
+  load<IStoredCards>(CARDS_STORE, key)
+
+export const saveStoredCards = (key: string, cards: ICard[]) =>
+  save(CARDS_STORE, key, { cards, savedAt: Date.now() } satisfies IStoredCards)
+
+export const loadStoredActivity = (key: string) =>
+  load<IStoredActivity>(ACTIVITY_STORE, key)
+
+export const saveStoredActivity = (key: string, activity: IStoredActivity) =>
+  save(ACTIVITY_STORE, key, activity)
@@ -0,0 +1,224 @@
+import { SuiClient, SuiObjectResponse } from '@mysten/sui/client'
+import { parseStructTag } from '@mysten/sui/utils'
+import { InfiniteData, QueryClient } from '@tanstack/react-query'
+import { CONTRACT_MODULE_NAME } from '~~/dapp/config/network'
+import { CardDecodeError, decodeCardBcs } from '~~/dapp/helpers/cardBcs'
+import {
+  cardCoinType,
+  fetchCardCoinInfo,
+  SUI_COIN_INFO,
+} from '~~/dapp/helpers/coins'
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICard } from '~~/dapp/types/ICard'
+import { ICardVersion } from '~~/dapp/types/ICardDeployment'
+import { ICardFilter } from '~~/dapp/types/ICardFilter'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+
+// Root of every card query, so one invalidation refreshes all of them.
+export const CARDS_QUERY_KEY = 'cards'
+
+// Cards are cached per network and owner. The package is part of the key
+// because the same network can be configured with another deployment.
+export const cardsQueryKey = (
+  network: string,
+  packageId: string,
+  owner: string | undefined
+) => [CARDS_QUERY_KEY, network, packageId, owner] as const
+
+// Also the RPC limit for multiGetObjects, so each page is loaded in one call.
+export const CARDS_PAGE_SIZE = 50
+
+type TCardsClient = Pick<
+  SuiClient,
+  'getOwnedObjects' | 'multiGetObjects' | 'getCoinMetadata'
+>
+
+// Returns null for objects that are gone, e.g. deleted between listing and
+// loading them. Throws a CardDecodeError for cards that do not decode, rather
+// than showing them with made up values.
+const parseCard = async (
+  client: TCardsClient,
+  version: ICardVersion,
+  response: SuiObjectResponse
+): Promise<ICard | null> => {
+  const data = response.data
+  if (data == null) return null
+  if (data.bcs?.dataType !== 'moveObject') {
+    throw new CardDecodeError(`Card ${data.objectId} was returned without BCS`)
+  }
+
+  const fields = decodeCardBcs(data.objectId, data.bcs.bcsBytes)
+
+  return {
+    id: data.objectId,
+    owner: fields.owner,
+    balance: BigInt(fields.balance.value),
+    spendingLimit: BigInt(fields.spending_limit),
+    amountSpent: BigInt(fields.amount_spent),
+    isActive: fields.is_active,
+    // Cards from before the contract was generic only hold SUI
+    coin: version.generic
+      ? await fetchCardCoinInfo(client, cardCoinType(data.bcs.type))
+      : SUI_COIN_INFO,
+    version,
+    objectVersion: data.version,
+    previousTransaction: data.previousTransaction ?? null,
+  }
+}
+
+// Loads one page of the owner's cards from one contract deployment: their ids
+// first, then the cards in a single batch instead of one getObject per card.
+// Pass the returned cursor to get the next page, it is null after the last one.
+export const fetchCardsPage = async (
+  client: TCardsClient,
+  version: ICardVersion,
+  owner: string,
+  cursor: string | null
+) => {
+  const page = await client.getOwnedObjects({
+    owner,
+    cursor,
+    limit: CARDS_PAGE_SIZE,
+    // Matches every Card<T>, whatever coin it holds. Upgrades keep the type
+    // of the original package.
+    filter: {
+      StructType: `${version.originalId}::${CONTRACT_MODULE_NAME}::Card`,
+    },
+  })
+  const ids = page.data.flatMap((item) =>
+    item.data?.objectId ? [item.data.objectId] : []
+  )
+
+  const responses = ids.length
+    ? await client.multiGetObjects({
+        ids,
+        options: { showBcs: true, showPreviousTransaction: true },
+      })
+    : []
+  const cards = await Promise.all(
+    responses.map((response) => parseCard(client, version, response))
+  )
+
+  return {
+    cards: cards.filter((card): card is ICard => card != null),
+    nextCursor: page.hasNextPage ? (page.nextCursor ?? null) : null,
+  }
+}
+
+export const CARD_COINS_QUERY_KEY = 'cardCoins'
+
+// The coin of each card, read from its object type, for cards that are not in
+// a loaded list, e.g. ones handed on since. Card types without a type argument
+// come from before the contract was generic and hold SUI. Cards that no longer
+// exist are left out.
+export const fetchCardCoins = async (
+  client: Pick<SuiClient, 'multiGetObjects' | 'getCoinMetadata'>,
+  cardIds: string[]
+) => {
+  const coins = new Map<string, ICoinInfo>()
+
+  for (let i = 0; i < cardIds.length; i += CARDS_PAGE_SIZE) {
+    const responses = await client.multiGetObjects({
+      ids: cardIds.slice(i, i + CARDS_PAGE_SIZE),
+      options: { showType: true },
+    })
+    for (const { data } of responses) {
+      if (data?.type == null) continue
+      coins.set(
+        data.objectId,
+        parseStructTag(data.type).typeParams.length === 0
+          ? SUI_COIN_INFO
+          : await fetchCardCoinInfo(client, cardCoinType(data.type))
+      )
+    }
+  }
+
+  return coins
+}
+
+type TCardsData = InfiniteData<Awaited<ReturnType<typeof fetchCardsPage>>>
+
+// Every cached card, whichever network, owner or page it was loaded for.
+export const cachedCards = (queryClient: QueryClient) =>
+  queryClient
+    .getQueriesData<TCardsData>({ queryKey: [CARDS_QUERY_KEY] })
+    .flatMap(([, data]) => data?.pages.flatMap((page) => page.cards) ?? [])
+
+// Accounts whose cards are cached, e.g. the connected wallet and any watched
+// addresses that were opened.
+export const cachedCardOwners = (queryClient: QueryClient) =>
+  queryClient
+    .getQueriesData<TCardsData>({ queryKey: [CARDS_QUERY_KEY] })
+    .flatMap(([key]) => (typeof key[3] === 'string' ? [key[3]] : []))
+
+// Rewrites the cached cards in place, without refetching. Cards the update
+// returns null for are dropped.
+export const updateCachedCards = (
+  queryClient: QueryClient,
+  update: (card: ICard) => ICard | null
+) =>
+  queryClient.setQueriesData<TCardsData>(
+    { queryKey: [CARDS_QUERY_KEY] },
+    (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({
+          ...page,
+          cards: page.cards.flatMap((card) => update(card) ?? []),
+        })),
+      }
+  )
+
+export const DEFAULT_CARD_FILTER: ICardFilter = {
+  status: 'all',
+  balance: 'all',
+  utilisation: 'all',
+  sortBy: 'balance',
+  descending: true,
+}
+
+// Spent share of the spending limit, from 0 to 1. A card with no limit left
+// to spend counts as fully used.
+export const cardUtilisation = (card: ICard) =>
+  card.spendingLimit > 0n
+    ? Math.min(1, Number(card.amountSpent) / Number(card.spendingLimit))
+    : 1
+
+const MIN_UTILISATION: Record<ICardFilter['utilisation'], number> = {
+  all: 0,
+  half: 0.5,
+  high: 0.8,
+  exhausted: 1,
+}
+
+// Cards can hold different coins, so amounts are compared in whole coins.
+export const wholeCoins = (amount: Mist, coin: ICoinInfo) =>
+  Number(amount) / 10 ** coin.decimals
+
+const sortValue = (card: ICard, sortBy: ICardFilter['sortBy']) => {
+  switch (sortBy) {
+    case 'balance':
+      return wholeCoins(card.balance, card.coin)
+    case 'spendingLimit':
+      return wholeCoins(card.spendingLimit, card.coin)
+    case 'utilisation':
+      return cardUtilisation(card)
+  }
+}
+
+export const filterCards = (cards: ICard[], filter: ICardFilter) => {
+  const matching = cards.filter(
+    (card) =>
+      (filter.status === 'all' ||
+        card.isActive === (filter.status === 'active')) &&
+      (filter.balance === 'all' ||
+        card.balance > 0n === (filter.balance === 'funded')) &&
+      cardUtilisation(card) >= MIN_UTILISATION[filter.utilisation]
+  )
+
+  const direction = filter.descending ? -1 : 1
+  return matching.sort(
+    (a, b) =>
+      direction * (sortValue(a, filter.sortBy) - sortValue(b, filter.sortBy))
+  )
+}
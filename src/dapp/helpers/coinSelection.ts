@@ -0,0 +1,121 @@
+import { CoinStruct, SuiClient } from '@mysten/sui/client'
+import { SUI_TYPE_ARG } from '@mysten/sui/utils'
+import { formatSui, Mist } from '~~/dapp/helpers/mist'
+
+export class CoinSelectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CoinSelectionError'
+  }
+}
+
+export interface ICoinSelection {
+  coins: CoinStruct[]
+  total: Mist
+}
+
+// Lists every coin of the given type the owner has, following the cursor
+// through all pages.
+export const fetchAllCoins = async (
+  client: Pick<SuiClient, 'getCoins'>,
+  owner: string,
+  coinType: string = SUI_TYPE_ARG
+) => {
+  const coins: CoinStruct[] = []
+  let cursor: string | null | undefined = undefined
+
+  do {
+    const page = await client.getCoins({ owner, coinType, cursor })
+    coins.push(...page.data)
+    cursor = page.hasNextPage ? page.nextCursor : null
+  } while (cursor != null)
+
+  return coins
+}
+
+export const coinTotal = (coins: CoinStruct[]): Mist =>
+  coins.reduce((total, coin) => total + BigInt(coin.balance), 0n)
+
+// The wallet pays gas with a SUI coin that is not an input of the transaction,
+// so when depositing SUI at least one coin has to stay out of the selection.
+const assertGasCoinLeft = (
+  selection: CoinStruct[],
+  available: CoinStruct[],
+  reserveGasCoin: boolean
+) => {
+  if (reserveGasCoin && selection.length >= available.length) {
+    throw new CoinSelectionError(
+      'This would use every SUI coin you own, leaving none to pay gas with. Split a coin in your wallet first.'
+    )
+  }
+}
+
+// Picks the smallest single coin that covers the amount. If no coin is large
+// enough, merges the largest coins until the amount is covered.
+export const selectCoins = (
+  available: CoinStruct[],
+  amount: Mist,
+  reserveGasCoin: boolean
+): ICoinSelection => {
+  const ascending = [...available].sort((a, b) =>
+    BigInt(a.balance) < BigInt(b.balance) ? -1 : 1
+  )
+
+  const single = ascending.find((coin) => BigInt(coin.balance) >= amount)
+  if (single != null) {
+    assertGasCoinLeft([single], available, reserveGasCoin)
+    return { coins: [single], total: BigInt(single.balance) }
+  }
+
+  const coins: CoinStruct[] = []
+  let total = 0n
+  for (const coin of ascending.reverse()) {
+    coins.push(coin)
+    total += BigInt(coin.balance)
+    if (total >= amount) {
+      assertGasCoinLeft(coins, available, reserveGasCoin)
+      return { coins, total }
+    }
+  }
+
+  throw new CoinSelectionError('Your coins do not add up to the amount')
+}
+
+// Checks that the SUI coins left out of the selection can pay the estimated gas
+// budget. The wallet may merge several of them to pay it. Runs once the
+// selection has been dry-run, as the estimate depends on it.
+export const checkGasCoinsLeft = (
+  available: CoinStruct[],
+  selection: CoinStruct[],
+  gasBudget: Mist
+) => {
+  const selected = new Set(selection.map((coin) => coin.coinObjectId))
+  const left = coinTotal(
+    available.filter((coin) => !selected.has(coin.coinObjectId))
+  )
+
+  if (left < gasBudget) {
+    throw new CoinSelectionError(
+      `The SUI left out of the deposit (${formatSui(left)} SUI) does not cover the gas budget of ${formatSui(gasBudget)} SUI. Deposit less or pick other coins.`
+    )
+  }
+}
+
+// Validates a selection made by the user by hand.
+export const checkSelectedCoins = (
+  available: CoinStruct[],
+  selected: CoinStruct[],
+  amount: Mist,
+  reserveGasCoin: boolean
+): ICoinSelection => {
+  const total = coinTotal(selected)
+
+  if (total < amount) {
+    throw new CoinSelectionError(
+      'The selected coins do not add up to the amount'
+    )
+  }
+  assertGasCoinLeft(selected, available, reserveGasCoin)
+
+  return { coins: selected, total }
+}
@@ -0,0 +1,153 @@
+import { SuiClient } from '@mysten/sui/client'
+import {
+  normalizeStructTag,
+  parseStructTag,
+  SUI_TYPE_ARG,
+} from '@mysten/sui/utils'
+import {
+  CARD_COIN_TYPES,
+  EXTRA_CARD_COIN_TYPES,
+  TEST_COIN_MODULE_NAME,
+  TEST_COIN_PACKAGE_IDS,
+  TEST_COIN_STRUCT_NAME,
+} from '~~/dapp/config/coins'
+import { CONTRACT_MODULE_NAME } from '~~/dapp/config/network'
+import { formatAmount, parseAmount, SUI_DECIMALS } from '~~/dapp/helpers/mist'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { ENetwork } from '~~/types/ENetwork'
+
+export class CoinMetadataError extends Error {
+  name = 'CoinMetadataError'
+}
+
+export const SUI_COIN_TYPE = normalizeStructTag(SUI_TYPE_ARG)
+
+export const SUI_COIN_INFO: ICoinInfo = {
+  coinType: SUI_COIN_TYPE,
+  decimals: SUI_DECIMALS,
+  symbol: 'SUI',
+}
+
+// Stands in for the coin of a card whose type could not be read, or whose coin
+// has no CoinMetadata, so its amounts show in base units instead of being
+// scaled by another coin's decimals.
+export const UNKNOWN_COIN_INFO: ICoinInfo = {
+  coinType: '',
+  decimals: 0,
+  symbol: 'base units',
+}
+
+export const isSuiCoinType = (coinType: string) =>
+  normalizeStructTag(coinType) === SUI_COIN_TYPE
+
+export const testCoinType = (packageId: string) =>
+  normalizeStructTag(
+    `${packageId}::${TEST_COIN_MODULE_NAME}::${TEST_COIN_STRUCT_NAME}`
+  )
+
+// Coin types offered when creating a card on the given network.
+export const getCardCoinTypes = (network: string) => {
+  const coinTypes = [
+    SUI_COIN_TYPE,
+    ...(CARD_COIN_TYPES[network as ENetwork] ?? []),
+    ...EXTRA_CARD_COIN_TYPES,
+  ]
+  const testCoinPackageId = TEST_COIN_PACKAGE_IDS[network as ENetwork]
+  if (testCoinPackageId) {
+    coinTypes.push(testCoinType(testCoinPackageId))
+  }
+
+  return [...new Set(coinTypes.map((coinType) => normalizeStructTag(coinType)))]
+}
+
+// Extracts T from an object type like 0x...::card::Card<T>.
+export const cardCoinType = (objectType: string) => {
+  const { module, name, typeParams } = parseStructTag(objectType)
+  const [coinType] = typeParams
+
+  if (
+    module !== CONTRACT_MODULE_NAME ||
+    name !== 'Card' ||
+    coinType == null ||
+    typeof coinType === 'string'
+  ) {
+    throw new Error(`${objectType} is not a card type`)
+  }
+
+  return normalizeStructTag(coinType)
+}
+
+const coinInfoCache = new Map<string, Promise<ICoinInfo>>()
+
+// Reads decimals and symbol from the coin's CoinMetadata. Results are cached
+// for the lifetime of the page, since metadata is frozen for most coins.
+export const fetchCoinInfo = (
+  client: Pick<SuiClient, 'getCoinMetadata'>,
+  coinType: string
+) => {
+  const normalized = normalizeStructTag(coinType)
+  if (normalized === SUI_COIN_TYPE) {
+    return Promise.resolve(SUI_COIN_INFO)
+  }
+
+  let info = coinInfoCache.get(normalized)
+  if (info == null) {
+    info = client.getCoinMetadata({ coinType: normalized }).then((metadata) => {
+      if (metadata == null) {
+        throw new CoinMetadataError(`No coin metadata found for ${normalized}`)
+      }
+      return {
+        coinType: normalized,
+        decimals: metadata.decimals,
+        symbol: metadata.symbol,
+      }
+    })
+    // Let a failed lookup be retried
+    info.catch(() => coinInfoCache.delete(normalized))
+    coinInfoCache.set(normalized, info)
+  }
+
+  return info
+}
+
+// The coin of a card. Cards put no bound on their coin and can be sent to
+// anyone, so a coin without CoinMetadata is shown in base units rather than
+// failing every card loaded with it.
+export const fetchCardCoinInfo = async (
+  client: Pick<SuiClient, 'getCoinMetadata'>,
+  coinType: string
+): Promise<ICoinInfo> => {
+  try {
+    return await fetchCoinInfo(client, coinType)
+  } catch (error) {
+    if (!(error instanceof CoinMetadataError)) throw error
+    return { ...UNKNOWN_COIN_INFO, coinType: normalizeStructTag(coinType) }
+  }
+}
+
+export const fetchCoinInfos = async (
+  client: Pick<SuiClient, 'getCoinMetadata'>,
+  coinTypes: string[]
+) => {
+  const infos = await Promise.all(
+    [...new Set(coinTypes)].map((coinType) => fetchCoinInfo(client, coinType))
+  )
+
+  return new Map(infos.map((info) => [info.coinType, info]))
+}
+
+export const parseCoinAmount = (value: string, coin: ICoinInfo) =>
+  parseAmount(value, coin.decimals)
+
+export const formatCoinAmount = (
+  value: bigint,
+  coin: ICoinInfo,
+  maxFractionDigits: number = coin.decimals,
+  minFractionDigits: number = 0
+) =>
+  formatAmount(
+    value,
+    coin.decimals,
+    Math.min(maxFractionDigits, coin.decimals),
+    Math.min(minFractionDigits, coin.decimals)
+  )
@@ -0,0 +1,97 @@
+// Turns the Move aborts that come back from wallets and dry runs into
+// messages a card owner can act on.
+
+export interface IMoveAbort {
+  module: string
+  functionName?: string
+  code: number
+}
+
+export interface IDecodedError {
+  message: string
+  suggestion?: string
+  abort?: IMoveAbort
+}
+
+const CARD_MODULE_NAME = 'card'
+
+// Mirrors the error constants of card::card.
+const CARD_ERRORS: Record<number, { message: string; suggestion: string }> = {
+  0: {
+    message: 'Only the owner of this card can do that.',
+    suggestion: 'Switch to the wallet that created the card.',
+  },
+  1: {
+    message: 'The card balance is too low for this amount.',
+    suggestion: 'Deposit more funds or enter a smaller amount.',
+  },
+  2: {
+    message: 'This would go over the spending limit of the card.',
+    suggestion: 'Raise the spending limit or enter a smaller amount.',
+  },
+  3: {
+    message: 'The card is deactivated.',
+    suggestion: 'Reactivate the card before using it.',
+  },
+}
+
+// Debug format of the execution status, as returned by dry runs and by most
+// wallets: MoveAbort(MoveLocation { module: ModuleId { address: 0x..,
+// name: Identifier("card") }, function: 2, instruction: 10,
+// function_name: Some("spend") }, 2) in command 0
+const MOVE_ABORT_DEBUG_PATTERN =
+  /MoveAbort\(.*?name: Identifier\("(\w+)"\).*?function_name: (?:Some\("(\w+)"\)|None).*?\}, (\d+)\)/
+
+// Formatted by newer SDKs: MoveAbort in 1st command, abort code: 2,
+// in '0x..::card::spend' (line 45)
+const MOVE_ABORT_PRETTY_PATTERN =
+  /abort code: (\d+), in '0x[0-9a-fA-F]+::(\w+)::(\w+)'/
+
+export const parseMoveAbort = (message: string): IMoveAbort | null => {
+  const debug = MOVE_ABORT_DEBUG_PATTERN.exec(message)
+  if (debug != null) {
+    const [, module, functionName, code] = debug
+    return { module, functionName, code: Number(code) }
+  }
+
+  const pretty = MOVE_ABORT_PRETTY_PATTERN.exec(message)
+  if (pretty != null) {
+    const [, code, module, functionName] = pretty
+    return { module, functionName, code: Number(code) }
+  }
+
+  return null
+}
+
+export const decodeTransactionError = (
+  error: Error | string | null | undefined
+): IDecodedError => {
+  const raw = typeof error === 'string' ? error : error?.message
+  if (!raw) {
+    return { message: 'An error has occurred' }
+  }
+
+  const abort = parseMoveAbort(raw)
+  if (abort == null) {
+    return { message: raw }
+  }
+
+  const known =
+    abort.module === CARD_MODULE_NAME ? CARD_ERRORS[abort.code] : undefined
+  if (known == null) {
+    const location = abort.functionName
+      ? `${abort.module}::${abort.functionName}`
+      : abort.module
+    return { message: `Aborted in ${location} with code ${abort.code}`, abort }
+  }
+
+  return { ...known, abort }
+}
+
+// One line for toasts and inline hints.
+export const describeTransactionError = (
+  error: Error | string | null | undefined
+) => {
+  const { message, suggestion } = decodeTransactionError(error)
+  return suggestion ? `${message} ${suggestion}` : message
+}
@@ -0,0 +1,87 @@
+import { DryRunTransactionBlockResponse, SuiClient } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import {
+  DRY_RUN_GAS_BUDGET,
+  GAS_BUDGET_MARGIN_PERCENT,
+} from '~~/dapp/config/gas'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { Mist } from '~~/dapp/helpers/mist'
+
+export type TGasEstimate =
+  | {
+      ok: true
+      // Budget to set on the transaction, margin included.
+      budget: Mist
+      // Net fee the dry run charged: computation + storage - storage rebate.
+      fee: Mist
+      dryRun: DryRunTransactionBlockResponse
+    }
+  | {
+      ok: false
+      reason: string
+      dryRun?: DryRunTransactionBlockResponse
+    }
+
+const withMargin = (value: Mist, marginPercent: number) =>
+  value + (value * BigInt(Math.round(marginPercent * 100))) / 10_000n
+
+// Dry-runs a copy of the transaction as the given sender and derives a gas
+// budget from what it actually used. Never throws: failures come back as
+// { ok: false } so callers can leave the budget to the wallet.
+export const estimateGas = async (
+  client: SuiClient,
+  tx: Transaction,
+  sender: string,
+  marginPercent: number = GAS_BUDGET_MARGIN_PERCENT
+): Promise<TGasEstimate> => {
+  let dryRun: DryRunTransactionBlockResponse
+
+  try {
+    const copy = Transaction.from(tx)
+    copy.setSender(sender)
+    copy.setGasBudget(DRY_RUN_GAS_BUDGET)
+    copy.setGasPayment([])
+
+    dryRun = await client.dryRunTransactionBlock({
+      transactionBlock: await copy.build({ client }),
+    })
+  } catch (error) {
+    return {
+      ok: false,
+      reason: describeTransactionError((error as Error).message),
+    }
+  }
+
+  const { status, gasUsed } = dryRun.effects
+  if (status.status !== 'success') {
+    return {
+      ok: false,
+      reason: describeTransactionError(status.error || 'Dry run failed'),
+      dryRun,
+    }
+  }
+
+  const computation = BigInt(gasUsed.computationCost)
+  const fee =
+    computation + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate)
+
+  // As in the SDK, the budget must always cover computation on its own.
+  const budget = withMargin(
+    fee > computation ? fee : computation,
+    marginPercent
+  )
+
+  return { ok: true, budget, fee, dryRun }
+}
+
+// Applies a successful estimate. On failure the budget stays unset and the
+// wallet falls back to its own estimation.
+export const applyGasEstimate = (
+  tx: Transaction,
+  estimate: TGasEstimate | null
+) => {
+  if (estimate?.ok) {
+    tx.setGasBudget(estimate.budget)
+  }
+  return tx
+}
@@ -0,0 +1,284 @@
+import { cardEventRecipient } from '~~/dapp/helpers/cardActivity'
+import { formatAmount, Mist } from '~~/dapp/helpers/mist'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { IHistoryExportRow } from '~~/dapp/types/IHistoryExportRow'
+import { TCardEvent } from '~~/dapp/types/TCardEvent'
+
+export type THistoryExportFormat = 'csv' | 'json' | 'ofx' | 'qif'
+
+export const HISTORY_EXPORT_FORMATS: Record<
+  THistoryExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  ofx: { label: 'OFX', extension: 'ofx', mimeType: 'application/x-ofx' },
+  qif: { label: 'QIF', extension: 'qif', mimeType: 'application/qif' },
+}
+
+// Signed by direction: what came into the card is positive.
+const signedAmount = (event: TCardEvent): Mist | null => {
+  switch (event.kind) {
+    case 'Deposit':
+      return event.amount
+    case 'Spend':
+    case 'DirectTransfer':
+    case 'Withdraw':
+      return -event.amount
+    default:
+      return null
+  }
+}
+
+// Balance of the card right after the event, for events that report it.
+const balanceAfter = (event: TCardEvent): Mist | null => {
+  switch (event.kind) {
+    case 'CardCreated':
+      return 0n
+    case 'Deposit':
+    case 'Spend':
+    case 'DirectTransfer':
+    case 'Withdraw':
+      return event.newBalance
+    default:
+      return null
+  }
+}
+
+// Rows for the included events, oldest first. The running balance of each card
+// is worked out from all the events, so it stays right whichever are included.
+// A card whose earliest events are not in the history has no balance until
+// the first event that reports one.
+export const historyExportRows = (
+  events: TCardEvent[],
+  include: (event: TCardEvent) => boolean,
+  cardOf: (cardId: string) => { name: string; coin: ICoinInfo }
+): IHistoryExportRow[] => {
+  const chronological = [...events].sort(
+    (a, b) => (a.timestampMs ?? 0) - (b.timestampMs ?? 0)
+  )
+  const balances = new Map<string, Mist>()
+
+  return chronological.flatMap((event) => {
+    const reported = balanceAfter(event)
+    if (reported != null) balances.set(event.cardId, reported)
+    if (!include(event)) return []
+
+    const { name, coin } = cardOf(event.cardId)
+    const amount = signedAmount(event)
+    const balance = balances.get(event.cardId)
+
+    return [
+      {
+        id: event.id,
+        cardId: event.cardId,
+        cardName: name,
+        kind: event.kind,
+        amount: amount != null ? formatAmount(amount, coin.decimals) : null,
+        symbol: coin.symbol,
+        counterparty: cardEventRecipient(event),
+        balance: balance != null ? formatAmount(balance, coin.decimals) : null,
+        timestampMs: event.timestampMs,
+        digest: event.digest,
+      },
+    ]
+  })
+}
+
+const isoTime = (timestampMs: number | null) =>
+  timestampMs != null ? new Date(timestampMs).toISOString() : ''
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// Text that is not ours, such as nicknames and coin symbols, is kept from being
+// read as a formula by spreadsheets.
+const csvText = (value: string) =>
+  csvCell(/^[=+\-@\t\r]/.test(value) ? `'${value}` : value)
+
+const toCsv = (rows: IHistoryExportRow[]) => {
+  const header = [
+    'timestamp',
+    'card_id',
+    'card',
+    'type',
+    'amount',
+    'coin',
+    'counterparty',
+    'balance',
+    'digest',
+  ]
+  const lines = rows.map((row) =>
+    [
+      csvCell(isoTime(row.timestampMs)),
+      csvCell(row.cardId),
+      csvText(row.cardName),
+      csvCell(row.kind),
+      csvCell(row.amount ?? ''),
+      csvText(row.symbol),
+      csvText(row.counterparty ?? ''),
+      csvCell(row.balance ?? ''),
+      csvCell(row.digest),
+    ].join(',')
+  )
+  return [header.join(','), ...lines].join('\r\n') + '\r\n'
+}
+
+const toJson = (rows: IHistoryExportRow[]) =>
+  JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      transactions: rows.map(({ timestampMs, ...row }) => ({
+        ...row,
+        timestamp: timestampMs != null ? isoTime(timestampMs) : null,
+      })),
+    },
+    null,
+    2
+  )
+
+// Statements are per account, so each card gets its own. Only events that move
+// funds are statement transactions.
+const byCard = (rows: IHistoryExportRow[]) => {
+  const cards = new Map<string, IHistoryExportRow[]>()
+  for (const row of rows) {
+    if (row.amount == null) continue
+    cards.set(row.cardId, [...(cards.get(row.cardId) ?? []), row])
+  }
+  return [...cards.values()]
+}
+
+const ofxTime = (timestampMs: number | null) =>
+  new Date(timestampMs ?? Date.now())
+    .toISOString()
+    .replace(/[-:T]/g, '')
+    .slice(0, 14)
+
+const xml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const OFX_TRANSACTION_TYPES: Partial<
+  Record<IHistoryExportRow['kind'], string>
+> = {
+  Deposit: 'CREDIT',
+  Spend: 'PAYMENT',
+  DirectTransfer: 'XFER',
+  Withdraw: 'DEBIT',
+}
+
+const tag = (name: string, ...children: string[]) =>
+  `<${name}>${children.join('')}</${name}>`
+
+const OFX_STATUS = tag('STATUS', tag('CODE', '0'), tag('SEVERITY', 'INFO'))
+
+// OFX 2.2. The currency is the coin symbol, which for most coins is not an ISO
+// 4217 code, so tools may show it as unknown.
+const toOfx = (rows: IHistoryExportRow[]) => {
+  const statements = byCard(rows).map((card, i) => {
+    const first = card[0]
+    const last = card[card.length - 1]
+    const transactions = card.map((row) =>
+      tag(
+        'STMTTRN',
+        tag('TRNTYPE', OFX_TRANSACTION_TYPES[row.kind] ?? 'OTHER'),
+        tag('DTPOSTED', ofxTime(row.timestampMs)),
+        tag('TRNAMT', row.amount!),
+        tag('FITID', xml(row.id)),
+        tag('NAME', xml(row.counterparty ?? row.kind)),
+        tag('MEMO', xml(`${row.kind} ${row.digest}`))
+      )
+    )
+
+    return tag(
+      'STMTTRNRS',
+      tag('TRNUID', String(i + 1)),
+      OFX_STATUS,
+      tag(
+        'STMTRS',
+        tag('CURDEF', xml(first.symbol.toUpperCase())),
+        tag(
+          'BANKACCTFROM',
+          tag('BANKID', 'SUI'),
+          tag('ACCTID', first.cardId),
+          tag('ACCTTYPE', 'CHECKING')
+        ),
+        tag(
+          'BANKTRANLIST',
+          tag('DTSTART', ofxTime(first.timestampMs)),
+          tag('DTEND', ofxTime(last.timestampMs)),
+          ...transactions
+        ),
+        tag(
+          'LEDGERBAL',
+          tag('BALAMT', last.balance ?? '0'),
+          tag('DTASOF', ofxTime(last.timestampMs))
+        )
+      )
+    )
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    tag(
+      'OFX',
+      tag(
+        'SIGNONMSGSRSV1',
+        tag(
+          'SONRS',
+          OFX_STATUS,
+          tag('DTSERVER', ofxTime(Date.now())),
+          tag('LANGUAGE', 'ENG')
+        )
+      ),
+      tag('BANKMSGSRSV1', ...statements)
+    ),
+    '',
+  ].join('\n')
+}
+
+const qifDate = (timestampMs: number | null) => {
+  const date = new Date(timestampMs ?? Date.now())
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`
+}
+
+// One bank account per card, in the US date order most tools expect. Dates are
+// UTC like the other formats.
+const toQif = (rows: IHistoryExportRow[]) =>
+  byCard(rows)
+    .map((card) =>
+      [
+        '!Account',
+        `N${card[0].cardName}`,
+        'TBank',
+        '^',
+        '!Type:Bank',
+        ...card.map((row) =>
+          [
+            `D${qifDate(row.timestampMs)}`,
+            `T${row.amount}`,
+            `P${row.counterparty ?? row.kind}`,
+            `M${row.kind} ${row.digest}`,
+            '^',
+          ].join('\n')
+        ),
+      ].join('\n')
+    )
+    .join('\n') + '\n'
+
+export const formatHistoryExport = (
+  rows: IHistoryExportRow[],
+  format: THistoryExportFormat
+) => {
+  switch (format) {
+    case 'csv':
+      return toCsv(rows)
+    case 'json':
+      return toJson(rows)
+    case 'ofx':
+      return toOfx(rows)
+    case 'qif':
+      return toQif(rows)
+  }
+}
@@ -0,0 +1,243 @@
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils'
+import {
+  CARD_EVENT_TYPES,
+  cardEventAmount,
+  cardEventRecipient,
+} from '~~/dapp/helpers/cardActivity'
+import { parseCoinAmount } from '~~/dapp/helpers/coins'
+import { InvalidAmountError, Mist, U64_MAX } from '~~/dapp/helpers/mist'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import {
+  IHistoryFilter,
+  THistorySortKey,
+  THistoryTypeFilter,
+} from '~~/dapp/types/IHistoryFilter'
+import { TCardEvent } from '~~/dapp/types/TCardEvent'
+
+export const DEFAULT_HISTORY_FILTER: IHistoryFilter = {
+  type: 'all',
+  from: '',
+  to: '',
+  cardIds: [],
+  minAmount: '',
+  maxAmount: '',
+  recipient: '',
+  search: '',
+  sortBy: 'newest',
+}
+
+const HISTORY_SORT_KEYS: THistorySortKey[] = [
+  'newest',
+  'oldest',
+  'largest',
+  'smallest',
+]
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// A plain non-negative decimal, or the start of one while it is being typed.
+const AMOUNT_BOUND_PATTERN = /^\d*(\.\d*)?$/
+
+// Whether the text can be an amount bound: whole coins, without a sign,
+// exponent or thousands separators. Empty means no bound.
+export const isAmountBound = (value: string) =>
+  AMOUNT_BOUND_PATTERN.test(value.trim())
+
+// Names of the query params each filter is kept in. Cards repeat the param.
+const PARAMS = {
+  type: 'type',
+  from: 'from',
+  to: 'to',
+  cardIds: 'card',
+  minAmount: 'min',
+  maxAmount: 'max',
+  recipient: 'recipient',
+  search: 'q',
+  sortBy: 'sort',
+} as const satisfies Record<keyof IHistoryFilter, string>
+
+// Reads the filter from the page's query params. A type, sort or day that the
+// filter bar could not have set falls back to the default, so a mistyped link
+// still opens the history. An amount that is not one is dropped. Other text is
+// kept as typed, the filtering reads it.
+export const parseHistoryFilter = (params: URLSearchParams): IHistoryFilter => {
+  const text = (name: string) => params.get(name) ?? ''
+  const day = (name: string) => {
+    const value = text(name)
+    return DAY_PATTERN.test(value) ? value : ''
+  }
+  const amount = (name: string) => {
+    const value = text(name)
+    return isAmountBound(value) ? value : ''
+  }
+
+  const type = text(PARAMS.type) as THistoryTypeFilter
+  const sortBy = text(PARAMS.sortBy) as THistorySortKey
+
+  return {
+    type: Object.values<string>(CARD_EVENT_TYPES).includes(type)
+      ? type
+      : DEFAULT_HISTORY_FILTER.type,
+    from: day(PARAMS.from),
+    to: day(PARAMS.to),
+    cardIds: params
+      .getAll(PARAMS.cardIds)
+      .map((id) => normalizeSuiAddress(id))
+      .filter((id) => isValidSuiAddress(id)),
+    minAmount: amount(PARAMS.minAmount),
+    maxAmount: amount(PARAMS.maxAmount),
+    recipient: text(PARAMS.recipient),
+    search: text(PARAMS.search),
+    sortBy: HISTORY_SORT_KEYS.includes(sortBy)
+      ? sortBy
+      : DEFAULT_HISTORY_FILTER.sortBy,
+  }
+}
+
+// The query params for the filter, leaving out whatever is at its default so
+// shared links stay short.
+export const historyFilterParams = (filter: IHistoryFilter) => {
+  const params = new URLSearchParams()
+
+  for (const key of Object.keys(PARAMS) as (keyof IHistoryFilter)[]) {
+    const value = filter[key]
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(PARAMS[key], item))
+    } else if (value !== DEFAULT_HISTORY_FILTER[key]) {
+      params.set(PARAMS[key], value)
+    }
+  }
+
+  return params
+}
+
+export const isHistoryFiltered = (filter: IHistoryFilter) =>
+  historyFilterParams({
+    ...filter,
+    sortBy: DEFAULT_HISTORY_FILTER.sortBy,
+  }).toString() !== ''
+
+// Start of the local day, or of the day after it for an inclusive end.
+const dayStart = (day: string, offset = 0) => {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date + offset).getTime()
+}
+
+// Whether more than an empty bound or a lone decimal point has been typed.
+const amountBoundIsSet = (value: string) => value.trim().replace('.', '') !== ''
+
+// An amount bound in base units of the coin, null while none has been typed.
+// Digits beyond the coin's decimals round the bound inwards, up for a minimum
+// and down for a maximum, so comparing it with whole base units stays exact. A
+// bound beyond u64 is one no amount reaches.
+const amountBound = (value: string, coin: ICoinInfo, roundUp: boolean) => {
+  if (!amountBoundIsSet(value)) return null
+  const [whole, fraction = ''] = value.trim().split('.')
+
+  let bound: Mist
+  try {
+    bound = parseCoinAmount(
+      `${whole || '0'}.${fraction.slice(0, coin.decimals)}`,
+      coin
+    )
+  } catch (error) {
+    if (error instanceof InvalidAmountError) return U64_MAX + 1n
+    throw error
+  }
+  return roundUp && /[1-9]/.test(fraction.slice(coin.decimals))
+    ? bound + 1n
+    : bound
+}
+
+// Orders amounts of possibly different coins by what they are in whole coins,
+// without going through floating point.
+const compareWholeCoins = (
+  a: Mist,
+  aDecimals: number,
+  b: Mist,
+  bDecimals: number
+) => {
+  const left = a * 10n ** BigInt(bDecimals)
+  const right = b * 10n ** BigInt(aDecimals)
+  return left === right ? 0 : left < right ? -1 : 1
+}
+
+// Events matching every filter that is set, in the chosen order. An event
+// without a timestamp, that moves no funds or whose card's coin is unknown
+// only matches while no date range or amount range is set.
+export const filterCardEvents = (
+  events: TCardEvent[],
+  filter: IHistoryFilter,
+  cardOf: (cardId: string) => { name: string; coin: ICoinInfo | undefined }
+) => {
+  const from = filter.from !== '' ? dayStart(filter.from) : null
+  const to = filter.to !== '' ? dayStart(filter.to, 1) : null
+  const recipient = filter.recipient.trim().toLowerCase()
+  const search = filter.search.trim().toLowerCase()
+
+  const hasAmountRange =
+    amountBoundIsSet(filter.minAmount) || amountBoundIsSet(filter.maxAmount)
+
+  // The bounds are whole coins of each event's card, so they are scaled per
+  // event and compared with its amount in base units.
+  const inAmountRange = (event: TCardEvent) => {
+    if (!hasAmountRange) return true
+    const coin = cardOf(event.cardId).coin
+    if (!('amount' in event) || coin == null) return false
+    const min = amountBound(filter.minAmount, coin, true)
+    const max = amountBound(filter.maxAmount, coin, false)
+    return (
+      (min == null || event.amount >= min) &&
+      (max == null || event.amount <= max)
+    )
+  }
+
+  // Events whose card's coin, and so its decimals, is unknown sort as zero.
+  const byAmount = (a: TCardEvent, b: TCardEvent) => {
+    const aCoin = cardOf(a.cardId).coin
+    const bCoin = cardOf(b.cardId).coin
+    return compareWholeCoins(
+      aCoin != null ? cardEventAmount(a) : 0n,
+      aCoin?.decimals ?? 0,
+      bCoin != null ? cardEventAmount(b) : 0n,
+      bCoin?.decimals ?? 0
+    )
+  }
+
+  const matching = events.filter((event) => {
+    const time = event.timestampMs
+
+    return (
+      (filter.type === 'all' || CARD_EVENT_TYPES[event.kind] === filter.type) &&
+      (filter.cardIds.length === 0 || filter.cardIds.includes(event.cardId)) &&
+      (from == null || (time != null && time >= from)) &&
+      (to == null || (time != null && time < to)) &&
+      inAmountRange(event) &&
+      (recipient === '' ||
+        !!cardEventRecipient(event)?.toLowerCase().includes(recipient)) &&
+      (search === '' ||
+        [
+          event.digest,
+          event.cardId,
+          cardOf(event.cardId).name,
+          event.kind,
+          CARD_EVENT_TYPES[event.kind],
+        ].some((value) => value.toLowerCase().includes(search)))
+    )
+  })
+
+  switch (filter.sortBy) {
+    case 'newest':
+      return matching.sort(
+        (a, b) => (b.timestampMs ?? 0) - (a.timestampMs ?? 0)
+      )
+    case 'oldest':
+      return matching.sort(
+        (a, b) => (a.timestampMs ?? 0) - (b.timestampMs ?? 0)
+      )
+    case 'largest':
+      return matching.sort((a, b) => byAmount(b, a))
+    case 'smallest':
+      return matching.sort(byAmount)
+  }
+}
@@ -0,0 +1,64 @@
+import { SuiEvent } from '@mysten/sui/client'
+import { INDEXER_ENABLED_STORAGE_KEY } from '~~/dapp/config/indexer'
+import { cardEventCardId } from '~~/dapp/helpers/cardEvents'
+import { ICardVersion } from '~~/dapp/types/ICardDeployment'
+import { IStoredActivity } from '~~/dapp/types/ICardStore'
+
+export class IndexerError extends Error {
+  name = 'IndexerError'
+}
+
+export const INDEXER_ENABLED_QUERY_KEY = 'indexerEnabled'
+
+// On unless the user turned it off.
+export const loadIndexerEnabled = () =>
+  localStorage.getItem(INDEXER_ENABLED_STORAGE_KEY) !== 'false'
+
+export const saveIndexerEnabled = (enabled: boolean) =>
+  localStorage.setItem(INDEXER_ENABLED_STORAGE_KEY, String(enabled))
+
+// The owner's card events from the indexer, in the same shape as a sync from
+// the full node. The indexer has no cursors to hand out, so none are kept, and
+// a later sync from the full node starts over instead of continuing from it.
+export const fetchIndexedActivity = async (
+  indexerUrl: string,
+  versions: ICardVersion[],
+  owner: string,
+  cardIds: string[]
+): Promise<IStoredActivity> => {
+  const params = new URLSearchParams()
+  versions.forEach((version) => params.append('package', version.originalId))
+  cardIds.forEach((cardId) => params.append('card', cardId))
+
+  let response: Response
+  try {
+    response = await fetch(
+      `${indexerUrl.replace(/\/$/, '')}/owners/${owner}/events?${params}`
+    )
+  } catch {
+    throw new IndexerError('The indexer cannot be reached')
+  }
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new IndexerError(
+      body.error || `The indexer failed (HTTP ${response.status})`
+    )
+  }
+  if (!Array.isArray(body.events)) {
+    throw new IndexerError('The indexer returned no events')
+  }
+
+  const events = body.events as SuiEvent[]
+  return {
+    events,
+    cursors: [],
+    cardIds: Array.from(
+      new Set([
+        ...cardIds,
+        ...events.flatMap((event) => cardEventCardId(event) ?? []),
+      ])
+    ),
+    savedAt: Date.now(),
+  }
+}
@@ -0,0 +1,112 @@
+// Amounts are kept as bigint MIST (1 SUI = 10^9 MIST) from the moment the user
+// types them until they reach the chain, so there is no floating point step
+// where precision could be lost.
+export type Mist = bigint
+
+export const SUI_DECIMALS = 9
+export const MIST_PER_SUI: Mist = 1_000_000_000n
+export const U64_MAX: Mist = 18_446_744_073_709_551_615n
+
+export class InvalidAmountError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidAmountError'
+  }
+}
+
+const AMOUNT_PATTERN = /^(\d*)(?:\.(\d*))?$/
+
+// Parses a decimal string (e.g. "1.25") into base units with the given number of
+// decimals. Rejects anything that is not a plain non-negative decimal, including
+// exponent notation, and anything more precise than the coin supports.
+export const parseAmount = (value: string, decimals: number = SUI_DECIMALS) => {
+  const trimmed = value.trim()
+  const match = AMOUNT_PATTERN.exec(trimmed)
+
+  if (match == null || trimmed === '' || trimmed === '.') {
+    throw new InvalidAmountError(`"${value}" is not a valid amount`)
+  }
+
+  const [, whole, fraction = ''] = match
+
+  if (fraction.length > decimals) {
+    throw new InvalidAmountError(
+      `Amounts support at most ${decimals} decimal places`
+    )
+  }
+
+  const amount =
+    BigInt(whole || '0') * 10n ** BigInt(decimals) +
+    BigInt(fraction.padEnd(decimals, '0') || '0')
+
+  if (amount > U64_MAX) {
+    throw new InvalidAmountError(`"${value}" is too large`)
+  }
+
+  return amount
+}
+
+export const parseSui = (value: string): Mist =>
+  parseAmount(value, SUI_DECIMALS)
+
+// Formats base units as a decimal string. Fraction digits beyond
+// maxFractionDigits are truncated rather than rounded, so a displayed balance
+// is never higher than the real one.
+export const formatAmount = (
+  value: bigint,
+  decimals: number = SUI_DECIMALS,
+  maxFractionDigits: number = decimals,
+  minFractionDigits: number = 0
+) => {
+  const negative = value < 0n
+  const absolute = negative ? -value : value
+  const base = 10n ** BigInt(decimals)
+
+  const whole = (absolute / base).toString()
+  let fraction = (absolute % base)
+    .toString()
+    .padStart(decimals, '0')
+    .slice(0, maxFractionDigits)
+    .replace(/0+$/, '')
+
+  if (fraction.length < minFractionDigits) {
+    fraction = fraction.padEnd(minFractionDigits, '0')
+  }
+
+  const sign = negative ? '-' : ''
+
+  return fraction === '' ? `${sign}${whole}` : `${sign}${whole}.${fraction}`
+}
+
+export const formatSui = (
+  value: Mist,
+  maxFractionDigits: number = SUI_DECIMALS,
+  minFractionDigits: number = 0
+) => formatAmount(value, SUI_DECIMALS, maxFractionDigits, minFractionDigits)
+
+// Converts a u64 as returned by the RPC (usually a string in parsed JSON) to MIST.
+export const toMist = (value: unknown): Mist => {
+  if (value == null || value === '') {
+    return 0n
+  }
+
+  if (typeof value === 'bigint') {
+    return value
+  }
+
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return BigInt(value)
+  }
+
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value)
+  }
+
+  throw new InvalidAmountError(`Unexpected on-chain amount: ${String(value)}`)
+}
+
+export const minMist = (...values: Mist[]) =>
+  values.reduce((min, value) => (value < min ? value : min))
+
+export const maxMist = (...values: Mist[]) =>
+  values.reduce((max, value) => (value > max ? value : max))
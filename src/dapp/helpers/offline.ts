@@ -0,0 +1,153 @@
+import { bcs } from '@mysten/sui/bcs'
+import { SuiClient } from '@mysten/sui/client'
+import {
+  Argument,
+  Command,
+  Transaction,
+  TransactionData,
+  TransactionDataBuilder,
+} from '@mysten/sui/transactions'
+import { fromBase64, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils'
+import { verifyTransactionSignature } from '@mysten/sui/verify'
+
+// Air-gapped signing: the dApp resolves a transaction into complete BCS bytes,
+// an offline machine signs them, and the signature is pasted back here to be
+// submitted.
+
+export class OfflineSigningError extends Error {
+  name = 'OfflineSigningError'
+}
+
+export interface IDecodedTransaction {
+  // What the signer should see on the offline machine as well.
+  digest: string
+  sender: string | null
+  gasOwner: string | null
+  gasBudget: string | null
+  gasPrice: string | null
+  gasPayment: string[]
+  commands: string[]
+}
+
+// Resolves object versions, gas coins, gas price and budget, so nothing is
+// left for the signer to look up. The bytes go stale as soon as the sender
+// uses one of the gas coins or touches the card in another transaction.
+export const buildUnsignedTransaction = async (
+  client: SuiClient,
+  tx: Transaction,
+  sender: string
+) => {
+  tx.setSender(sender)
+  return toBase64(await tx.build({ client }))
+}
+
+const parseBytes = (base64: string) => {
+  try {
+    const bytes = fromBase64(base64.trim())
+    return { bytes, data: TransactionDataBuilder.fromBytes(bytes) }
+  } catch {
+    throw new OfflineSigningError('These are not valid transaction bytes')
+  }
+}
+
+// Pure inputs carry no type, so they are shown by their most likely one.
+const describePure = (base64: string) => {
+  const bytes = fromBase64(base64)
+  if (bytes.length === 8) return bcs.u64().parse(bytes)
+  if (bytes.length === 32) return bcs.Address.parse(bytes)
+  if (bytes.length === 1) return `${bytes[0]}`
+  return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`
+}
+
+const describeArgument = (data: TransactionData, argument: Argument) => {
+  switch (argument.$kind) {
+    case 'GasCoin':
+      return 'GasCoin'
+    case 'Result':
+      return `Result(${argument.Result})`
+    case 'NestedResult':
+      return `Result(${argument.NestedResult[0]}).${argument.NestedResult[1]}`
+    case 'Input': {
+      const input = data.inputs[argument.Input]
+      if (input.$kind === 'Pure') return describePure(input.Pure.bytes)
+      if (input.$kind === 'Object') {
+        const object = input.Object
+        const id =
+          object.$kind === 'ImmOrOwnedObject'
+            ? object.ImmOrOwnedObject.objectId
+            : object.$kind === 'SharedObject'
+              ? object.SharedObject.objectId
+              : object.Receiving.objectId
+        return `object ${id}`
+      }
+      return input.$kind
+    }
+  }
+}
+
+const describeCommand = (data: TransactionData, command: Command) => {
+  const args = (list: Argument[]) =>
+    list.map((argument) => describeArgument(data, argument)).join(', ')
+
+  switch (command.$kind) {
+    case 'MoveCall': {
+      const call = command.MoveCall
+      const types = call.typeArguments.length
+        ? `<${call.typeArguments.join(', ')}>`
+        : ''
+      return `${call.package}::${call.module}::${call.function}${types}(${args(call.arguments)})`
+    }
+    case 'SplitCoins':
+      return `SplitCoins(${args([command.SplitCoins.coin])}, [${args(command.SplitCoins.amounts)}])`
+    case 'MergeCoins':
+      return `MergeCoins(${args([command.MergeCoins.destination])}, [${args(command.MergeCoins.sources)}])`
+    case 'TransferObjects':
+      return `TransferObjects([${args(command.TransferObjects.objects)}], ${args([command.TransferObjects.address])})`
+    default:
+      return command.$kind
+  }
+}
+
+export const decodeTransactionBytes = (base64: string): IDecodedTransaction => {
+  const { bytes, data: builder } = parseBytes(base64)
+  const data = builder.snapshot()
+
+  return {
+    digest: TransactionDataBuilder.getDigestFromBytes(bytes),
+    sender: data.sender ?? null,
+    gasOwner: data.gasData.owner ?? null,
+    gasBudget: data.gasData.budget?.toString() ?? null,
+    gasPrice: data.gasData.price?.toString() ?? null,
+    gasPayment: (data.gasData.payment ?? []).map((coin) => coin.objectId),
+    commands: data.commands.map((command) => describeCommand(data, command)),
+  }
+}
+
+// Checks the pasted signature against the bytes before anything is submitted.
+export const verifyOfflineSignature = async (
+  base64: string,
+  signature: string
+) => {
+  const { bytes, data } = parseBytes(base64)
+  const sender = data.sender
+
+  if (sender == null) {
+    throw new OfflineSigningError('The transaction has no sender')
+  }
+
+  let signer: string
+  try {
+    const publicKey = await verifyTransactionSignature(bytes, signature.trim())
+    signer = publicKey.toSuiAddress()
+  } catch {
+    throw new OfflineSigningError(
+      'The signature does not match these transaction bytes'
+    )
+  }
+
+  if (normalizeSuiAddress(signer) !== normalizeSuiAddress(sender)) {
+    throw new OfflineSigningError(
+      `The signature is from ${signer}, not from the sender ${sender}`
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { CARD_PACKAGE_LINEAGE } from '~~/dapp/config/packages'
+import { isSuiCoinType } from '~~/dapp/helpers/coins'
+import { ICard } from '~~/dapp/types/ICard'
+import { ICardVersion } from '~~/dapp/types/ICardDeployment'
+import { ENetwork } from '~~/types/ENetwork'
+
+// Every deployment to discover cards from on the network, oldest first. The
+// configured package id marks the current one; if it is not in the lineage it
+// is a deployment of its own, added last.
+export const getCardVersions = (
+  network: string,
+  currentPackageId: string
+): ICardVersion[] => {
+  const current = normalizeSuiAddress(currentPackageId)
+  const deployments = CARD_PACKAGE_LINEAGE[network as ENetwork] ?? []
+
+  const versions = deployments.map((deployment) => {
+    const packageIds = deployment.packageIds.map((id) =>
+      normalizeSuiAddress(id)
+    )
+    return {
+      label: deployment.label,
+      originalId: packageIds[0],
+      packageId: packageIds[packageIds.length - 1],
+      generic: deployment.generic,
+      isCurrent: packageIds.includes(current),
+    }
+  })
+
+  if (!versions.some((version) => version.isCurrent)) {
+    versions.push({
+      label: `v${versions.length + 1}`,
+      originalId: current,
+      packageId: current,
+      generic: true,
+      isCurrent: true,
+    })
+  }
+
+  return versions
+}
+
+export const getCurrentCardVersion = (versions: ICardVersion[]) =>
+  versions.find((version) => version.isCurrent)!
+
+// A card can move to the current deployment if it is on another one and the
+// current one can hold its coin.
+export const canMigrateCard = (card: ICard, current: ICardVersion) =>
+  !card.version.isCurrent &&
+  (current.generic || isSuiCoinType(card.coin.coinType))
@@ -0,0 +1,43 @@
+import { DryRunTransactionBlockResponse } from '@mysten/sui/client'
+import { normalizeStructTag, parseStructTag } from '@mysten/sui/utils'
+import { Mist } from '~~/dapp/helpers/mist'
+
+export interface IPreviewBalanceChange {
+  owner: string
+  coinType: string
+  amount: Mist
+}
+
+export interface IPreviewEvent {
+  // Event struct name without the package and module, e.g. "Spend".
+  name: string
+  fields: Record<string, unknown>
+}
+
+const ownerAddress = (
+  owner: DryRunTransactionBlockResponse['balanceChanges'][number]['owner']
+) => {
+  if (typeof owner === 'string') return owner
+  if ('AddressOwner' in owner) return owner.AddressOwner
+  if ('ObjectOwner' in owner) return owner.ObjectOwner
+  return 'shared'
+}
+
+// Per-address balance changes of a dry run. The sender's entry for SUI
+// includes the gas fee.
+export const previewBalanceChanges = (
+  dryRun: DryRunTransactionBlockResponse
+): IPreviewBalanceChange[] =>
+  dryRun.balanceChanges.map((change) => ({
+    owner: ownerAddress(change.owner),
+    coinType: normalizeStructTag(change.coinType),
+    amount: BigInt(change.amount),
+  }))
+
+export const previewEvents = (
+  dryRun: DryRunTransactionBlockResponse
+): IPreviewEvent[] =>
+  dryRun.events.map((event) => ({
+    name: parseStructTag(event.type).name,
+    fields: (event.parsedJson ?? {}) as Record<string, unknown>,
+  }))
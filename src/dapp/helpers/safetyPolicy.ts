@@ -0,0 +1,142 @@
+import { normalizeStructTag } from '@mysten/sui/utils'
+import {
+  SAFETY_POLICIES,
+  UNLISTED_COIN_POLICY,
+} from '~~/dapp/config/safetyPolicy'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { Mist, U64_MAX } from '~~/dapp/helpers/mist'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { ISafetyPolicy, TPolicyOperation } from '~~/dapp/types/ISafetyPolicy'
+import { ENetwork } from '~~/types/ENetwork'
+
+export class SafetyPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SafetyPolicyError'
+  }
+}
+
+const OPERATION_LABELS: Record<TPolicyOperation, string> = {
+  deposit: 'Deposits',
+  withdraw: 'Withdrawals',
+  spend: 'Spends',
+  directTransfer: 'Transfers',
+}
+
+// The policy for the coin on the network. Unknown networks get the strictest
+// policies, coins without a policy of their own UNLISTED_COIN_POLICY.
+export const getSafetyPolicy = (
+  network: string,
+  coinType: string
+): ISafetyPolicy => {
+  const policies =
+    SAFETY_POLICIES[network as ENetwork] ?? SAFETY_POLICIES[ENetwork.MAINNET]
+  if (coinType === '') return UNLISTED_COIN_POLICY
+
+  const normalized = normalizeStructTag(coinType)
+  const entry = Object.entries(policies).find(
+    ([listed]) => normalizeStructTag(listed) === normalized
+  )
+
+  return entry?.[1] ?? UNLISTED_COIN_POLICY
+}
+
+const format = (value: Mist, coin: ICoinInfo) =>
+  `${formatCoinAmount(value, coin)} ${coin.symbol}`
+
+export const describeAmountRule = (
+  policy: ISafetyPolicy,
+  operation: TPolicyOperation,
+  coin: ICoinInfo
+) => {
+  const { min, max } = policy.operations[operation]
+  const label = OPERATION_LABELS[operation]
+
+  if (policy === UNLISTED_COIN_POLICY) {
+    return `There is no safety policy for ${coin.symbol} on this network, so every amount has to be confirmed.`
+  }
+
+  if (max === U64_MAX) {
+    return `${label} on this network must be at least ${format(min, coin)}.`
+  }
+
+  return `${label} on this network must be between ${format(min, coin)} and ${format(max, coin)}.`
+}
+
+export const describeDailyCap = (
+  policy: ISafetyPolicy,
+  operation: TPolicyOperation,
+  coin: ICoinInfo,
+  usedToday: Mist
+) => {
+  const { amount, operations } = policy.dailyCap
+  if (!operations.includes(operation)) {
+    return null
+  }
+
+  const remaining = amount > usedToday ? amount - usedToday : 0n
+
+  return `Daily cap: ${format(amount, coin)} across ${operations
+    .map((op) => OPERATION_LABELS[op].toLowerCase())
+    .join(', ')} (${format(remaining, coin)} left today).`
+}
+
+// Throws a SafetyPolicyError explaining which rule the amount breaks.
+export const checkAgainstPolicy = (
+  policy: ISafetyPolicy,
+  operation: TPolicyOperation,
+  coin: ICoinInfo,
+  amount: Mist,
+  usedToday: Mist = 0n
+) => {
+  const { min, max } = policy.operations[operation]
+
+  if (amount < min || amount > max) {
+    throw new SafetyPolicyError(describeAmountRule(policy, operation, coin))
+  }
+
+  const { dailyCap } = policy
+  if (
+    dailyCap.operations.includes(operation) &&
+    usedToday + amount > dailyCap.amount
+  ) {
+    throw new SafetyPolicyError(
+      `This would exceed the daily cap of ${format(dailyCap.amount, coin)} (${format(usedToday, coin)} already used today).`
+    )
+  }
+}
+
+export const requiresConfirmation = (policy: ISafetyPolicy, amount: Mist) =>
+  amount >= policy.confirmationThreshold
+
+// Daily usage is tallied per device in localStorage, keyed by network, address,
+// coin type and UTC day. It is a guard rail for this UI, not an on-chain
+// guarantee.
+const usageKey = (network: string, address: string, coinType: string) =>
+  `safety-policy-usage:${network}:${address}:${coinType}:${new Date().toISOString().slice(0, 10)}`
+
+export const getDailyUsage = (
+  network: string,
+  address: string,
+  coinType: string
+): Mist => {
+  const stored = localStorage.getItem(usageKey(network, address, coinType))
+
+  return stored != null && /^\d+$/.test(stored) ? BigInt(stored) : 0n
+}
+
+export const recordDailyUsage = (
+  policy: ISafetyPolicy,
+  network: string,
+  address: string,
+  coinType: string,
+  operation: TPolicyOperation,
+  amount: Mist
+) => {
+  if (!policy.dailyCap.operations.includes(operation)) {
+    return
+  }
+
+  const total = getDailyUsage(network, address, coinType) + amount
+  localStorage.setItem(usageKey(network, address, coinType), total.toString())
+}
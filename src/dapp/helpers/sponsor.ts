@@ -0,0 +1,73 @@
+import { SuiClient } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { toBase64 } from '@mysten/sui/utils'
+import { SPONSORED_GAS_STORAGE_KEY } from '~~/dapp/config/sponsor'
+
+export class SponsorError extends Error {
+  name = 'SponsorError'
+}
+
+export interface ISponsoredTransaction {
+  // Full transaction data with the sponsor's gas payment, base64 encoded.
+  bytes: string
+  sponsorSignature: string
+}
+
+// Set by SponsoredGasToggle through react-use's useLocalStorage, which stores
+// JSON.
+export const isSponsoredGasEnabled = () => {
+  try {
+    return (
+      JSON.parse(localStorage.getItem(SPONSORED_GAS_STORAGE_KEY) ?? 'false') ===
+      true
+    )
+  } catch {
+    return false
+  }
+}
+
+// Sends the transaction kind (commands and inputs, no gas data) to the gas
+// station, which sets itself as gas owner and signs. The sender still has to
+// sign the returned bytes.
+export const requestSponsorship = async (
+  sponsorUrl: string,
+  client: SuiClient,
+  tx: Transaction,
+  sender: string
+): Promise<ISponsoredTransaction> => {
+  // Deposits without explicit coins pick the sender's coins while building.
+  tx.setSender(sender)
+  const kindBytes = await tx.build({ client, onlyTransactionKind: true })
+
+  let response: Response
+  try {
+    response = await fetch(`${sponsorUrl.replace(/\/$/, '')}/sponsor`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sender,
+        transactionKindBytes: toBase64(kindBytes),
+      }),
+    })
+  } catch {
+    throw new SponsorError('The gas station cannot be reached')
+  }
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new SponsorError(
+      body.error || `The gas station declined (HTTP ${response.status})`
+    )
+  }
+  if (
+    typeof body.transactionBytes !== 'string' ||
+    typeof body.sponsorSignature !== 'string'
+  ) {
+    throw new SponsorError('The gas station sent an invalid response')
+  }
+
+  return {
+    bytes: body.transactionBytes,
+    sponsorSignature: body.sponsorSignature,
+  }
+}
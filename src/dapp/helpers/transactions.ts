@@ -1,4 +1,11 @@
 import { Transaction } from '@mysten/sui/transactions'
+import { createCardClient } from '~~/dapp/helpers/cardClient'
+import { Mist } from '~~/dapp/helpers/mist'
+import { checkAgainstPolicy } from '~~/dapp/helpers/safetyPolicy'
+import { ICard } from '~~/dapp/types/ICard'
+import { ICardVersion } from '~~/dapp/types/ICardDeployment'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { ISafetyPolicy } from '~~/dapp/types/ISafetyPolicy'
 import { fullFunctionName } from '~~/helpers/network'
 
 // Maintaining backward compatibility with counter functions
@@ -41,251 +48,168 @@ export const prepareDecrementCounterTransaction = (
 }
 
 // Card Functions
-// Create a new virtual card with a spending limit
+// These delegate to the typed CardClient. Calls on an existing card go to the
+// card's version, which also says whether its functions take the coin type.
+// Amounts are in the base units of the card's coin type (MIST for SUI cards),
+// checked against the safety policy of that coin.
+
+// Create a new virtual card holding the given coin type, with a spending limit
 export const prepareCreateCardTransaction = (
   packageId: string,
-  spendingLimit: number | string
+  coinType: string,
+  spendingLimit: Mist
 ): Transaction => {
-  const tx = new Transaction()
-  const spendingLimitValue = typeof spendingLimit === 'string' ? parseInt(spendingLimit) : spendingLimit
-  
-  tx.moveCall({
-    arguments: [tx.pure.u64(spendingLimitValue)],
-    target: fullFunctionName(packageId, 'create_card'),
-  })
-
-  return tx
+  return createCardClient(packageId).createCard({ spendingLimit, coinType })
 }
 
-// Simplified deposit that supports variable amounts with safety limits
+// Deposit an amount taken from the given coins, leaving the gas coin alone
 export const prepareDepositTransaction = (
-  packageId: string,
+  version: ICardVersion,
   cardId: string,
-  _coinObjectId?: string, // Kept for backwards compatibility but not used
-  amount?: string | number
+  coin: ICoinInfo,
+  coinIds: string[],
+  amount: Mist,
+  policy: ISafetyPolicy
 ): Transaction => {
-  console.log('Creating deposit transaction')
-  console.log('- Package ID:', packageId)
-  console.log('- Card ID:', cardId)
-  console.log('- Requested amount:', amount || '0.005 SUI (default)')
-  
-  // Create a new transaction with conservative gas settings
-  const tx = new Transaction()
-  tx.setGasBudget(30_000_000) // High gas budget to ensure success
-  
-  // Determine deposit amount with safety limits
-  let depositAmount = 5_000_000 // Default 0.005 SUI in MIST
-  
-  if (amount && Number(amount) > 0) {
-    // Convert amount from SUI to MIST
-    const requestedAmount = Math.floor(Number(amount) * 1_000_000_000)
-    
-    // Cap at 0.1 SUI (100M MIST) for safety during testing
-    const maxAmount = 100_000_000
-    depositAmount = Math.min(requestedAmount, maxAmount)
-    
-    console.log('- Deposit amount in MIST:', depositAmount)
-  }
-  
-  // Split the amount from gas and deposit directly
-  const [splitCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(depositAmount)])
-  
-  // Call the deposit function directly
-  tx.moveCall({
-    target: fullFunctionName(packageId, 'deposit'),
-    arguments: [tx.object(cardId), splitCoin],
+  checkAgainstPolicy(policy, 'deposit', coin, amount)
+  const { coinType } = coin
+
+  return createCardClient(version.packageId, version.generic).deposit({
+    cardId,
+    coinType,
+    amount,
+    coinIds,
   })
-  
-  console.log('Transaction prepared successfully')
-  return tx
 }
 
-// Withdraw from a card - enhanced with our successful pattern
+// Withdraw from a card
 export const prepareWithdrawTransaction = (
-  packageId: string,
+  version: ICardVersion,
   cardId: string,
-  amount: string | number
+  coin: ICoinInfo,
+  amount: Mist,
+  policy: ISafetyPolicy
 ): Transaction => {
-  console.log('Creating withdraw transaction:')
-  console.log('- Package ID:', packageId)
-  console.log('- Card ID:', cardId)
-  console.log('- Withdraw amount:', amount, 'SUI')
-  
-  // Create a transaction with explicit gas settings
-  const tx = new Transaction()
-  tx.setGasBudget(30_000_000) // High gas budget to ensure success
-  
-  // Convert amount from SUI to MIST (1 SUI = 10^9 MIST)
-  const amountInMist = Math.floor(Number(amount) * 1_000_000_000)
-  
-  // Safety check for minimum amount
-  if (amountInMist < 1_000_000) { // 0.001 SUI minimum
-    throw new Error('Minimum withdrawal amount is 0.001 SUI')
-  }
-  
-  // Call the withdraw function directly
-  tx.moveCall({
-    target: fullFunctionName(packageId, 'withdraw'),
-    arguments: [tx.object(cardId), tx.pure.u64(amountInMist)],
+  checkAgainstPolicy(policy, 'withdraw', coin, amount)
+  const { coinType } = coin
+
+  return createCardClient(version.packageId, version.generic).withdraw({
+    cardId,
+    coinType,
+    amount,
   })
-  
-  console.log('Withdraw transaction prepared successfully')
-  return tx
 }
 
-// Spend from a card with recipient - enhanced with our reliable transaction pattern
+// Spend from a card, to the recipient or back to the owner if none is given
 export const prepareSpendTransaction = (
-  packageId: string,
+  version: ICardVersion,
   cardId: string,
-  amount: number | string,
-  recipientAddress?: string // Optional recipient address
+  coin: ICoinInfo,
+  amount: Mist,
+  policy: ISafetyPolicy,
+  recipientAddress?: string
 ): Transaction => {
-  console.log('Creating spend transaction:')
-  console.log('- Package ID:', packageId)
-  console.log('- Card ID:', cardId)
-  console.log('- Spend amount:', amount, 'SUI')
-  
-  // Create transaction with explicit gas settings
-  const tx = new Transaction()
-  tx.setGasBudget(30_000_000) // High gas budget to ensure success
-  
-  // Convert amount from SUI to MIST (1 SUI = 10^9 MIST)
-  const amountInMist = Math.floor(Number(amount) * 1_000_000_000)
-  
-  // Safety check for minimum amount
-  if (amountInMist < 1_000_000) { // 0.001 SUI minimum
-    throw new Error('Minimum spend amount is 0.001 SUI')
-  }
-  
-  // Safety check for maximum amount - use very small amounts to avoid exceeding spending limit
-  const maxAmount = 5_000_000 // 0.005 SUI in MIST - much lower limit for safety
-  if (amountInMist > maxAmount) {
-    throw new Error('Maximum spend amount is 0.005 SUI during testing')
-  }
-  
-  if (recipientAddress) {
-    // Use the new spend function with recipient parameter
-    console.log('- Sending to recipient:', recipientAddress)
-    tx.moveCall({
-      arguments: [
-        tx.object(cardId), 
-        tx.pure.u64(amountInMist),
-        tx.pure.address(recipientAddress)
-      ],
-      target: fullFunctionName(packageId, 'spend'),
-    })
-  } else {
-    // If no recipient specified, use the backward-compatible function
-    console.log('- No recipient specified, sending back to owner')
-    tx.moveCall({
-      arguments: [tx.object(cardId), tx.pure.u64(amountInMist)],
-      target: fullFunctionName(packageId, 'spend_to_owner'),
-    })
-  }
-
-  console.log('Spend transaction prepared successfully')
-  return tx
+  checkAgainstPolicy(policy, 'spend', coin, amount)
+  const { coinType } = coin
+
+  const cardClient = createCardClient(version.packageId, version.generic)
+
+  return recipientAddress
+    ? cardClient.spend({
+        cardId,
+        coinType,
+        amount,
+        recipient: recipientAddress,
+      })
+    : cardClient.spendToOwner({ cardId, coinType, amount })
 }
 
-// Direct transfer from a card - a more reliable approach that bypasses spending limits
+// Direct transfer from a card - bypasses spending limits
 export const prepareDirectTransferTransaction = (
-  packageId: string,
+  version: ICardVersion,
   cardId: string,
-  amount: number | string,
-  recipientAddress: string // Required recipient address
+  coin: ICoinInfo,
+  amount: Mist,
+  recipientAddress: string,
+  policy: ISafetyPolicy
 ): Transaction => {
-  console.log('Creating direct transfer transaction:')
-  console.log('- Package ID:', packageId)
-  console.log('- Card ID:', cardId)
-  console.log('- Transfer amount:', amount, 'SUI')
-  console.log('- Recipient:', recipientAddress)
-  
-  // Create transaction with explicit gas settings
-  const tx = new Transaction()
-  tx.setGasBudget(30_000_000) // High gas budget to ensure success
-  
-  // Convert amount from SUI to MIST (1 SUI = 10^9 MIST)
-  const amountInMist = Math.floor(Number(amount) * 1_000_000_000)
-  
-  // Safety check for minimum amount
-  if (amountInMist < 1_000_000) { // 0.001 SUI minimum
-    throw new Error('Minimum transfer amount is 0.001 SUI')
-  }
-  
-  // Safety check for maximum amount - limit to 0.2 SUI during testing
-  const maxAmount = 200_000_000 // 0.2 SUI in MIST
-  if (amountInMist > maxAmount) {
-    throw new Error('Maximum transfer amount is 0.2 SUI during testing')
-  }
-  
-  // Call the direct_transfer function with recipient parameter
-  tx.moveCall({
-    arguments: [
-      tx.object(cardId), 
-      tx.pure.u64(amountInMist),
-      tx.pure.address(recipientAddress)
-    ],
-    target: fullFunctionName(packageId, 'direct_transfer'),
+  checkAgainstPolicy(policy, 'directTransfer', coin, amount)
+  const { coinType } = coin
+
+  return createCardClient(version.packageId, version.generic).directTransfer({
+    cardId,
+    coinType,
+    amount,
+    recipient: recipientAddress,
   })
-
-  console.log('Direct transfer transaction prepared successfully')
-  return tx
 }
 
 // Deactivate a card
 export const prepareDeactivateCardTransaction = (
-  packageId: string,
-  cardId: string
+  version: ICardVersion,
+  cardId: string,
+  coinType: string
 ): Transaction => {
-  const tx = new Transaction()
-  tx.setGasBudget(30_000_000) // High gas budget to ensure success
-  
-  tx.moveCall({
-    arguments: [tx.object(cardId)],
-    target: fullFunctionName(packageId, 'deactivate_card'),
+  return createCardClient(version.packageId, version.generic).deactivateCard({
+    cardId,
+    coinType,
   })
-
-  return tx
 }
 
-// Update the spending limit of a card - using our reliable transaction pattern
+// Update the spending limit of a card
 export const prepareUpdateSpendingLimitTransaction = (
-  packageId: string,
+  version: ICardVersion,
   cardId: string,
-  newLimit: number | string
+  coinType: string,
+  newLimit: Mist
 ): Transaction => {
-  console.log('Creating update spending limit transaction:')
-  console.log('- Package ID:', packageId)
-  console.log('- Card ID:', cardId)
-  console.log('- New limit:', newLimit, 'SUI')
-  
-  // Create transaction with explicit gas settings
-  const tx = new Transaction()
-  tx.setGasBudget(30_000_000) // High gas budget to ensure success
-  
-  // Convert new limit from SUI to MIST (1 SUI = 10^9 MIST)
-  const newLimitInMist = Math.floor(Number(newLimit) * 1_000_000_000)
-  
-  // Call the update_spending_limit function 
-  tx.moveCall({
-    arguments: [tx.object(cardId), tx.pure.u64(newLimitInMist)],
-    target: fullFunctionName(packageId, 'update_spending_limit'),
+  return createCardClient(
+    version.packageId,
+    version.generic
+  ).updateSpendingLimit({
+    cardId,
+    coinType,
+    newLimit,
   })
-
-  console.log('Update spending limit transaction prepared successfully')
-  return tx
 }
 
 // Reactivate a card
 export const prepareReactivateCardTransaction = (
-  packageId: string,
-  cardId: string
+  version: ICardVersion,
+  cardId: string,
+  coinType: string
 ): Transaction => {
-  const tx = new Transaction()
-  tx.moveCall({
-    arguments: [tx.object(cardId)],
-    target: fullFunctionName(packageId, 'reactivate_card'),
+  return createCardClient(version.packageId, version.generic).reactivateCard({
+    cardId,
+    coinType,
   })
+}
 
-  return tx
+// Move a card to the current deployment: the balance goes back to the owner,
+// the old card is deactivated and a new card with the same spending limit is
+// created. create_card transfers the new card to the sender, so it cannot be
+// funded in the same transaction.
+export const prepareMigrateCardTransaction = (
+  card: ICard,
+  current: ICardVersion
+): Transaction => {
+  const tx = new Transaction()
+  const { id: cardId } = card
+  const { coinType } = card.coin
+  const previous = createCardClient(
+    card.version.packageId,
+    card.version.generic
+  )
+
+  if (card.balance > 0n) {
+    previous.withdraw({ cardId, coinType, amount: card.balance }, tx)
+  }
+  if (card.isActive) {
+    previous.deactivateCard({ cardId, coinType }, tx)
+  }
+
+  return createCardClient(current.packageId, current.generic).createCard(
+    { spendingLimit: card.spendingLimit, coinType },
+    tx
+  )
 }
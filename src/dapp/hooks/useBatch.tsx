@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react'
+import { TBatchOperation } from '~~/dapp/types/TBatchOperation'
+
+// Queue of card operations waiting to be signed together.
+const useBatch = () => {
+  const [operations, setOperations] = useState<TBatchOperation[]>([])
+
+  const add = useCallback((operation: TBatchOperation) => {
+    setOperations((current) => [...current, operation])
+  }, [])
+
+  const remove = useCallback((index: number) => {
+    setOperations((current) => current.filter((_, i) => i !== index))
+  }, [])
+
+  // Moves an operation one step up (-1) or down (1); order matters on chain.
+  const move = useCallback((index: number, direction: -1 | 1) => {
+    setOperations((current) => {
+      const target = index + direction
+      if (target < 0 || target >= current.length) {
+        return current
+      }
+
+      const next = [...current]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }, [])
+
+  const clear = useCallback(() => {
+    setOperations([])
+  }, [])
+
+  return { operations, add, remove, move, clear }
+}
+
+export default useBatch
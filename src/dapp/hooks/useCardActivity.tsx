@@ -0,0 +1,127 @@
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit'
+import { SuiClient } from '@mysten/sui/client'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useMemo } from 'react'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import {
+  CARD_ACTIVITY_QUERY_KEY,
+  cardActivityQueryKey,
+  decodeCardEvents,
+  syncCardActivity,
+} from '~~/dapp/helpers/cardActivity'
+import {
+  cardStoreKey,
+  loadStoredActivity,
+  saveStoredActivity,
+} from '~~/dapp/helpers/cardStore'
+import { fetchIndexedActivity } from '~~/dapp/helpers/indexer'
+import { getCardVersions } from '~~/dapp/helpers/packages'
+import useCards from '~~/dapp/hooks/useCards'
+import useIndexer from '~~/dapp/hooks/useIndexer'
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount'
+import { IStoredActivity } from '~~/dapp/types/ICardStore'
+import { TCardEvent } from '~~/dapp/types/TCardEvent'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+const NO_EVENTS: TCardEvent[] = []
+
+// Card events of the viewed account across every deployment, decoded and
+// newest first. The dashboard and both history views are fed from here.
+//
+// They are kept in IndexedDB and shown from there straight away. Each sync only
+// fetches the events emitted since the last one, and if the RPC cannot be
+// reached the saved events stay on screen. With an indexer configured they are
+// loaded from it instead, and from the full node whenever it fails.
+const useCardActivity = () => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const { network } = useSuiClientContext()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const owner = useViewedAccount().address
+  const { cards, loading: cardsLoading, loadingMore } = useCards()
+  const queryClient = useQueryClient()
+  const { indexerUrl } = useIndexer()
+
+  const versions = useMemo(
+    () => getCardVersions(network, packageId),
+    [network, packageId]
+  )
+  const storeKey = owner && cardStoreKey(network, packageId, owner)
+  const queryKey = [
+    ...cardActivityQueryKey(network, packageId, owner),
+    indexerUrl ?? 'rpc',
+  ]
+
+  const stored = useQuery({
+    queryKey: [CARD_ACTIVITY_QUERY_KEY, 'stored', storeKey],
+    queryFn: () => loadStoredActivity(storeKey!),
+    enabled: !!storeKey && !!packageId,
+    staleTime: Infinity,
+    // Reading IndexedDB needs no network.
+    networkMode: 'always',
+  })
+
+  const synced = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const cardIds = cards.map((card) => card.id)
+      const indexed =
+        indexerUrl &&
+        (await fetchIndexedActivity(
+          indexerUrl,
+          versions,
+          owner!,
+          cardIds
+        ).catch((e) => {
+          console.warn('Loading card history from the full node instead', e)
+          return null
+        }))
+      if (indexed) {
+        await saveStoredActivity(storeKey!, indexed)
+        return indexed
+      }
+
+      // Continue from the last sync of this session, or else the saved one.
+      const from =
+        queryClient.getQueryData<IStoredActivity>(queryKey) ??
+        stored.data ??
+        null
+      const activity = await syncCardActivity(
+        client,
+        versions,
+        owner!,
+        cardIds,
+        from
+      )
+      await saveStoredActivity(storeKey!, activity)
+      return activity
+    },
+    // Waits for the whole card list, a partial one would start history over
+    // once the rest arrives.
+    enabled: !!storeKey && stored.isSuccess && !cardsLoading && !loadingMore,
+  })
+
+  const { refetch } = synced
+  const refresh = useCallback(() => refetch(), [refetch])
+
+  const activity = synced.data ?? stored.data
+  const events = useMemo(
+    () => (activity ? decodeCardEvents(activity.events) : NO_EVENTS),
+    [activity]
+  )
+
+  return {
+    events,
+    loading:
+      activity == null &&
+      (stored.isLoading || cardsLoading || loadingMore || synced.isLoading),
+    refreshing: synced.isFetching,
+    error: synced.error,
+    // When the events shown are the saved ones, when they were last synced.
+    savedAt: synced.data == null ? stored.data?.savedAt : undefined,
+    refresh,
+  }
+}
+
+export default useCardActivity
@@ -0,0 +1,42 @@
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit'
+import { SuiClient } from '@mysten/sui/client'
+import { useQuery } from '@tanstack/react-query'
+import { useCallback, useMemo } from 'react'
+import { CARD_COINS_QUERY_KEY, fetchCardCoins } from '~~/dapp/helpers/cards'
+import useCards from '~~/dapp/hooks/useCards'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+
+// The coin of every card in cardIds. Events do not name it, so history views
+// take it from the viewed account's cards, and read it from the object type
+// for the others, e.g. cards handed on since.
+//
+// coinOf returns undefined for a card whose type could not be read.
+const useCardCoinOf = (cardIds: string[]) => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const { network } = useSuiClientContext()
+  const { cards } = useCards()
+
+  const missing = useMemo(() => {
+    const known = new Set(cards.map((card) => card.id))
+    return [...new Set(cardIds)].filter((id) => !known.has(id)).sort()
+  }, [cards, cardIds])
+
+  const { data, isLoading } = useQuery({
+    queryKey: [CARD_COINS_QUERY_KEY, network, missing],
+    queryFn: () => fetchCardCoins(client, missing),
+    enabled: missing.length > 0,
+    // A card's coin never changes.
+    staleTime: Infinity,
+  })
+
+  const coinOf = useCallback(
+    (cardId: string): ICoinInfo | undefined =>
+      cards.find((card) => card.id === cardId)?.coin ?? data?.get(cardId),
+    [cards, data]
+  )
+
+  return { coinOf, loading: missing.length > 0 && isLoading }
+}
+
+export default useCardCoinOf
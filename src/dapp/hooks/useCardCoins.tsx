@@ -0,0 +1,41 @@
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit'
+import { useEffect, useState } from 'react'
+import {
+  fetchCoinInfo,
+  getCardCoinTypes,
+  SUI_COIN_INFO,
+} from '~~/dapp/helpers/coins'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+
+// Coins a new card can hold on the current network. Coin types whose metadata
+// cannot be read (e.g. a test coin that was never published) are left out.
+const useCardCoins = () => {
+  const client = useSuiClient()
+  const { network } = useSuiClientContext()
+  const [coins, setCoins] = useState<ICoinInfo[]>([SUI_COIN_INFO])
+
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.allSettled(
+      getCardCoinTypes(network).map((coinType) =>
+        fetchCoinInfo(client, coinType)
+      )
+    ).then((results) => {
+      if (cancelled) return
+      setCoins(
+        results.flatMap((result) =>
+          result.status === 'fulfilled' ? [result.value] : []
+        )
+      )
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [client, network])
+
+  return coins
+}
+
+export default useCardCoins
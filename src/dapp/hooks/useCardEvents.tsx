@@ -0,0 +1,84 @@
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit'
+import { EventId, SuiClient } from '@mysten/sui/client'
+import { useQueryClient } from '@tanstack/react-query'
+import { useEffect, useMemo } from 'react'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { CARD_EVENTS_POLL_INTERVAL_MS } from '~~/dapp/config/events'
+import {
+  applyCardEvents,
+  addsCardFor,
+  fetchCardEventsSince,
+  latestCardEventCursor,
+} from '~~/dapp/helpers/cardEvents'
+import { cachedCardOwners, CARDS_QUERY_KEY } from '~~/dapp/helpers/cards'
+import { getCardVersions } from '~~/dapp/helpers/packages'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+
+// Keeps every cached card in step with the chain, the connected wallet's and
+// watched ones alike. Deposits, spends and transfers are applied to the cards
+// they touch as soon as they are seen, whichever device sent them; a new card
+// for one of the cached owners reloads the lists.
+//
+// Mount it once, it polls for as long as it is mounted.
+const useCardEvents = () => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const { network } = useSuiClientContext()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const queryClient = useQueryClient()
+
+  const versions = useMemo(
+    () => getCardVersions(network, packageId),
+    [network, packageId]
+  )
+
+  useEffect(() => {
+    if (!packageId) return
+
+    let stopped = false
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    let cursors: (EventId | null)[] | undefined
+
+    const poll = async () => {
+      try {
+        if (cursors == null) {
+          cursors = await Promise.all(
+            versions.map((version) => latestCardEventCursor(client, version))
+          )
+        } else {
+          const results = await Promise.all(
+            versions.map((version, i) =>
+              fetchCardEventsSince(client, version, cursors![i])
+            )
+          )
+          if (stopped) return
+
+          cursors = results.map((result) => result.cursor)
+          const events = results.flatMap((result) => result.events)
+
+          applyCardEvents(queryClient, events)
+          if (addsCardFor(events, cachedCardOwners(queryClient))) {
+            queryClient.invalidateQueries({ queryKey: [CARDS_QUERY_KEY] })
+          }
+        }
+      } catch (e) {
+        // The next poll starts from the same cursors, so nothing is missed.
+        console.error('Failed to poll card events', e)
+      }
+
+      if (!stopped) {
+        timeout = setTimeout(poll, CARD_EVENTS_POLL_INTERVAL_MS)
+      }
+    }
+
+    poll()
+
+    return () => {
+      stopped = true
+      clearTimeout(timeout)
+    }
+  }, [client, packageId, versions, queryClient])
+}
+
+export default useCardEvents
@@ -0,0 +1,48 @@
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit'
+import { SuiClient } from '@mysten/sui/client'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { useMemo } from 'react'
+import {
+  CARD_HISTORY_QUERY_KEY,
+  fetchCardHistoryPage,
+} from '~~/dapp/helpers/cardHistory'
+import { ICard } from '~~/dapp/types/ICard'
+
+// Transactions that changed the card, newest first, a page at a time. Keyed on
+// the card's last transaction, so the history reloads whenever the card changes.
+const useCardHistory = (card: ICard) => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const { network } = useSuiClientContext()
+
+  const query = useInfiniteQuery({
+    queryKey: [
+      CARD_HISTORY_QUERY_KEY,
+      network,
+      card.id,
+      card.previousTransaction,
+    ],
+    queryFn: ({ pageParam }) =>
+      fetchCardHistoryPage(client, card.id, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Keep showing the old history while the new one loads
+    placeholderData: (previous) => previous,
+  })
+
+  const entries = useMemo(
+    () => query.data?.pages.flatMap((page) => page.entries) ?? [],
+    [query.data]
+  )
+
+  return {
+    entries,
+    loading: query.isLoading,
+    error: query.error,
+    hasMore: query.hasNextPage,
+    loadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+  }
+}
+
+export default useCardHistory
@@ -0,0 +1,62 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import {
+  CARD_LABELS_QUERY_KEY,
+  cardDisplayName,
+  exportCardLabels,
+  importCardLabels,
+  loadCardLabels,
+  saveCardLabels,
+} from '~~/dapp/helpers/cardLabels'
+import { ICardLabel, TCardLabels } from '~~/dapp/types/ICardLabel'
+
+const NO_LABELS: TCardLabels = {}
+
+// Nicknames, colors, icons and notes for cards, kept in localStorage. They go
+// through the react-query cache so every component sees an edit straight away.
+const useCardLabels = () => {
+  const queryClient = useQueryClient()
+  const { data: labels = NO_LABELS } = useQuery({
+    queryKey: [CARD_LABELS_QUERY_KEY],
+    queryFn: loadCardLabels,
+    staleTime: Infinity,
+  })
+
+  const update = useCallback(
+    (next: TCardLabels) => {
+      saveCardLabels(next)
+      queryClient.setQueryData([CARD_LABELS_QUERY_KEY], next)
+    },
+    [queryClient]
+  )
+
+  // Pass null to forget the card's label.
+  const setLabel = (cardId: string, label: ICardLabel | null) => {
+    const next = { ...labels }
+    if (label == null) {
+      delete next[cardId]
+    } else {
+      next[cardId] = label
+    }
+    update(next)
+  }
+
+  // Imported labels replace existing ones for the same card and leave the
+  // others alone. Returns how many were imported.
+  const importLabels = (json: string) => {
+    const imported = importCardLabels(json)
+    update({ ...labels, ...imported })
+    return Object.keys(imported).length
+  }
+
+  return {
+    labels,
+    labelOf: (cardId: string): ICardLabel | undefined => labels[cardId],
+    cardName: (cardId: string) => cardDisplayName(cardId, labels[cardId]),
+    setLabel,
+    importLabels,
+    exportLabels: () => exportCardLabels(labels),
+  }
+}
+
+export default useCardLabels
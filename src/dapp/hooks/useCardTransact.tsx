@@ -0,0 +1,66 @@
+import { Transaction } from '@mysten/sui/transactions'
+import useTransact from '@suiware/kit/useTransact'
+import { useQueryClient } from '@tanstack/react-query'
+import { SPONSOR_URL } from '~~/dapp/config/sponsor'
+import {
+  applyTransactionToCards,
+  CARD_EFFECTS_OPTIONS,
+  reconcileCards,
+} from '~~/dapp/helpers/cardEffects'
+import { isSponsoredGasEnabled } from '~~/dapp/helpers/sponsor'
+import useSponsoredTransact, {
+  ITransactOptions,
+} from '~~/dapp/hooks/useSponsoredTransact'
+import useOffline from '~~/dapp/hooks/useOffline'
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount'
+
+// useTransact that goes through the gas station when one is configured and the
+// user opted in. The choice is read when the transaction is sent, so toggling
+// it applies to forms that are already open.
+//
+// Both wait for the transaction to be indexed before calling onSuccess. Its
+// effect on the cached cards is applied right away, so lists show the new
+// balances before onSuccess runs, then the cards are refetched to confirm it.
+const useCardTransact = (options: ITransactOptions = {}) => {
+  const queryClient = useQueryClient()
+  const { watchOnly } = useViewedAccount()
+  const offline = useOffline()
+  const withInvalidation: ITransactOptions = {
+    ...options,
+    onSuccess: (data, response) => {
+      const expected = applyTransactionToCards(queryClient, response)
+      reconcileCards(queryClient, expected)
+      options.onSuccess?.(data, response)
+    },
+    waitForTransactionOptions: {
+      ...options.waitForTransactionOptions,
+      ...CARD_EFFECTS_OPTIONS,
+    },
+  }
+
+  const direct = useTransact(withInvalidation)
+  const sponsored = useSponsoredTransact(withInvalidation)
+
+  // Whether a transaction sent now goes through the gas station.
+  const isSponsored = () => SPONSOR_URL != null && isSponsoredGasEnabled()
+
+  const transact = (tx: Transaction) => {
+    // Forms are hidden in watch-only mode, this is the backstop
+    if (watchOnly) {
+      options.onError?.(new Error('Nothing can be signed in watch-only mode'))
+      return
+    }
+    // The cards shown may be out of date, and the transaction could not be
+    // sent anyway
+    if (offline) {
+      options.onError?.(new Error('Nothing can be signed while offline'))
+      return
+    }
+
+    return isSponsored() ? sponsored.transact(tx) : direct.transact(tx)
+  }
+
+  return { transact, isSponsored }
+}
+
+export default useCardTransact
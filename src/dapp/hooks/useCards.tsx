@@ -1,79 +1,131 @@
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
-import { useCallback, useEffect, useState } from 'react'
-// Using any type since we don't need the specific SuiObjectData type
-type SuiObjectData = any
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit'
+import { SuiClient } from '@mysten/sui/client'
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import { useCallback, useEffect, useMemo } from 'react'
+import { CONTRACT_PACKAGE_VARIABLE_NAME } from '~~/config/network'
+import { CardDecodeError } from '~~/dapp/helpers/cardBcs'
+import { cardsQueryKey, fetchCardsPage } from '~~/dapp/helpers/cards'
+import {
+  cardStoreKey,
+  loadStoredCards,
+  saveStoredCards,
+} from '~~/dapp/helpers/cardStore'
+import { getCardVersions } from '~~/dapp/helpers/packages'
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount'
+import { ICard } from '~~/dapp/types/ICard'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
 
-// Define the Card type based on the fields used in the ManageCardsPage
-export interface Card {
-  id: string
-  balance: string
-  spendingLimit: string
-  amountSpent: string
-  isActive: boolean
-}
+const NO_CARDS: ICard[] = []
 
-export function useCards() {
-  const [cards, setCards] = useState<Card[]>([])
-  const [loading, setLoading] = useState(true)
-  const currentAccount = useCurrentAccount()
-  const suiClient = useSuiClient()
+const CARDS_STORE_QUERY_KEY = 'storedCards'
 
-  const fetchCards = useCallback(async () => {
-    if (!currentAccount?.address) {
-      setCards([])
-      setLoading(false)
-      return
-    }
+// Every component showing cards runs the save effect, this keeps it to one
+// write per change of the cached data.
+const savedData = new WeakSet<object>()
+
+// Cards owned by the viewed account, i.e. the connected wallet or a watched
+// address (see useViewedAccount), shared by every page and form through the
+// react-query cache. Transactions sent with useCardTransact invalidate it.
+//
+// Cards arrive a page at a time: the first page is shown as soon as it loads
+// and the rest are fetched one after another in the background. Cards created
+// with earlier deployments of the contract are included, see
+// CARD_PACKAGE_LINEAGE.
+//
+// The full list is also saved to IndexedDB. Until it has been loaded from the
+// RPC, or when the RPC cannot be reached, the saved cards are shown instead.
+const useCards = () => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const { network } = useSuiClientContext()
+  const { useNetworkVariable } = useNetworkConfig()
+  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
+  const owner = useViewedAccount().address
 
-    setLoading(true)
-    try {
-      // Fetch objects owned by the current account
-      const objects = await suiClient.getOwnedObjects({
-        owner: currentAccount.address,
-        // You may need to adjust this filter to target specific card objects
-        // This is a placeholder that assumes cards have a specific type
-        filter: {
-          StructType: '0x4fc02416d8a5e280bd5d640435378fdb2ec786748dbb1d52884da4784d5fa2ec::card::Card'
-        },
-        options: {
-          showContent: true,
-          showDisplay: true,
-        },
-      })
+  const versions = useMemo(
+    () => getCardVersions(network, packageId),
+    [network, packageId]
+  )
+  const storeKey = owner && cardStoreKey(network, packageId, owner)
 
-      // Transform objects into Card type
-      const cardObjects = objects.data
-        .filter(obj => obj.data && obj.data.content)
-        .map((obj): Card => {
-          const data = obj.data as SuiObjectData
-          const fields = data.content?.dataType === 'moveObject' ? 
-            data.content.fields as Record<string, any> : {}
-          
-          return {
-            id: data.objectId,
-            balance: fields.balance?.toString() || '0',
-            spendingLimit: fields.spending_limit?.toString() || '0',
-            amountSpent: fields.amount_spent?.toString() || '0',
-            isActive: fields.is_active || true,
-          }
-        })
+  const stored = useQuery({
+    queryKey: [CARDS_STORE_QUERY_KEY, storeKey],
+    queryFn: () => loadStoredCards(storeKey!),
+    enabled: !!storeKey && !!packageId,
+    staleTime: Infinity,
+    // Reading IndexedDB needs no network.
+    networkMode: 'always',
+  })
 
-      setCards(cardObjects)
-    } catch (error) {
-      console.error('Error fetching cards:', error)
-    } finally {
-      setLoading(false)
+  // Pages run through every deployment in turn, oldest first.
+  const query = useInfiniteQuery({
+    queryKey: cardsQueryKey(network, packageId, owner),
+    queryFn: ({ pageParam }) =>
+      fetchCardsPage(
+        client,
+        versions[pageParam.version],
+        owner!,
+        pageParam.cursor
+      ),
+    initialPageParam: { version: 0, cursor: null as string | null },
+    getNextPageParam: (lastPage, _pages, { version }) => {
+      if (lastPage.nextCursor != null) {
+        return { version, cursor: lastPage.nextCursor }
+      }
+      return version + 1 < versions.length
+        ? { version: version + 1, cursor: null }
+        : undefined
+    },
+    enabled: owner != null && !!packageId,
+    // Decoding gives the same result every time
+    retry: (failureCount, error) =>
+      !(error instanceof CardDecodeError) && failureCount < 3,
+  })
+
+  const { data, hasNextPage, isFetchingNextPage, isError, fetchNextPage } =
+    query
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && !isError) {
+      fetchNextPage()
     }
-  }, [currentAccount, suiClient])
+  }, [hasNextPage, isFetchingNextPage, isError, fetchNextPage])
 
-  // Initial fetch
+  const liveCards = useMemo(
+    () => data?.pages.flatMap((page) => page.cards),
+    [data]
+  )
+
+  // Saved once every page is in, and again after every update to the cache.
   useEffect(() => {
-    fetchCards()
-  }, [fetchCards])
+    if (!storeKey || !data || !liveCards || hasNextPage) return
+    if (savedData.has(data)) return
+
+    savedData.add(data)
+    saveStoredCards(storeKey, liveCards)
+  }, [storeKey, data, liveCards, hasNextPage])
+
+  const saved = liveCards == null ? stored.data : undefined
+  const cards = liveCards ?? saved?.cards ?? NO_CARDS
+
+  const { refetch } = query
+  const refreshCards = useCallback(() => refetch(), [refetch])
 
   return {
     cards,
-    loading,
-    refreshCards: fetchCards
+    // Only the first page, a refresh keeps showing the cached cards. Saved
+    // cards count as loaded.
+    loading:
+      liveCards == null &&
+      saved == null &&
+      (stored.isLoading || query.isLoading),
+    // Later pages are still on their way, so totals are not final yet.
+    loadingMore: hasNextPage && !isError,
+    refreshing: query.isFetching,
+    error: query.error,
+    // When the cards shown are the saved ones, when they were saved.
+    savedAt: saved?.savedAt,
+    refreshCards,
   }
 }
+
+export default useCards
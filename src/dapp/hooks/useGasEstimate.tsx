@@ -0,0 +1,46 @@
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { SuiClient } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { useEffect, useState } from 'react'
+import { GAS_ESTIMATE_DEBOUNCE_MS } from '~~/dapp/config/gas'
+import { estimateGas, TGasEstimate } from '~~/dapp/helpers/gas'
+
+// Dry-runs the given transaction whenever it changes. Pass null while the form
+// inputs do not describe a valid transaction yet.
+const useGasEstimate = (tx: Transaction | null) => {
+  // dapp-kit ships its own copy of @mysten/sui. The JSON-RPC client is the same
+  // at runtime, the two declarations just do not line up.
+  const client = useSuiClient() as unknown as SuiClient
+  const currentAccount = useCurrentAccount()
+  const [estimate, setEstimate] = useState<TGasEstimate | null>(null)
+  const [isEstimating, setIsEstimating] = useState(false)
+
+  useEffect(() => {
+    setEstimate(null)
+
+    if (tx == null || currentAccount == null) {
+      setIsEstimating(false)
+      return
+    }
+
+    let cancelled = false
+    setIsEstimating(true)
+
+    const timeout = setTimeout(async () => {
+      const result = await estimateGas(client, tx, currentAccount.address)
+      if (!cancelled) {
+        setEstimate(result)
+        setIsEstimating(false)
+      }
+    }, GAS_ESTIMATE_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [client, currentAccount, tx])
+
+  return { estimate, isEstimating }
+}
+
+export default useGasEstimate
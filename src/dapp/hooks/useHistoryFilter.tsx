@@ -0,0 +1,32 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router'
+import {
+  historyFilterParams,
+  isAmountBound,
+  parseHistoryFilter,
+} from '~~/dapp/helpers/historyFilter'
+import { IHistoryFilter } from '~~/dapp/types/IHistoryFilter'
+
+// The history filter, kept in the page's query params so a filtered view can be
+// bookmarked or shared. Changes replace the history entry rather than adding
+// one per keystroke. A change that would make an amount bound something other
+// than a decimal number of coins is ignored, so such a keystroke does nothing.
+const useHistoryFilter = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filter = useMemo(() => parseHistoryFilter(searchParams), [searchParams])
+
+  const setFilter = useCallback(
+    (next: IHistoryFilter) => {
+      if (!isAmountBound(next.minAmount) || !isAmountBound(next.maxAmount)) {
+        return
+      }
+      setSearchParams(historyFilterParams(next), { replace: true })
+    },
+    [setSearchParams]
+  )
+
+  return [filter, setFilter] as const
+}
+
+export default useHistoryFilter
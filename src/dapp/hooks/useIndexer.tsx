@@ -0,0 +1,39 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback } from 'react'
+import { INDEXER_URL } from '~~/dapp/config/indexer'
+import {
+  INDEXER_ENABLED_QUERY_KEY,
+  loadIndexerEnabled,
+  saveIndexerEnabled,
+} from '~~/dapp/helpers/indexer'
+
+// Whether card history is loaded from the configured indexer. The choice is
+// kept in localStorage and goes through the react-query cache, so the toggle
+// and the pages reading history agree straight away.
+const useIndexer = () => {
+  const queryClient = useQueryClient()
+  const { data: enabled = true } = useQuery({
+    queryKey: [INDEXER_ENABLED_QUERY_KEY],
+    queryFn: loadIndexerEnabled,
+    staleTime: Infinity,
+    networkMode: 'always',
+  })
+
+  const setEnabled = useCallback(
+    (next: boolean) => {
+      saveIndexerEnabled(next)
+      queryClient.setQueryData([INDEXER_ENABLED_QUERY_KEY], next)
+    },
+    [queryClient]
+  )
+
+  return {
+    // Set only when there is an indexer and the user has not turned it off.
+    indexerUrl: enabled ? INDEXER_URL : undefined,
+    available: INDEXER_URL != null,
+    enabled,
+    setEnabled,
+  }
+}
+
+export default useIndexer
@@ -0,0 +1,41 @@
+import { SuiHTTPStatusError } from '@mysten/sui/client'
+import { onlineManager, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useSyncExternalStore } from 'react'
+import { CARD_ACTIVITY_QUERY_KEY } from '~~/dapp/helpers/cardActivity'
+import { CARDS_QUERY_KEY } from '~~/dapp/helpers/cards'
+
+// Failed fetches reject with a TypeError, a node that is down answers with a
+// 5xx. Anything else means the RPC was reached.
+const isUnreachable = (error: unknown) =>
+  error instanceof TypeError ||
+  (error instanceof SuiHTTPStatusError && error.status >= 500)
+
+const subscribeOnline = (onChange: () => void) =>
+  onlineManager.subscribe(onChange)
+
+const isOnline = () => onlineManager.isOnline()
+
+// Whether pages are showing saved data because the browser is offline or the
+// last attempt to load cards or their history could not reach the RPC.
+// Nothing can be signed meanwhile.
+const useOffline = () => {
+  const queryCache = useQueryClient().getQueryCache()
+
+  const online = useSyncExternalStore(subscribeOnline, isOnline)
+
+  const subscribeCache = useCallback(
+    (onChange: () => void) => queryCache.subscribe(onChange),
+    [queryCache]
+  )
+  const rpcUnreachable = useSyncExternalStore(subscribeCache, () =>
+    [CARDS_QUERY_KEY, CARD_ACTIVITY_QUERY_KEY].some((key) =>
+      queryCache
+        .findAll({ queryKey: [key] })
+        .some((query) => isUnreachable(query.state.error))
+    )
+  )
+
+  return !online || rpcUnreachable
+}
+
+export default useOffline
@@ -0,0 +1,48 @@
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { CoinStruct } from '@mysten/sui/client'
+import { useCallback, useEffect, useState } from 'react'
+import { fetchAllCoins } from '~~/dapp/helpers/coinSelection'
+
+// Loads all coins of the given type owned by the connected account while
+// enabled is true.
+const useOwnedCoins = (enabled: boolean, coinType: string) => {
+  const client = useSuiClient()
+  const currentAccount = useCurrentAccount()
+  const [coins, setCoins] = useState<CoinStruct[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<Error>()
+  const [refreshCounter, setRefreshCounter] = useState(0)
+
+  const refresh = useCallback(() => {
+    setRefreshCounter((prev) => prev + 1)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || currentAccount == null) {
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+    setError(undefined)
+
+    fetchAllCoins(client, currentAccount.address, coinType)
+      .then((result) => {
+        if (!cancelled) setCoins(result)
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(e)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [client, coinType, currentAccount, enabled, refreshCounter])
+
+  return { coins, isLoading, error, refresh }
+}
+
+export default useOwnedCoins
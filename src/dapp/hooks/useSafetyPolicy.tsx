@@ -0,0 +1,81 @@
+import { useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit'
+import { checkBatchAgainstPolicy } from '~~/dapp/helpers/batch'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { Mist } from '~~/dapp/helpers/mist'
+import {
+  checkAgainstPolicy,
+  describeAmountRule,
+  describeDailyCap,
+  getDailyUsage,
+  getSafetyPolicy,
+  recordDailyUsage,
+  requiresConfirmation,
+} from '~~/dapp/helpers/safetyPolicy'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+import { TPolicyOperation } from '~~/dapp/types/ISafetyPolicy'
+import { TBatchOperation } from '~~/dapp/types/TBatchOperation'
+
+const useSafetyPolicy = () => {
+  const { network } = useSuiClientContext()
+  const currentAccount = useCurrentAccount()
+  const address = currentAccount?.address ?? ''
+
+  // Each coin has its own policy, in its own units. Pass the card's coin to
+  // the methods below.
+  const policyFor = (coin: ICoinInfo) => getSafetyPolicy(network, coin.coinType)
+
+  const usedToday = (coin: ICoinInfo) =>
+    getDailyUsage(network, address, coin.coinType)
+
+  return {
+    policyFor,
+
+    check: (operation: TPolicyOperation, amount: Mist, coin: ICoinInfo) =>
+      checkAgainstPolicy(
+        policyFor(coin),
+        operation,
+        coin,
+        amount,
+        usedToday(coin)
+      ),
+
+    checkBatch: (operations: TBatchOperation[]) =>
+      checkBatchAgainstPolicy(policyFor, operations, usedToday),
+
+    describe: (operation: TPolicyOperation, coin: ICoinInfo) =>
+      [
+        describeAmountRule(policyFor(coin), operation, coin),
+        describeDailyCap(policyFor(coin), operation, coin, usedToday(coin)),
+      ]
+        .filter(Boolean)
+        .join(' '),
+
+    // Returns false if the user declined to go ahead with a large amount, or
+    // with any amount of a coin without a policy of its own.
+    confirm: (amount: Mist, coin: ICoinInfo) => {
+      const policy = policyFor(coin)
+      const moved = `${formatCoinAmount(amount, coin)} ${coin.symbol}`
+
+      return (
+        !requiresConfirmation(policy, amount) ||
+        window.confirm(
+          policy.confirmationThreshold === 0n
+            ? `You are about to move ${moved}. There is no safety policy for ${coin.symbol} on ${network}. Continue?`
+            : `You are about to move ${moved}, which is at or above the ${formatCoinAmount(policy.confirmationThreshold, coin)} ${coin.symbol} confirmation threshold on ${network}. Continue?`
+        )
+      )
+    },
+
+    record: (operation: TPolicyOperation, amount: Mist, coin: ICoinInfo) =>
+      recordDailyUsage(
+        policyFor(coin),
+        network,
+        address,
+        coin.coinType,
+        operation,
+        amount
+      ),
+  }
+}
+
+export default useSafetyPolicy
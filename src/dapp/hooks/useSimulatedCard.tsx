@@ -0,0 +1,64 @@
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
+import { SuiClient } from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { useEffect, useState } from 'react'
+import {
+  createCardClient,
+  ICardInfo,
+  inspectCardInfo,
+} from '~~/dapp/helpers/cardClient'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { ICard } from '~~/dapp/types/ICard'
+
+// Simulates the transaction and reads the card as it would be afterwards.
+// Pass null to skip, e.g. while the preview is closed.
+const useSimulatedCard = (tx: Transaction | null, card: ICard) => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const currentAccount = useCurrentAccount()
+  const { id: cardId } = card
+  const { coinType } = card.coin
+  const { packageId, generic } = card.version
+  const [after, setAfter] = useState<ICardInfo | null>(null)
+  const [error, setError] = useState<string>()
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    setAfter(null)
+    setError(undefined)
+
+    if (tx == null || currentAccount == null) {
+      setIsLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+
+    inspectCardInfo(
+      client,
+      createCardClient(packageId, generic),
+      currentAccount.address,
+      cardId,
+      coinType,
+      tx
+    )
+      .then((info) => {
+        if (!cancelled) setAfter(info)
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(describeTransactionError(e))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [cardId, client, coinType, currentAccount, generic, packageId, tx])
+
+  return { after, error, isLoading }
+}
+
+export default useSimulatedCard
@@ -0,0 +1,87 @@
+import {
+  useCurrentAccount,
+  useSignTransaction,
+  useSuiClient,
+} from '@mysten/dapp-kit'
+import {
+  SuiClient,
+  SuiTransactionBlockResponse,
+  SuiTransactionBlockResponseOptions,
+} from '@mysten/sui/client'
+import { Transaction } from '@mysten/sui/transactions'
+import { toBase64 } from '@mysten/sui/utils'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { SPONSOR_URL } from '~~/dapp/config/sponsor'
+import { requestSponsorship, SponsorError } from '~~/dapp/helpers/sponsor'
+
+export interface ITransactOptions {
+  onBeforeStart?: () => void
+  onSuccess?: (
+    data: SuiSignAndExecuteTransactionOutput,
+    response: SuiTransactionBlockResponse
+  ) => void
+  onError?: (e: Error) => void
+  waitForTransactionOptions?: SuiTransactionBlockResponseOptions
+}
+
+// Same contract as useTransact from @suiware/kit, but the gas is paid by the
+// gas station at VITE_SPONSOR_URL. The wallet signs as sender only and the
+// transaction is executed with both signatures.
+const useSponsoredTransact = ({
+  onBeforeStart,
+  onSuccess,
+  onError,
+  waitForTransactionOptions,
+}: ITransactOptions = {}) => {
+  // See useGasEstimate for why the client is cast.
+  const client = useSuiClient() as unknown as SuiClient
+  const currentAccount = useCurrentAccount()
+  const { mutateAsync: signTransaction } = useSignTransaction()
+
+  const transact = async (tx: Transaction) => {
+    onBeforeStart?.()
+
+    try {
+      if (SPONSOR_URL == null) {
+        throw new SponsorError('No gas station is configured')
+      }
+      if (currentAccount == null) {
+        throw new Error('Connect a wallet first')
+      }
+
+      const { bytes, sponsorSignature } = await requestSponsorship(
+        SPONSOR_URL,
+        client,
+        tx,
+        currentAccount.address
+      )
+      const { signature } = await signTransaction({ transaction: bytes })
+
+      const executed = await client.executeTransactionBlock({
+        transactionBlock: bytes,
+        signature: [signature, sponsorSignature],
+        options: { showRawEffects: true },
+      })
+      const response = await client.waitForTransaction({
+        digest: executed.digest,
+        options: waitForTransactionOptions,
+      })
+
+      onSuccess?.(
+        {
+          bytes,
+          signature,
+          digest: executed.digest,
+          effects: toBase64(Uint8Array.from(executed.rawEffects ?? [])),
+        },
+        response
+      )
+    } catch (e) {
+      onError?.(e as Error)
+    }
+  }
+
+  return { transact }
+}
+
+export default useSponsoredTransact
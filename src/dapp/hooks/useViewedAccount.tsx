@@ -0,0 +1,37 @@
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils'
+import { useCallback, useMemo } from 'react'
+import { useParams } from 'react-router'
+import { WATCH_PATH } from '~~/dapp/config/watch'
+
+// The account whose cards are shown. Under /watch/:address that is the watched
+// address, read only, whether or not a wallet is connected. Everywhere else it
+// is the connected wallet.
+//
+// path() turns an app path into the same page for the viewed account, so links
+// stay in watch-only mode.
+const useViewedAccount = () => {
+  const { address: watched } = useParams()
+  const currentAccount = useCurrentAccount()
+
+  const account = useMemo(() => {
+    if (watched == null) {
+      return { address: currentAccount?.address, watchOnly: false }
+    }
+
+    const normalized = normalizeSuiAddress(watched)
+    return {
+      address: isValidSuiAddress(normalized) ? normalized : undefined,
+      watchOnly: true,
+    }
+  }, [watched, currentAccount?.address])
+
+  const path = useCallback(
+    (to: string) => (watched != null ? `${WATCH_PATH}/${watched}${to}` : to),
+    [watched]
+  )
+
+  return { ...account, path }
+}
+
+export default useViewedAccount
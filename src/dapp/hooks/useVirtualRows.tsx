@@ -0,0 +1,38 @@
+import { UIEvent, useCallback, useState } from 'react'
+
+// Windowing for a scrollable list of fixed-height rows: only the rows in view,
+// plus a few on either side, are rendered. Put onScroll on the scrolling
+// element, size its content to totalHeight and offset the rendered rows by
+// offsetTop.
+const useVirtualRows = (
+  count: number,
+  rowHeight: number,
+  maxViewportHeight: number,
+  overscan = 3
+) => {
+  const [scrollTop, setScrollTop] = useState(0)
+
+  const onScroll = useCallback(
+    (e: UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop),
+    []
+  )
+
+  const totalHeight = count * rowHeight
+  const viewportHeight = Math.min(maxViewportHeight, totalHeight)
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan)
+  const end = Math.min(
+    count,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan
+  )
+
+  return {
+    start,
+    end,
+    onScroll,
+    totalHeight,
+    viewportHeight,
+    offsetTop: start * rowHeight,
+  }
+}
+
+export default useVirtualRows
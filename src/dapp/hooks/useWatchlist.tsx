@@ -0,0 +1,27 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils'
+import { useLocalStorage } from 'react-use'
+import { WATCHLIST_STORAGE_KEY } from '~~/dapp/config/watch'
+
+// Addresses saved for watch-only mode, kept on this device in the order they
+// were added.
+const useWatchlist = () => {
+  const [stored, setStored] = useLocalStorage<string[]>(
+    WATCHLIST_STORAGE_KEY,
+    []
+  )
+  const addresses = stored ?? []
+
+  const add = (address: string) => {
+    const normalized = normalizeSuiAddress(address)
+    if (!addresses.includes(normalized)) {
+      setStored([...addresses, normalized])
+    }
+  }
+
+  const remove = (address: string) =>
+    setStored(addresses.filter((a) => a !== address))
+
+  return { addresses, add, remove }
+}
+
+export default useWatchlist
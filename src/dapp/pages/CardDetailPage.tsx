@@ -0,0 +1,199 @@
+import { Flex, Heading, Progress, Text } from '@radix-ui/themes'
+import { ReactNode } from 'react'
+import { Link, useParams } from 'react-router'
+import CustomConnectButton from '~~/components/CustomConnectButton'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import CardHistory from '~~/dapp/components/CardHistory'
+import CardLabelForm from '~~/dapp/components/CardLabelForm'
+import CardLabelIcon from '~~/dapp/components/CardLabelIcon'
+import CardManagementForm from '~~/dapp/components/CardManagementForm'
+import DepositCardForm from '~~/dapp/components/DepositCardForm'
+import MigrateCardForm from '~~/dapp/components/MigrateCardForm'
+import OfflineSigningForm from '~~/dapp/components/OfflineSigningForm'
+import SpendCardForm from '~~/dapp/components/SpendCardForm'
+import TransferCardForm from '~~/dapp/components/TransferCardForm'
+import UpdateLimitForm from '~~/dapp/components/UpdateLimitForm'
+import WithdrawForm from '~~/dapp/components/WithdrawForm'
+import { cardUtilisation } from '~~/dapp/helpers/cards'
+import { formatCoinAmount } from '~~/dapp/helpers/coins'
+import { maxMist } from '~~/dapp/helpers/mist'
+import useCards from '~~/dapp/hooks/useCards'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount'
+import { addressUrl, objectUrl, packageUrl, transactionUrl } from '~~/helpers/network'
+import useNetworkConfig from '~~/hooks/useNetworkConfig'
+import Header from '../components/Header'
+
+const shorten = (value: string) => `${value.substring(0, 8)}...${value.substring(value.length - 6)}`
+
+const ExternalLink = ({ href, children }: { href: string; children: ReactNode }) => (
+  <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+    {children}
+  </a>
+)
+
+const Detail = ({ label, children }: { label: string; children: ReactNode }) => (
+  <Flex justify="between" gap="4" className="border-b border-gray-100 py-2 last:border-b-0">
+    <Text size="2" color="gray">{label}</Text>
+    <Text size="2" className="text-right font-mono">{children}</Text>
+  </Flex>
+)
+
+const CardDetailPage = () => {
+  const { cardId } = useParams()
+  const { address, watchOnly, path } = useViewedAccount()
+  const { useNetworkVariable } = useNetworkConfig()
+  const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const { cards, loading, loadingMore, refreshing, refreshCards } = useCards()
+  const { labelOf } = useCardLabels()
+
+  const card = cards.find((c) => c.id === cardId)
+  const utilisation = card ? cardUtilisation(card) : 0
+  const label = card ? labelOf(card.id) : undefined
+
+  const renderBody = () => {
+    if (!address) {
+      return (
+        <div className="rounded-lg border border-gray-100 p-8 text-center shadow-sm">
+          <Text as="p" className="mb-4 text-gray-600">Connect your wallet to see this card</Text>
+          <CustomConnectButton />
+        </div>
+      )
+    }
+
+    if (card == null) {
+      return (
+        <div className="rounded-lg border border-gray-100 p-8 text-center shadow-sm">
+          <Text className="text-gray-600">
+            {loading || loadingMore || refreshing
+              ? 'Loading card...'
+              : `This card does not exist or is not owned by ${watchOnly ? 'the watched address' : 'the connected wallet'}.`}
+          </Text>
+        </div>
+      )
+    }
+
+    return (
+      <Flex direction="column" gap="6">
+        <div className="rounded-lg border border-gray-100 p-5 shadow-sm">
+          <div className="mb-4 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <Heading size="5" className="flex items-center gap-2 text-blue-600">
+                <CardLabelIcon label={label} size={20} />
+                {label?.nickname || `${card.coin.symbol} Card ${shorten(card.id)}`}
+              </Heading>
+              {label?.notes && (
+                <Text as="p" size="2" className="mt-1 whitespace-pre-line text-gray-600">
+                  {label.notes}
+                </Text>
+              )}
+            </div>
+            <span className={`rounded-full px-2.5 py-1 text-xs font-medium ${card.isActive ? 'bg-blue-50 text-blue-600' : 'bg-gray-50 text-gray-600'}`}>
+              {card.isActive ? 'Active' : 'Inactive'}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <Text size="1" className="text-gray-600 mb-1">Balance</Text>
+              <Text as="div" className="font-medium text-blue-600 text-lg">
+                {formatCoinAmount(card.balance, card.coin, 4, 4)} {card.coin.symbol}
+              </Text>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <Text size="1" className="text-gray-600 mb-1">Spending Limit</Text>
+              <Text as="div" className="font-medium text-gray-800 text-lg">
+                {formatCoinAmount(card.spendingLimit, card.coin, 2, 2)} {card.coin.symbol}
+              </Text>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <Text size="1" className="text-gray-600 mb-1">Amount Spent</Text>
+              <Text as="div" className="font-medium text-gray-800 text-lg">
+                {formatCoinAmount(card.amountSpent, card.coin, 4, 4)} {card.coin.symbol}
+              </Text>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <Text size="1" className="text-gray-600 mb-1">Available to Spend</Text>
+              <Text as="div" className="font-medium text-gray-800 text-lg">
+                {formatCoinAmount(maxMist(0n, card.spendingLimit - card.amountSpent), card.coin, 2, 2)} {card.coin.symbol}
+              </Text>
+            </div>
+          </div>
+
+          <div className="mt-5">
+            <Flex justify="between" mb="2">
+              <Text size="2" color="gray">Spending limit used</Text>
+              <Text size="2" weight="medium">{Math.round(utilisation * 100)}%</Text>
+            </Flex>
+            <Progress
+              value={utilisation * 100}
+              color={utilisation >= 1 ? 'red' : utilisation >= 0.8 ? 'orange' : 'blue'}
+            />
+          </div>
+
+          <div className="mt-5">
+            <Detail label="Card">
+              <ExternalLink href={objectUrl(explorerUrl, card.id)}>{shorten(card.id)}</ExternalLink>
+            </Detail>
+            <Detail label="Owner">
+              <ExternalLink href={addressUrl(explorerUrl, card.owner)}>{shorten(card.owner)}</ExternalLink>
+            </Detail>
+            <Detail label="Object version">{card.objectVersion}</Detail>
+            <Detail label="Previous transaction">
+              {card.previousTransaction ? (
+                <ExternalLink href={transactionUrl(explorerUrl, card.previousTransaction)}>
+                  {shorten(card.previousTransaction)}
+                </ExternalLink>
+              ) : (
+                'Unknown'
+              )}
+            </Detail>
+            <Detail label="Contract">
+              <ExternalLink href={packageUrl(explorerUrl, card.version.packageId)}>
+                {card.version.label} ({shorten(card.version.packageId)})
+              </ExternalLink>
+            </Detail>
+            <Detail label="Coin">{card.coin.coinType}</Detail>
+          </div>
+
+          <div className="mt-5 flex flex-wrap items-center gap-3">
+            <CardLabelForm cardId={card.id} />
+            {!watchOnly && (
+              <>
+                {card.version.generic && (
+                  <>
+                    <DepositCardForm card={card} onSuccess={refreshCards} />
+                    <WithdrawForm card={card} onSuccess={refreshCards} />
+                    <SpendCardForm card={card} onSuccess={refreshCards} />
+                    <TransferCardForm card={card} onSuccess={refreshCards} />
+                    <UpdateLimitForm card={card} onSuccess={refreshCards} />
+                    <CardManagementForm card={card} onSuccess={refreshCards} />
+                    <OfflineSigningForm card={card} onSuccess={refreshCards} />
+                  </>
+                )}
+                <MigrateCardForm card={card} onSuccess={refreshCards} />
+              </>
+            )}
+          </div>
+        </div>
+
+        <CardHistory card={card} />
+      </Flex>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-24 pb-8">
+        <Link to={path('/manage-cards')} className="text-sm text-blue-600 hover:underline">
+          &larr; All cards
+        </Link>
+        <div className="mt-6">{renderBody()}</div>
+      </div>
+    </div>
+  )
+}
+
+export default CardDetailPage
@@ -1,15 +1,28 @@
 import React from 'react';
 import { Container, Box, Flex, Text, Button, Separator, Link } from '@radix-ui/themes';
-import { useSuiClient } from '@mysten/dapp-kit';
-import { useCurrentAccount } from '@mysten/dapp-kit';
-import { useCards } from '../hooks/useCards';
+import useCards from '~~/dapp/hooks/useCards';
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount';
+import useCardLabels from '~~/dapp/hooks/useCardLabels';
+import useCardActivity from '~~/dapp/hooks/useCardActivity';
+import useCardCoinOf from '~~/dapp/hooks/useCardCoinOf';
 import useNetworkConfig from '~~/hooks/useNetworkConfig';
-import { ArrowUp, ArrowDown, CreditCard, RefreshCw, ExternalLink } from 'lucide-react';
+import { ArrowUp, ArrowDown, CreditCard, RefreshCw, ExternalLink, Gauge, Power, PowerOff, UserRoundCog } from 'lucide-react';
+import { Link as RouterLink } from 'react-router';
 import Header from '../components/Header';
+import HistoryExportMenu from '../components/HistoryExportMenu';
+import HistoryFilterBar from '../components/HistoryFilterBar';
+import IndexerToggle from '../components/IndexerToggle';
+import { CARD_EVENT_TYPES, cardEventAmount, cardEventChange, TCardEventType } from '~~/dapp/helpers/cardActivity';
+import { cardDisplayName } from '~~/dapp/helpers/cardLabels';
+import { formatCoinAmount, UNKNOWN_COIN_INFO } from '~~/dapp/helpers/coins';
+import { filterCardEvents, isHistoryFiltered } from '~~/dapp/helpers/historyFilter';
+import useHistoryFilter from '~~/dapp/hooks/useHistoryFilter';
+import { THistoryTypeFilter } from '~~/dapp/types/IHistoryFilter';
+import { TCardEvent } from '~~/dapp/types/TCardEvent';
 
 // Define transaction types to match the Sui events
-type EventType = 'deposit' | 'withdraw' | 'spend' | 'transfer' | 'create';
-type FilterType = EventType | 'all';
+type EventType = TCardEventType;
+type FilterType = THistoryTypeFilter;
 
 // Define the transaction interface
 interface Transaction {
@@ -18,19 +31,22 @@ interface Transaction {
   cardId: string;
   timestamp: number;
   amount: string;
+  symbol: string;
+  // Shown instead of the amount for events that move no funds
+  change: string | null;
   digest: string;
 }
 
 const HistoryPage: React.FC = () => {
-  const client = useSuiClient();
-  const currentAccount = useCurrentAccount();
+  const { address: viewedAddress, path } = useViewedAccount();
   const networkConfig = useNetworkConfig();
-  const packageId = networkConfig.networkConfig.localnet.variables.contractPackageId;
   const explorerUrl = networkConfig.networkConfig.localnet.variables.explorerUrl;
   const { cards } = useCards();
-  const [transactions, setTransactions] = React.useState<Transaction[]>([]);
-  const [loading, setLoading] = React.useState(false);
-  const [filterType, setFilterType] = React.useState<FilterType>('all');
+  const { labels, cardName } = useCardLabels();
+  // Kept in the URL, so filtered views can be bookmarked and shared
+  const [filter, setFilter] = useHistoryFilter();
+  const filterType = filter.type;
+  const setFilterType = (type: FilterType) => setFilter({ ...filter, type });
 
   // Helper function to format date
   const formatDate = (timestamp: number) => {
@@ -51,128 +67,66 @@ const HistoryPage: React.FC = () => {
       case 'spend': return <CreditCard className="text-yellow-400" />;
       case 'transfer': return <ArrowUp className="text-blue-400" />;
       case 'create': return <CreditCard className="text-purple-400" />;
+      case 'limit': return <Gauge className="text-orange-400" />;
+      case 'deactivate': return <PowerOff className="text-gray-400" />;
+      case 'activate': return <Power className="text-green-400" />;
+      case 'ownership': return <UserRoundCog className="text-blue-400" />;
       default: return <CreditCard className="text-gray-400" />;
     }
   };
 
-  // Fetch transaction data from Sui
-  const fetchTransactionData = React.useCallback(async () => {
-    if (!client || !currentAccount || !packageId) {
-      console.log('Missing prerequisites:', { client: !!client, currentAccount: !!currentAccount, packageId });
-      return;
-    }
-    
-    console.log('Fetching transaction data for account:', currentAccount.address);
-    console.log('Using package ID:', packageId);
-    
-    setLoading(true);
-    try {
-      // Get all events for the package
-      const eventsResponse = await client.queryEvents({
-        query: { MoveEventModule: { package: packageId, module: 'smart_card' }}
-      });
-      
-      console.log('Events response:', eventsResponse.data.length, 'events found');
-      if (eventsResponse.data.length > 0) {
-        console.log('Sample event types:', eventsResponse.data.slice(0, 3).map(e => e.type));
-      }
-      
-      // Process the events
-      const txEvents = eventsResponse.data
-        .map(event => {
-          try {
-            const parsedJson = typeof event.parsedJson === 'string' 
-              ? JSON.parse(event.parsedJson) 
-              : event.parsedJson;
-            
-            // Only include events for the current wallet
-            if (parsedJson.user !== currentAccount.address) {
-              return null;
-            }
-            
-            // Parse event type
-            const eventType = parseEventType(event.type);
-            
-            // Extract amount if available
-            let amount = '0';
-            if ('amount' in parsedJson) {
-              amount = parsedJson.amount;
-            } else if ('value' in parsedJson) {
-              amount = parsedJson.value;
-            }
-            
-            // Format transaction object
-            return {
-              id: event.id.txDigest + event.id.eventSeq,
-              type: eventType,
-              amount: amount,
-              timestamp: Number(event.timestampMs),
-              cardId: parsedJson.card_id || '',
-              digest: event.id.txDigest
-            };
-          } catch (error) {
-            console.error('Error processing event:', error);
-            return null;
-          }
-        })
-        .filter(Boolean) as Transaction[];
-      
-      console.log('Filtered transactions for current account:', txEvents.length);
-      
-      // Sort transactions by timestamp (newest first)
-      const sortedTxs = [...txEvents].sort((a, b) => b.timestamp - a.timestamp);
-      
-      setTransactions(sortedTxs);
-    } catch (error) {
-      console.error('Error fetching transaction data:', error);
-    } finally {
-      setLoading(false);
-    }
-  }, [client, currentAccount, packageId]);
-  
-  // Helper function to parse event type
-  const parseEventType = (eventType: string): EventType => {
-    const eventName = eventType.split('::').pop()?.toLowerCase() || '';
-    if (eventName.includes('deposit')) return 'deposit';
-    if (eventName.includes('withdraw')) return 'withdraw';
-    if (eventName.includes('spend')) return 'spend';
-    if (eventName.includes('directtransfer')) return 'transfer';
-    if (eventName.includes('cardcreated')) return 'create';
-    return 'create'; // Default fallback
-  };
+  // Card events of the viewed account, newest first
+  const { events, loading, refreshing, refresh } = useCardActivity();
+
+  // Every card that shows up in the history, also ones since handed on
+  const historyCardIds = React.useMemo(
+    () => Array.from(new Set([...cards.map(card => card.id), ...events.map(event => event.cardId)])),
+    [cards, events]
+  );
+
+  // Coins of those cards, which scale the amounts
+  const { coinOf, loading: coinsLoading } = useCardCoinOf(historyCardIds);
+
+  const filteredEvents = React.useMemo(
+    () =>
+      filterCardEvents(events, filter, cardId => ({
+        name: cardDisplayName(cardId, labels[cardId]),
+        coin: coinOf(cardId)
+      })),
+    [events, filter, coinOf, labels]
+  );
+
+  const filteredTransactions = React.useMemo(
+    () =>
+      filteredEvents.map((event): Transaction => {
+        // Events do not carry the coin type, the card they belong to does
+        const coin = coinOf(event.cardId) ?? UNKNOWN_COIN_INFO;
+
+        return {
+          id: event.id,
+          type: CARD_EVENT_TYPES[event.kind],
+          amount: formatCoinAmount(cardEventAmount(event), coin),
+          symbol: coin.symbol,
+          change: cardEventChange(event, coin),
+          timestamp: event.timestampMs ?? 0,
+          cardId: event.cardId,
+          digest: event.digest
+        };
+      }),
+    [filteredEvents, coinOf]
+  );
 
-  // Fetch data when wallet is connected
-  React.useEffect(() => {
-    if (currentAccount) {
-      console.log('Triggering transaction fetch - wallet connected');
-      fetchTransactionData();
-    } else {
-      console.log('Not fetching transactions - wallet not connected');
-    }
-  }, [currentAccount, fetchTransactionData]);
-  
   // Handle refresh button click
   const handleRefresh = () => {
-    console.log('Manual fetch triggered');
-    fetchTransactionData();
+    refresh();
   };
   
-  // Filter transactions based on selected type
-  const filteredTransactions = filterType === 'all' 
-    ? transactions 
-    : transactions.filter(tx => tx.type === filterType);
+  // Exports follow the filters
+  const shownIds = new Set(filteredEvents.map(event => event.id));
+  const isShown = (event: TCardEvent) => shownIds.has(event.id);
 
-  // Helper function to get a readable card ID
-  const getCardName = (cardId: string) => {
-    if (!cardId) return 'No card';
-    
-    const card = cards.find(c => c.id === cardId);
-    if (!card) return `Card ID: ${cardId.substring(0, 8)}...`;
-    
-    // Get position in cards array for a simpler display
-    const cardIndex = cards.findIndex(c => c.id === cardId);
-    return `Card #${cardIndex !== -1 ? cardIndex + 1 : '?'}`;
-  };
+  // Nickname or shortened id, which stay the same however the cards are ordered
+  const getCardName = (cardId: string) => (cardId ? cardName(cardId) : 'No card');
   
   return (
     <Container>
@@ -180,14 +134,18 @@ const HistoryPage: React.FC = () => {
       <Box my="6" pt="8">
         <Flex justify="between" align="center" mb="4">
           <Text size="6" weight="bold" color="gray">Transaction History</Text>
-          <Button variant="soft" color="blue" onClick={handleRefresh} disabled={loading}>
-            <RefreshCw size={16} />
-            {loading ? 'Loading...' : 'Refresh'}
-          </Button>
+          <Flex gap="2">
+            <HistoryExportMenu events={events} include={isShown} />
+            <Button variant="soft" color="blue" onClick={handleRefresh} disabled={refreshing}>
+              <RefreshCw size={16} />
+              {refreshing ? 'Loading...' : 'Refresh'}
+            </Button>
+          </Flex>
         </Flex>
+        <IndexerToggle className="mb-4" />
         
         {/* Filter buttons */}
-        <Flex gap="2" wrap="wrap" mb="6">
+        <Flex gap="2" wrap="wrap" mb="3">
           <Button 
             variant={filterType === 'all' ? 'solid' : 'soft'} 
             color="blue"
@@ -227,11 +185,44 @@ const HistoryPage: React.FC = () => {
             <ArrowUp />
             Transfers
           </Button>
+          <Button 
+            variant={filterType === 'limit' ? 'solid' : 'soft'} 
+            color="blue"
+            onClick={() => setFilterType('limit')}
+          >
+            <Gauge />
+            Limit changes
+          </Button>
+          <Button 
+            variant={filterType === 'deactivate' ? 'solid' : 'soft'} 
+            color="blue"
+            onClick={() => setFilterType('deactivate')}
+          >
+            <PowerOff />
+            Deactivations
+          </Button>
+          <Button 
+            variant={filterType === 'activate' ? 'solid' : 'soft'} 
+            color="blue"
+            onClick={() => setFilterType('activate')}
+          >
+            <Power />
+            Reactivations
+          </Button>
+          <Button 
+            variant={filterType === 'ownership' ? 'solid' : 'soft'} 
+            color="blue"
+            onClick={() => setFilterType('ownership')}
+          >
+            <UserRoundCog />
+            Ownership
+          </Button>
         </Flex>
+        <HistoryFilterBar filter={filter} onChange={setFilter} cardIds={historyCardIds} />
         
-        {currentAccount ? (
+        {viewedAddress ? (
           <>
-            {loading ? (
+            {loading || coinsLoading ? (
               <Flex direction="column" align="center" justify="center" py="8">
                 <Text size="2">Loading transaction history...</Text>
               </Flex>
@@ -279,10 +270,14 @@ const HistoryPage: React.FC = () => {
                                     weight="bold" 
                                     color={transaction.type === 'deposit' ? 'blue' : 'gray'}
                                   >
-                                    {transaction.type === 'deposit' ? '+' : '-'}{transaction.amount} SUI
+                                    {transaction.change ?? `${transaction.type === 'deposit' ? '+' : '-'}${transaction.amount} ${transaction.symbol}`}
                                   </Text>
                                   <Text size="2" color="gray">
-                                    {cardName}
+                                    {transaction.cardId ? (
+                                      <RouterLink to={path(`/cards/${transaction.cardId}`)} className="hover:underline">
+                                        {cardName}
+                                      </RouterLink>
+                                    ) : cardName}
                                   </Text>
                                 </Box>
                               </Flex>
@@ -310,9 +305,9 @@ const HistoryPage: React.FC = () => {
                 ) : (
                   <Box p="8" style={{ textAlign: 'center', background: 'white', borderRadius: '8px', boxShadow: '0 1px 3px rgba(0,0,0,0.05)' }}>
                     <Text color="gray">
-                      {filterType === 'all' 
-                        ? 'No transactions to display' 
-                        : `No ${filterType} transactions found`}
+                      {isHistoryFiltered(filter)
+                        ? 'No transactions match the filters'
+                        : 'No transactions to display'}
                     </Text>
                   </Box>
                 )}
@@ -1,71 +1,50 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useCallback, useMemo } from 'react'
 import { Container, Box, Flex, Heading, Text, Button, Separator } from '@radix-ui/themes'
-import { useCurrentAccount } from '@mysten/dapp-kit'
-import { useSuiClient } from '@mysten/dapp-kit'
-import { RefreshCw, Clock, ArrowUp, ArrowDown, CreditCard, Shield } from 'lucide-react'
+import { RefreshCw, Clock, ArrowUp, ArrowDown, CreditCard, Shield, Gauge, Power, PowerOff, UserRoundCog } from 'lucide-react'
+import { Link } from 'react-router'
 import Header from '../components/Header'
-import { CONTRACT_PACKAGE_VARIABLE_NAME, EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
-import { useCards } from '../hooks/useCards'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import useCardCoinOf from '~~/dapp/hooks/useCardCoinOf'
+import useCards from '~~/dapp/hooks/useCards'
+import useViewedAccount from '~~/dapp/hooks/useViewedAccount'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import useCardActivity from '~~/dapp/hooks/useCardActivity'
+import { CARD_EVENT_TYPES, cardEventAmount, cardEventChange } from '~~/dapp/helpers/cardActivity'
+import { formatSui } from '~~/dapp/helpers/mist'
+import { formatCoinAmount, isSuiCoinType, UNKNOWN_COIN_INFO } from '~~/dapp/helpers/coins'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 import NetworkSupportChecker from '~~/components/NetworkSupportChecker'
 import CustomConnectButton from '~~/components/CustomConnectButton'
 
 // Define transaction types to match the Sui events
-type EventType = 'deposit' | 'withdraw' | 'spend' | 'transfer' | 'create';
+type EventType = 'deposit' | 'withdraw' | 'spend' | 'transfer' | 'create' | 'limit' | 'deactivate' | 'activate' | 'ownership';
 
 // Define the transaction interface
 interface Transaction {
   id: string;
   type: EventType;
   cardId: string;
-  timestamp: string;
+  timestamp: number;
   amount: string;
+  symbol: string;
+  // Shown instead of the amount for events that move no funds
+  change: string | null;
   digest: string;
 }
 
-// Define stats for cards
-interface CardStats {
-  id: string;
-  transactions: number;
-  spent: number;
-  balance: number;
-}
-
-// Helper function to parse event type
-const parseEventType = (eventType: string): EventType => {
-  const eventName = eventType.split('::').pop()?.toLowerCase() || '';
-  if (eventName.includes('deposit')) return 'deposit';
-  if (eventName.includes('withdraw')) return 'withdraw';
-  if (eventName.includes('spend')) return 'spend';
-  if (eventName.includes('directtransfer')) return 'transfer';
-  if (eventName.includes('cardcreated')) return 'create';
-  return 'create'; // Default fallback
-}
-
 const IndexPage = () => {
-  // Wallet connection state
-  const currentAccount = useCurrentAccount()
+  // The connected wallet, or the watched address in watch-only mode
+  const { address: viewedAddress, path } = useViewedAccount()
   
   // Network and data hooks
-  const client = useSuiClient()
+  const { cardName } = useCardLabels()
   const { cards, loading: cardsLoading, refreshCards } = useCards()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
   
-  // Dashboard state
-  const [loading, setLoading] = useState(false)
-  const [totalBalance, setTotalBalance] = useState('0.00')
-  const [totalSpent, setTotalSpent] = useState('0.00')
-  const [transactions, setTransactions] = useState<Transaction[]>([])
-  // Used for internal tracking but not displayed in UI
-  // Using underscore prefix to indicate intentionally unused variables
-  const [_cardStats, _setCardStats] = useState<CardStats[]>([])
-  const [refreshKey, setRefreshKey] = useState(0)
-  
   // Format date for display
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString)
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp)
     return `${date.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })}, ${date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`
   }
   
@@ -82,139 +61,71 @@ const IndexPage = () => {
         return <ArrowUp className="text-blue-600" />
       case 'create':
         return <CreditCard className="text-blue-600" />
+      case 'limit':
+        return <Gauge className="text-blue-600" />
+      case 'deactivate':
+        return <PowerOff className="text-blue-600" />
+      case 'activate':
+        return <Power className="text-blue-600" />
+      case 'ownership':
+        return <UserRoundCog className="text-blue-600" />
       default:
         return <Clock className="text-gray-500" />
     }
   }
   
+  // Card events of the viewed account, newest first
+  const { events, refreshing, refresh } = useCardActivity()
+
+  // Coins of the cards in it, also ones since handed on
+  const eventCardIds = useMemo(() => events.map(event => event.cardId), [events])
+  const { coinOf, loading: coinsLoading } = useCardCoinOf(eventCardIds)
+
   // Handle refresh click
   const handleRefresh = useCallback(() => {
-    setRefreshKey(prev => prev + 1)
     refreshCards()
-  }, [refreshCards])
-  
-  // Fetch transaction data from blockchain
-  const fetchTransactionData = useCallback(async () => {
-    if (!currentAccount || !packageId || !client || cards.length === 0) return
-    
-    setLoading(true)
-    
-    try {
-      const eventTypes = [
-        `${packageId}::card::Deposit`,
-        `${packageId}::card::Withdraw`,
-        `${packageId}::card::Spend`,
-        `${packageId}::card::DirectTransfer`,
-        `${packageId}::card::CardCreated`
-      ]
-      
-      // Create stats map for all cards
-      const stats = cards.map(card => ({
-        id: card.id,
-        transactions: 0,
-        spent: 0,
-        balance: Number(card.balance)
-      }))
-      
-      // Overall totals
-      let totalBalanceAmount = 0
-      let totalSpentAmount = 0
-      
-      // Process each card balance
-      stats.forEach(stat => {
-        totalBalanceAmount += stat.balance
-      })
-      
-      // Prepare to store all transactions
-      const allTransactions: Transaction[] = []
-      
-      // Fetch events for each event type
-      const eventPromises = eventTypes.map(async (eventType) => {
-        const events = await client.queryEvents({
-          query: { MoveEventType: eventType }
-        })
-        
-        return { type: eventType, events: events.data }
-      })
-      
-      const results = await Promise.all(eventPromises)
-      
-      // Process all events
-      results.forEach(result => {
-        const { type, events } = result
-        
-        events.forEach(event => {
-          try {
-            const parsedJson = event.parsedJson as any
-            const eventType = parseEventType(type)
-            let cardId = parsedJson.card_id || ''
-            
-            // Create transaction object
-            const transaction: Transaction = {
-              id: event.id.txDigest + event.id.eventSeq,
-              type: eventType,
-              cardId: cardId,
-              timestamp: event.timestampMs || new Date().toISOString(),
-              amount: parsedJson.amount ? (Number(parsedJson.amount) / 1000000000).toFixed(4) : '0',
-              digest: event.id.txDigest
-            }
-            
-            // Update stats if this is a card event
-            if (cardId) {
-              const cardIndex = stats.findIndex(s => s.id === cardId)
-              if (cardIndex !== -1) {
-                // Increment transaction count
-                stats[cardIndex].transactions += 1
-                
-                // Update spent amount for withdrawals and spending
-                if (eventType === 'withdraw' || eventType === 'spend') {
-                  const amount = Number(transaction.amount)
-                  stats[cardIndex].spent += amount
-                  totalSpentAmount += amount
-                }
-              }
-            }
-            
-            // Add transaction to the list
-            allTransactions.push(transaction)
-          } catch (error) {
-            console.error('Error processing event:', error)
-          }
-        })
-      })
-      
-      // Sort transactions by timestamp (newest first)
-      allTransactions.sort((a, b) => {
-        return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      })
-      
-      // Update state
-      setTransactions(allTransactions)
-      _setCardStats(stats)
-      
-      // Convert balance from MIST to SUI (1 SUI = 10^9 MIST)
-      const totalBalanceSui = totalBalanceAmount / 1_000_000_000
-      setTotalBalance(totalBalanceSui.toFixed(4))
-      setTotalSpent(totalSpentAmount.toFixed(4))
-    } catch (error) {
-      console.error('Error fetching transaction data:', error)
-    } finally {
-      setLoading(false)
-    }
-  }, [client, currentAccount, packageId, cards])
-  
-  // Fetch data when connected and cards are loaded
-  useEffect(() => {
-    if (currentAccount && packageId && cards.length > 0 && !cardsLoading) {
-      fetchTransactionData()
-    }
-  }, [currentAccount, packageId, cards, cardsLoading, fetchTransactionData, refreshKey])
+    refresh()
+  }, [refreshCards, refresh])
+
+  const transactions = useMemo(
+    () =>
+      events.map((event): Transaction => {
+        // Events do not carry the coin type, the card they belong to does
+        const coin = coinOf(event.cardId) ?? UNKNOWN_COIN_INFO
+        return {
+          id: event.id,
+          type: CARD_EVENT_TYPES[event.kind],
+          cardId: event.cardId,
+          timestamp: event.timestampMs ?? 0,
+          amount: formatCoinAmount(cardEventAmount(event), coin, 4),
+          symbol: coin.symbol,
+          change: cardEventChange(event, coin),
+          digest: event.digest
+        }
+      }),
+    [events, coinOf]
+  )
+
+  // Totals are only meaningful in one unit, so they cover SUI cards
+  const { totalBalance, totalSpent } = useMemo(() => {
+    const suiCardIds = new Set(
+      cards.filter(card => isSuiCoinType(card.coin.coinType)).map(card => card.id)
+    )
+    const balance = cards
+      .filter(card => suiCardIds.has(card.id))
+      .reduce((total, card) => total + card.balance, 0n)
+    const spent = events
+      .filter(event => event.kind === 'Spend' && suiCardIds.has(event.cardId))
+      .reduce((total, event) => total + cardEventAmount(event), 0n)
+
+    return { totalBalance: formatSui(balance, 4, 2), totalSpent: formatSui(spent, 4, 2) }
+  }, [cards, events])
   
   return (
     <div className="min-h-screen bg-white">
       <Header />
       
-      {!currentAccount ? (
+      {!viewedAddress ? (
         <Container>
           <div className="pt-32 pb-20">
             {/* Hero Section */}
@@ -296,21 +207,21 @@ const IndexPage = () => {
                 onClick={handleRefresh} 
                 variant="soft" 
                 color="blue" 
-                disabled={loading || cardsLoading}
+                disabled={refreshing || cardsLoading || coinsLoading}
               >
                 <RefreshCw size={16} />
-                {loading ? 'Loading...' : 'Refresh'}
+                {refreshing || coinsLoading ? 'Loading...' : 'Refresh'}
               </Button>
             </Flex>
             
             {/* Stats Overview */}
             <Flex gap="4" direction={{ initial: 'column', sm: 'row' }} mb="6">
               <Box className="bg-white border border-gray-100 rounded-lg shadow-sm flex-1 p-4">
-                <Text size="2" color="gray" weight="medium" mb="1">Total Balance</Text>
+                <Text size="2" color="gray" weight="medium" mb="1">Total SUI Balance</Text>
                 <Heading color="blue" size="6">{totalBalance} SUI</Heading>
               </Box>
               <Box className="bg-white border border-gray-100 rounded-lg shadow-sm flex-1 p-4">
-                <Text size="2" color="gray" weight="medium" mb="1">Total Spent</Text>
+                <Text size="2" color="gray" weight="medium" mb="1">Total SUI Spent</Text>
                 <Heading color="gray" size="6">{totalSpent} SUI</Heading>
               </Box>
               <Box className="bg-white border border-gray-100 rounded-lg shadow-sm flex-1 p-4">
@@ -328,7 +239,7 @@ const IndexPage = () => {
                   color="blue" 
                   asChild
                 >
-                  <a href="/history">View All</a>
+                  <a href={path('/history')}>View All</a>
                 </Button>
               </Flex>
               
@@ -337,8 +248,6 @@ const IndexPage = () => {
               <div className="flex flex-col gap-3">
                 {transactions.length > 0 ? (
                   transactions.slice(0, 5).map((transaction) => {
-                    // Find card index (used to display card number)
-                    const cardPositionIndex = cards.findIndex(c => c.id === transaction.cardId);
                     const prefix = transaction.type === 'deposit' ? '+' : 
                                  (transaction.type === 'withdraw' || transaction.type === 'spend' || transaction.type === 'transfer') ? '-' : '';
                     
@@ -354,13 +263,17 @@ const IndexPage = () => {
                                 {transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)}
                               </Text>
                               <Text size="2" color="gray">
-                                {transaction.cardId ? `Card #${cardPositionIndex !== -1 ? cardPositionIndex + 1 : '?'}` : 'No card'}
+                                {transaction.cardId ? (
+                                  <Link to={path(`/cards/${transaction.cardId}`)} className="hover:underline">
+                                    {cardName(transaction.cardId)}
+                                  </Link>
+                                ) : 'No card'}
                               </Text>
                             </Flex>
                           </Flex>
                           <Flex direction="column" align="end">
                             <Text className={`font-medium ${transaction.type === 'deposit' ? 'text-blue-600' : 'text-gray-800'}`}>
-                              {prefix}{transaction.amount} SUI
+                              {transaction.change ?? `${prefix}${transaction.amount} ${transaction.symbol}`}
                             </Text>
                             <Text size="2" color="gray">
                               {formatDate(transaction.timestamp)}
@@ -1,74 +1,94 @@
-import React, { useCallback, useEffect, useState, FormEvent } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState, FormEvent } from 'react'
 import { Container, Flex, Text, Heading, Box, Select, Button } from '@radix-ui/themes'
-import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit'
-import useTransact from '@suiware/kit/useTransact'
-import { ArrowRight, Loader2, CreditCard } from 'lucide-react'
+import { useCurrentAccount } from '@mysten/dapp-kit'
+import { SuiTransactionBlockResponse } from '@mysten/sui/client'
+import { SuiSignAndExecuteTransactionOutput } from '@mysten/wallet-standard'
+import { ArrowRight, Loader2 } from 'lucide-react'
 import Header from '../components/Header'
-import { CONTRACT_PACKAGE_VARIABLE_NAME, EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
+import { EXPLORER_URL_VARIABLE_NAME } from '~~/config/network'
 import useNetworkConfig from '~~/hooks/useNetworkConfig'
 import { notification } from '~~/helpers/notification'
+import {
+  formatCoinAmount,
+  parseCoinAmount,
+  SUI_COIN_INFO,
+} from '~~/dapp/helpers/coins'
+import { describeTransactionError } from '~~/dapp/helpers/errors'
+import { Mist } from '~~/dapp/helpers/mist'
 import { prepareDirectTransferTransaction } from '~~/dapp/helpers/transactions'
+import useCardTransact from '~~/dapp/hooks/useCardTransact'
+import useCards from '~~/dapp/hooks/useCards'
+import useCardLabels from '~~/dapp/hooks/useCardLabels'
+import useSafetyPolicy from '~~/dapp/hooks/useSafetyPolicy'
+import CardLabelIcon from '~~/dapp/components/CardLabelIcon'
+import GasEstimate from '~~/dapp/components/GasEstimate'
+import SponsoredGasToggle from '~~/dapp/components/SponsoredGasToggle'
+import TransactionPreview from '~~/dapp/components/TransactionPreview'
+import { applyGasEstimate } from '~~/dapp/helpers/gas'
+import useGasEstimate from '~~/dapp/hooks/useGasEstimate'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
 import { transactionUrl } from '~~/helpers/network'
 import CustomConnectButton from '~~/components/CustomConnectButton'
 
-// Define the card data interface
-interface CardData {
-  id: string;
-  owner: string;
-  balance: number;
-  spendingLimit: number;
-  amountSpent: number;
-  isActive: boolean;
-}
-
 export default function SpendPage() {
   const currentAccount = useCurrentAccount()
-  const client = useSuiClient()
   const { useNetworkVariable } = useNetworkConfig()
-  const packageId = useNetworkVariable(CONTRACT_PACKAGE_VARIABLE_NAME)
   const explorerUrl = useNetworkVariable(EXPLORER_URL_VARIABLE_NAME)
+  const safetyPolicy = useSafetyPolicy()
   
-  const [cards, setCards] = useState<CardData[]>([])
+  const { cards: ownedCards, loading: cardsLoading, error: cardsError, refreshCards } = useCards()
+  const { labelOf, cardName } = useCardLabels()
   const [selectedCardId, setSelectedCardId] = useState<string>('')
   const [recipientAddress, setRecipientAddress] = useState<string>('')
   const [transferAmount, setTransferAmount] = useState<string>('0.01')
   const [addressError, setAddressError] = useState<string>('')
   const [loading, setLoading] = useState(false)
-  const [refreshCounter, setRefreshCounter] = useState(0)
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false)
   const [notificationId, setNotificationId] = useState<string>()
+  // Amount of the transaction in flight, recorded against the daily cap on success
+  const pendingAmount = useRef<Mist>(0n)
+  const pendingCoin = useRef<ICoinInfo>(SUI_COIN_INFO)
+
+  // Largest balance first. Cards from before the contract was generic can
+  // only be migrated, so they are left out.
+  const cards = useMemo(
+    () => ownedCards.filter(card => card.version.generic).sort((a, b) => (a.balance === b.balance ? 0 : a.balance < b.balance ? 1 : -1)),
+    [ownedCards]
+  )
+  const selectedCard = cards.find(card => card.id === selectedCardId)
+  const selectedCoin = selectedCard?.coin ?? SUI_COIN_INFO
+  const policy = safetyPolicy.policyFor(selectedCoin)
   
   // Helper function to refresh card data
   const handleRefresh = useCallback(() => {
-    setRefreshCounter(prev => prev + 1)
-  }, [])
+    refreshCards()
+  }, [refreshCards])
 
   // Create a transaction subscription
-  const { transact: transfer } = useTransact({
+  const { transact: transfer } = useCardTransact({
     onBeforeStart: () => {
       const nId = notification.txLoading()
       setNotificationId(nId)
       setLoading(true)
     },
     onSuccess: (
-      data,
-      _response
+      data: SuiSignAndExecuteTransactionOutput,
+      _response: SuiTransactionBlockResponse
     ) => {
       notification.txSuccess(
         transactionUrl(explorerUrl, data.digest),
         notificationId
       )
+      safetyPolicy.record('directTransfer', pendingAmount.current, pendingCoin.current)
       
       setLoading(false)
       setRecipientAddress('')
       setTransferAmount('0.01')
       
-      // Wait for 2 seconds to allow blockchain state to update, then refresh
-      setTimeout(() => {
-        handleRefresh()
-      }, 2000)
+      handleRefresh()
     },
     onError: (e: Error) => {
-      notification.txError(e, null, notificationId)
+      notification.txError(e, describeTransactionError(e), notificationId)
       setLoading(false)
     },
     waitForTransactionOptions: {
@@ -76,89 +96,18 @@ export default function SpendPage() {
     },
   })
 
-  // Fetch the user's cards
-  const fetchCards = useCallback(async () => {
-    if (!currentAccount || !client) return
-
-    setLoading(true)
-    try {
-      // Query for owned objects of type Card
-      const { data } = await client.getOwnedObjects({
-        owner: currentAccount.address,
-        filter: {
-          StructType: `${packageId}::card::Card`
-        },
-        options: {
-          showContent: true,
-          showDisplay: true,
-        }
-      })
+  // Auto-select the first card if available and none is selected
+  useEffect(() => {
+    if (cards.length > 0 && !selectedCardId) {
+      setSelectedCardId(cards[0].id)
+    }
+  }, [cards, selectedCardId])
 
-      // Map the response to CardData objects
-      const fetchedCards = await Promise.all(data.map(async (item) => {
-        try {
-          if (!item.data?.objectId) return null
-          
-          // Fetch object details to get the complete card information
-          const objectData = await client.getObject({
-            id: item.data.objectId,
-            options: {
-              showContent: true,
-              showDisplay: true,
-              showOwner: true,
-            }
-          })
-          
-          const content = objectData.data?.content
-          if (!content || content.dataType !== 'moveObject') return null
-          
-          const fields = content.fields as any
-          
-          // Extract balance with proper SUI representation (divide by 10^9)
-          let cardBalance = 0;
-          if (fields.balance?.fields?.value) {
-            cardBalance = Number(fields.balance.fields.value) / 1_000_000_000;
-          } else if (fields.balance?.value) {
-            cardBalance = Number(fields.balance.value) / 1_000_000_000;
-          }
-          
-          // Extract spending limit and amount spent
-          const spendingLimit = Number(fields.spending_limit) / 1_000_000_000;
-          const amountSpent = Number(fields.amount_spent) / 1_000_000_000;
-          const isActive = fields.is_active === true;
-          
-          // Return the formatted card data
-          return {
-            id: item.data.objectId,
-            owner: currentAccount.address,
-            balance: cardBalance,
-            spendingLimit,
-            amountSpent,
-            isActive
-          };
-        } catch (err) {
-          console.error('Error processing card:', err);
-          return null;
-        }
-      }))
-      
-      // Filter out any null values and sort by balance
-      const validCards = fetchedCards.filter(card => card !== null) as CardData[];
-      validCards.sort((a, b) => b.balance - a.balance);
-      
-      setCards(validCards);
-      
-      // Auto-select the first card if available and none is selected
-      if (validCards.length > 0 && !selectedCardId) {
-        setSelectedCardId(validCards[0].id);
-      }
-    } catch (error) {
-      console.error('Error fetching cards:', error);
-      notification.error(new Error('Failed to fetch your cards. Please try again later.'));
-    } finally {
-      setLoading(false);
+  useEffect(() => {
+    if (cardsError != null) {
+      notification.error(cardsError, 'Failed to fetch your cards. Please try again later.')
     }
-  }, [client, currentAccount, packageId, selectedCardId])
+  }, [cardsError])
 
   // Validate Sui address format
   const validateSuiAddress = (address: string): boolean => {
@@ -166,6 +115,17 @@ export default function SpendPage() {
     return /^0x[a-fA-F0-9]{64}$/.test(address);
   }
 
+  // Dry-run what would be submitted so the fee can be shown before signing
+  const previewTx = useMemo(() => {
+    if (!selectedCard || !validateSuiAddress(recipientAddress)) return null
+    try {
+      return prepareDirectTransferTransaction(selectedCard.version, selectedCardId, selectedCoin, parseCoinAmount(transferAmount, selectedCoin), recipientAddress, policy)
+    } catch {
+      return null
+    }
+  }, [selectedCard, selectedCardId, selectedCoin, transferAmount, recipientAddress, policy])
+  const { estimate, isEstimating } = useGasEstimate(previewTx)
+
   // Handle form submission for transfers
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault()
@@ -177,23 +137,35 @@ export default function SpendPage() {
       return
     }
 
-    const selectedCard = cards.find(card => card.id === selectedCardId)
     if (!selectedCard) {
       notification.error(new Error('Selected card not found'))
       return
     }
 
+    let amount: Mist
+    try {
+      amount = parseCoinAmount(transferAmount, selectedCoin)
+    } catch (error) {
+      notification.error(error as Error)
+      return
+    }
+
     // Validate amount
-    if (!transferAmount || Number(transferAmount) <= 0) {
+    if (amount <= 0n) {
       notification.error(new Error('Please enter a valid amount to transfer'))
       return
     }
     
-    const transferAmountNum = Number(transferAmount)
-    
     // Check against card balance
-    if (transferAmountNum > selectedCard.balance) {
-      notification.error(new Error(`Amount exceeds your card balance of ${selectedCard.balance.toFixed(2)} SUI`))
+    if (amount > selectedCard.balance) {
+      notification.error(new Error(`Amount exceeds your card balance of ${formatCoinAmount(selectedCard.balance, selectedCoin)} ${selectedCoin.symbol}`))
+      return
+    }
+
+    try {
+      safetyPolicy.check('directTransfer', amount, selectedCoin)
+    } catch (error) {
+      notification.error(error as Error)
       return
     }
 
@@ -203,15 +175,26 @@ export default function SpendPage() {
       return
     }
 
-    // Use the direct transfer function to transfer funds
-    transfer(prepareDirectTransferTransaction(packageId, selectedCardId, transferAmount, recipientAddress))
+    if (!safetyPolicy.confirm(amount, selectedCoin)) {
+      return
+    }
+
+    pendingAmount.current = amount
+    pendingCoin.current = selectedCoin
+    setIsPreviewOpen(true)
   }
 
-  useEffect(() => {
-    if (currentAccount) {
-      fetchCards()
+  const handleConfirm = () => {
+    setIsPreviewOpen(false)
+    if (!selectedCard) return
+
+    // Use the direct transfer function to transfer funds
+    try {
+      transfer(applyGasEstimate(prepareDirectTransferTransaction(selectedCard.version, selectedCardId, pendingCoin.current, pendingAmount.current, recipientAddress, safetyPolicy.policyFor(pendingCoin.current)), estimate))
+    } catch (error) {
+      notification.error(error as Error)
     }
-  }, [currentAccount, fetchCards, refreshCounter])
+  }
 
   if (!currentAccount) {
     return (
@@ -246,7 +229,7 @@ export default function SpendPage() {
                 <Text as="label" size="2" className="block mb-2 text-white/80">
                   Select Card
                 </Text>
-                {loading && cards.length === 0 ? (
+                {cardsLoading ? (
                   <Text className="text-white/60 italic">Loading your cards...</Text>
                 ) : cards.length === 0 ? (
                   <Text className="text-white/60 italic">You don't have any cards. Create one first.</Text>
@@ -264,12 +247,12 @@ export default function SpendPage() {
                       {cards.map(card => (
                         <Select.Item key={card.id} value={card.id}>
                           <Flex align="center" gap="2">
-                            <CreditCard size={16} />
+                            <CardLabelIcon label={labelOf(card.id)} />
                             <span className="truncate">
-                              Card {card.id.substring(0, 6)}...{card.id.substring(62)}
+                              {cardName(card.id)}
                             </span>
                             <span className="ml-2 text-blue-400">
-                              {card.balance.toFixed(4)} SUI
+                              {formatCoinAmount(card.balance, card.coin, 4)} {card.coin.symbol}
                             </span>
                           </Flex>
                         </Select.Item>
@@ -290,11 +273,11 @@ export default function SpendPage() {
                       <Flex direction="column" gap="2">
                         <Flex justify="between">
                           <Text size="2" className="text-gray-300">Card Balance:</Text>
-                          <Text size="2" className="text-white font-medium">{card.balance.toFixed(4)} SUI</Text>
+                          <Text size="2" className="text-white font-medium">{formatCoinAmount(card.balance, card.coin, 4)} {card.coin.symbol}</Text>
                         </Flex>
                         <Flex justify="between">
                           <Text size="2" className="text-gray-300">Spending Limit:</Text>
-                          <Text size="2" className="text-white font-medium">{card.spendingLimit.toFixed(4)} SUI</Text>
+                          <Text size="2" className="text-white font-medium">{formatCoinAmount(card.spendingLimit, card.coin, 4)} {card.coin.symbol}</Text>
                         </Flex>
                         <Flex justify="between">
                           <Text size="2" className="text-gray-300">Status:</Text>
@@ -332,7 +315,7 @@ export default function SpendPage() {
               {/* Transfer Amount */}
               <Box className="mb-6">
                 <Text as="label" htmlFor="amount" size="2" className="block mb-2 text-white/80">
-                  Transfer Amount (SUI)
+                  Transfer Amount ({selectedCoin.symbol})
                 </Text>
                 <Flex gap="2" align="center">
                   <div className="w-full">
@@ -342,18 +325,20 @@ export default function SpendPage() {
                       placeholder="0.01"
                       value={transferAmount}
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTransferAmount(e.target.value)}
-                      min="0.001"
-                      step="0.001"
+                      min={formatCoinAmount(policy.operations.directTransfer.min, selectedCoin)}
+                      step="any"
                       className="w-full rounded-xl border border-gray-600 bg-gray-700 px-4 py-3 text-white placeholder-gray-400 focus:border-blue-500 focus:outline-none"
                     />
                   </div>
                   <Box className="text-white/70 whitespace-nowrap">
-                    SUI
+                    {selectedCoin.symbol}
                   </Box>
                 </Flex>
                 <Text size="1" className="mt-1 text-blue-300">
-                  For testing, transfers are limited to 0.001-0.2 SUI
+                  {safetyPolicy.describe('directTransfer', selectedCoin)}
                 </Text>
+                <GasEstimate estimate={estimate} isEstimating={isEstimating} />
+                <SponsoredGasToggle className="mt-2" />
               </Box>
               
               {/* Submit Button */}
@@ -379,6 +364,18 @@ export default function SpendPage() {
           </Flex>
         </div>
       </Container>
+
+      {selectedCard && (
+        <TransactionPreview
+          open={isPreviewOpen}
+          onOpenChange={setIsPreviewOpen}
+          tx={previewTx}
+          card={selectedCard}
+          estimate={estimate}
+          isEstimating={isEstimating}
+          onConfirm={handleConfirm}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,20 @@
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICardVersion } from '~~/dapp/types/ICardDeployment'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+
+// A card as every page and form sees it, read through useCards.
+export interface ICard {
+  id: string
+  owner: string
+  // Amounts are base units of the card's coin.
+  balance: Mist
+  spendingLimit: Mist
+  amountSpent: Mist
+  isActive: boolean
+  coin: ICoinInfo
+  // The contract deployment the card was created with.
+  version: ICardVersion
+  // Object version and the digest of the transaction that last changed it.
+  objectVersion: string
+  previousTransaction: string | null
+}
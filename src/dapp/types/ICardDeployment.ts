@@ -0,0 +1,23 @@
+// One publish of the card contract, as listed in the package lineage. Each
+// publish defines its own Card type; upgrades keep that type and only add
+// package ids.
+export interface ICardDeployment {
+  label: string
+  // The original package id first, then every upgrade in order.
+  packageIds: string[]
+  // False for deployments from before cards were generic, whose Card holds
+  // SUI and whose functions take no type argument.
+  generic: boolean
+}
+
+// The deployment a card belongs to, resolved for the current network.
+export interface ICardVersion {
+  label: string
+  // Defines the Card type, so it is what discovery filters by.
+  originalId: string
+  // The latest upgrade, which is what calls go to.
+  packageId: string
+  generic: boolean
+  // Whether this is the deployment new cards are created with.
+  isCurrent: boolean
+}
@@ -0,0 +1,16 @@
+export type TCardStatusFilter = 'all' | 'active' | 'inactive'
+
+export type TCardBalanceFilter = 'all' | 'funded' | 'empty'
+
+// Share of the spending limit already spent.
+export type TCardUtilisationFilter = 'all' | 'half' | 'high' | 'exhausted'
+
+export type TCardSortKey = 'balance' | 'utilisation' | 'spendingLimit'
+
+export interface ICardFilter {
+  status: TCardStatusFilter
+  balance: TCardBalanceFilter
+  utilisation: TCardUtilisationFilter
+  sortBy: TCardSortKey
+  descending: boolean
+}
@@ -0,0 +1,12 @@
+import { Mist } from '~~/dapp/helpers/mist'
+
+// One transaction that changed a card.
+export interface ICardHistoryEntry {
+  digest: string
+  timestampMs: number | null
+  // Event struct name, e.g. "Spend", or for calls that emit no event the card
+  // function that was called, e.g. "withdraw".
+  action: string
+  // In base units of the card's coin, when the action reports one.
+  amount: Mist | null
+}
@@ -0,0 +1,13 @@
+import { TCardLabelColor, TCardLabelIcon } from '~~/dapp/config/labels'
+
+// What the user calls a card, kept on this device only. Every field is
+// optional in practice: an empty nickname falls back to the card id.
+export interface ICardLabel {
+  nickname: string
+  color: TCardLabelColor
+  icon: TCardLabelIcon
+  notes: string
+}
+
+// Labels keyed by card object id.
+export type TCardLabels = Record<string, ICardLabel>
@@ -0,0 +1,20 @@
+import { EventId, SuiEvent } from '@mysten/sui/client'
+import { ICard } from '~~/dapp/types/ICard'
+
+// The cards of one owner as they were last loaded in full.
+export interface IStoredCards {
+  cards: ICard[]
+  savedAt: number
+}
+
+// The card events of one owner, and where to continue syncing them from.
+export interface IStoredActivity {
+  // Oldest first.
+  events: SuiEvent[]
+  // One per deployment, in the order of getCardVersions.
+  cursors: (EventId | null)[]
+  // The cards the events were collected for. History is fetched again from the
+  // start when the owner gets a card that is not in here.
+  cardIds: string[]
+  savedAt: number
+}
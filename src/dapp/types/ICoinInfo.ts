@@ -0,0 +1,7 @@
+// What the UI needs to know about the coin type a card holds.
+export interface ICoinInfo {
+  // Normalized Move type, e.g. 0x...02::sui::SUI
+  coinType: string
+  decimals: number
+  symbol: string
+}
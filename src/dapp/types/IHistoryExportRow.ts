@@ -0,0 +1,20 @@
+import { TCardEventKind } from '~~/dapp/types/TCardEvent'
+
+// One card event as it goes into an exported history file. Amounts are exact
+// decimal strings in whole coins, never rounded.
+export interface IHistoryExportRow {
+  id: string
+  cardId: string
+  // The card's label nickname, or its shortened id.
+  cardName: string
+  kind: TCardEventKind
+  // Negative for funds leaving the card, null for events that move none.
+  amount: string | null
+  symbol: string
+  // Who the funds or the card went to, when the event names them.
+  counterparty: string | null
+  // The card's balance after the event, once one is known.
+  balance: string | null
+  timestampMs: number | null
+  digest: string
+}
@@ -0,0 +1,23 @@
+import { TCardEventType } from '~~/dapp/helpers/cardActivity'
+
+export type THistoryTypeFilter = 'all' | TCardEventType
+
+export type THistorySortKey = 'newest' | 'oldest' | 'largest' | 'smallest'
+
+// Everything is kept as typed, so the filter round-trips through the URL.
+export interface IHistoryFilter {
+  type: THistoryTypeFilter
+  // Local days as YYYY-MM-DD, both inclusive. Empty for no bound.
+  from: string
+  to: string
+  // No cards selected means every card.
+  cardIds: string[]
+  // In whole coins of each event's card. Empty for no bound.
+  minAmount: string
+  maxAmount: string
+  // Part of the address a transfer went to or a card was handed to.
+  recipient: string
+  // Part of the digest, card id, card name or event type.
+  search: string
+  sortBy: THistorySortKey
+}
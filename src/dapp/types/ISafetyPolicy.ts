@@ -0,0 +1,21 @@
+import { Mist } from '~~/dapp/helpers/mist'
+
+export type TPolicyOperation =
+  'deposit' | 'withdraw' | 'spend' | 'directTransfer'
+
+export interface IAmountRule {
+  min: Mist
+  max: Mist
+}
+
+export interface ISafetyPolicy {
+  // Allowed amount range for a single transaction, per operation.
+  operations: Record<TPolicyOperation, IAmountRule>
+  // Total allowed per calendar day for the listed operations.
+  dailyCap: {
+    amount: Mist
+    operations: TPolicyOperation[]
+  }
+  // Amounts at or above this ask the user for an explicit confirmation.
+  confirmationThreshold: Mist
+}
@@ -0,0 +1,24 @@
+import { Mist } from '~~/dapp/helpers/mist'
+import { ICoinInfo } from '~~/dapp/types/ICoinInfo'
+
+// One queued card action. A batch is an ordered list of these that is signed
+// as a single programmable transaction block. Cards in one batch may hold
+// different coin types and belong to different deployments of the contract.
+export type TBatchOperation = {
+  cardId: string
+  coin: ICoinInfo
+  // The package the card's calls go to and whether they take the coin type,
+  // see ICardVersion.
+  packageId: string
+  generic: boolean
+} & (
+  | { kind: 'deposit'; amount: Mist }
+  | { kind: 'withdraw'; amount: Mist }
+  | { kind: 'spend'; amount: Mist; recipient: string }
+  | { kind: 'directTransfer'; amount: Mist; recipient: string }
+  | { kind: 'updateSpendingLimit'; newLimit: Mist }
+  | { kind: 'deactivate' }
+  | { kind: 'reactivate' }
+)
+
+export type TBatchOperationKind = TBatchOperation['kind']
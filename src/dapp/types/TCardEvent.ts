@@ -0,0 +1,29 @@
+import { Mist } from '~~/dapp/helpers/mist'
+
+// A card event decoded from the chain. Amounts are in base units of the card's
+// coin, which the events themselves do not name. Withdraw and the kinds after
+// it only come from upgrades of the contract that added them.
+export type TCardEvent = {
+  // The transaction digest and the event's index within it.
+  id: string
+  digest: string
+  cardId: string
+  timestampMs: number | null
+} & (
+  | { kind: 'CardCreated'; owner: string; spendingLimit: Mist }
+  | { kind: 'Deposit'; amount: Mist; newBalance: Mist }
+  | { kind: 'Spend'; amount: Mist; newBalance: Mist; totalSpent: Mist }
+  | {
+      kind: 'DirectTransfer'
+      recipient: string
+      amount: Mist
+      newBalance: Mist
+    }
+  | { kind: 'Withdraw'; amount: Mist; newBalance: Mist }
+  | { kind: 'SpendingLimitUpdated'; oldLimit: Mist; newLimit: Mist }
+  | { kind: 'CardDeactivated' }
+  | { kind: 'CardReactivated' }
+  | { kind: 'CardTransferred'; previousOwner: string; newOwner: string }
+)
+
+export type TCardEventKind = TCardEvent['kind']
@@ -8,3 +8,17 @@ export const reactRender = (component: ReactNode) => {
 export const fromBytesToString = (bytes: number[]): string => {
   return new TextDecoder().decode(new Uint8Array(bytes))
 }
+
+// Saves the content as a file through the browser's download prompt.
+export const downloadFile = (
+  fileName: string,
+  content: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
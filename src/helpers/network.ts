@@ -9,7 +9,15 @@ export const transactionUrl = (baseExplorerUrl: string, txDigest: string) => {
 }
 
 export const objectUrl = (baseExplorerUrl: string, objectId: string) => {
-  return packageUrl(baseExplorerUrl, objectId)
+  return `${baseExplorerUrl}/object/${objectId}`
+}
+
+export const addressUrl = (baseExplorerUrl: string, address: string) => {
+  // Suivision calls addresses accounts, the local explorer does not.
+  const subpath =
+    baseExplorerUrl.search('localhost') === -1 ? 'account' : 'address'
+
+  return `${baseExplorerUrl}/${subpath}/${address}`
 }
 
 export const packageUrl = (baseExplorerUrl: string, packageId: string) => {
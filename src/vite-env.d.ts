@@ -3,6 +3,14 @@
 interface ImportMetaEnv {
   readonly VITE_APP_NAME: string
   readonly VITE_APP_DESCRIPTION: string
+  readonly VITE_GAS_BUDGET_MARGIN_PERCENT?: string
+  readonly VITE_CARD_COIN_TYPES?: string
+  readonly VITE_LOCALNET_TEST_COIN_PACKAGE_ID?: string
+  readonly VITE_DEVNET_TEST_COIN_PACKAGE_ID?: string
+  readonly VITE_TESTNET_TEST_COIN_PACKAGE_ID?: string
+  readonly VITE_SPONSOR_URL?: string
+  readonly VITE_CARD_EVENTS_POLL_INTERVAL_MS?: string
+  readonly VITE_INDEXER_URL?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,30 @@
+/// Test Coin - A freely mintable coin for trying out non-SUI cards on localnet and testnet
+/// It uses 6 decimals like USDC, so it also exercises the frontend's decimals handling
+/// Published on its own, never with the card package, so it does not reach mainnet
+module test_coin::test_coin {
+    use sui::coin::{Self, TreasuryCap};
+
+    /// One-time witness for the currency
+    public struct TEST_COIN has drop {}
+
+    fun init(witness: TEST_COIN, ctx: &mut TxContext) {
+        let (treasury_cap, metadata) = coin::create_currency(
+            witness,
+            6,
+            b"TCOIN",
+            b"Test Coin",
+            b"Test asset for virtual cards",
+            option::none(),
+            ctx
+        );
+
+        transfer::public_freeze_object(metadata);
+        // Shared so anyone can mint test funds for themselves
+        transfer::public_share_object(treasury_cap);
+    }
+
+    /// Mints test coins to the sender
+    public fun mint(treasury_cap: &mut TreasuryCap<TEST_COIN>, amount: u64, ctx: &mut TxContext) {
+        coin::mint_and_transfer(treasury_cap, amount, tx_context::sender(ctx), ctx);
+    }
+}